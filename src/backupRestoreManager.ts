@@ -7,6 +7,7 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import { spawn } from 'child_process';
 import { ConnectionManager } from './connectionManager';
+import { buildLibpqSslEnv } from './connectionSsl';
 import { info, debug } from './logger';
 
 export interface BackupOptions {
@@ -56,7 +57,7 @@ export class BackupRestoreManager {
             throw new Error('Connection not found');
         }
 
-        const password = await this.connectionManager['context'].secrets.get(`postgres-password-${connectionId}`);
+        const password = await this.connectionManager.getPassword(connectionId);
 
         return new Promise((resolve, reject) => {
             progressCallback?.({
@@ -72,6 +73,7 @@ export class BackupRestoreManager {
             const dumpProcess = spawn('pg_dump', args, {
                 env: {
                     ...process.env,
+                    ...buildLibpqSslEnv(config),
                     PGPASSWORD: password
                 }
             });
@@ -148,7 +150,7 @@ export class BackupRestoreManager {
             throw new Error('Connection not found');
         }
 
-        const password = await this.connectionManager['context'].secrets.get(`postgres-password-${connectionId}`);
+        const password = await this.connectionManager.getPassword(connectionId);
 
         // Detect format from file extension
         const isPlainSql = inputPath.endsWith('.sql');
@@ -171,6 +173,7 @@ export class BackupRestoreManager {
             const restoreProcess = spawn(command, args, {
                 env: {
                     ...process.env,
+                    ...buildLibpqSslEnv(config),
                     PGPASSWORD: password
                 }
             });
@@ -0,0 +1,119 @@
+/**
+ * Connection Details View for PostgreSQL Data Editor
+ * Reads the settings a connection's sessions actually run with
+ */
+
+import { ConnectionConfig, ConnectionManager, PoolUsage } from './connectionManager';
+import { resolveSslMode } from './connectionSsl';
+import { DEFAULT_APPLICATION_NAME } from './sessionSettings';
+
+export interface SessionSettingRow {
+    label: string;
+    parameter: string;
+    // As saved on the connection; undefined means the server default
+    configured?: string;
+    // current_setting() on the shared session
+    effective: string;
+}
+
+export interface ConnectionDetails {
+    name: string;
+    endpoint: string;
+    sslMode: string;
+    sshTunnel?: string;
+    service?: string;
+    serverVersion: string;
+    backendPid: number;
+    sessionUser: string;
+    pool: PoolUsage;
+    settings: SessionSettingRow[];
+}
+
+/**
+ * Pair each session setting with the value the server reports; the two
+ * differ when the server normalizes a value or ALTER ROLE ... SET wins.
+ */
+export function buildSessionSettingRows(config: Pick<ConnectionConfig, 'sessionSettings' | 'readOnly'>, effective: Record<string, string>): SessionSettingRow[] {
+    const settings = config.sessionSettings;
+    return [
+        { label: 'Statement timeout', parameter: 'statement_timeout', configured: settings?.statementTimeout, effective: effective.statement_timeout },
+        { label: 'Lock timeout', parameter: 'lock_timeout', configured: settings?.lockTimeout, effective: effective.lock_timeout },
+        {
+            label: 'Idle in transaction timeout',
+            parameter: 'idle_in_transaction_session_timeout',
+            configured: settings?.idleInTransactionSessionTimeout,
+            effective: effective.idle_in_transaction_session_timeout
+        },
+        { label: 'Role', parameter: 'role', configured: settings?.role, effective: effective.current_user },
+        { label: 'search_path', parameter: 'search_path', configured: settings?.searchPath, effective: effective.search_path },
+        {
+            label: 'Application name',
+            parameter: 'application_name',
+            configured: settings?.applicationName ?? DEFAULT_APPLICATION_NAME,
+            effective: effective.application_name
+        },
+        {
+            label: 'Read-only transactions',
+            parameter: 'default_transaction_read_only',
+            configured: config.readOnly ? 'on' : undefined,
+            effective: effective.default_transaction_read_only
+        }
+    ];
+}
+
+export class ConnectionDetailsView {
+    constructor(private connectionManager: ConnectionManager) {}
+
+    /**
+     * Saved settings of a connection next to the values its shared session
+     * reports. Connects first when the connection is closed.
+     */
+    async getDetails(connectionId: string): Promise<ConnectionDetails> {
+        const config = (await this.connectionManager.getConnections()).find(c => c.id === connectionId);
+        if (!config) {
+            throw new Error('Connection not found');
+        }
+
+        const client = await this.connectionManager.getClient(connectionId)
+            ?? await this.connectionManager.connect(connectionId);
+        if (!client) {
+            throw new Error('Could not connect to database');
+        }
+
+        this.connectionManager.markBusy(connectionId);
+        try {
+            const result = await client.query(`
+                SELECT
+                    current_setting('server_version') AS server_version,
+                    pg_backend_pid() AS backend_pid,
+                    session_user::text AS session_user,
+                    current_user::text AS current_user,
+                    current_setting('statement_timeout') AS statement_timeout,
+                    current_setting('lock_timeout') AS lock_timeout,
+                    current_setting('idle_in_transaction_session_timeout') AS idle_in_transaction_session_timeout,
+                    current_setting('search_path') AS search_path,
+                    current_setting('application_name') AS application_name,
+                    current_setting('default_transaction_read_only') AS default_transaction_read_only
+            `);
+            const row = result.rows[0];
+            return {
+                name: config.name,
+                endpoint: `${config.username}@${config.host}:${config.port}/${config.database}`,
+                sslMode: resolveSslMode(config),
+                sshTunnel: describeSshTunnel(config),
+                service: config.service,
+                serverVersion: row.server_version,
+                backendPid: Number(row.backend_pid),
+                sessionUser: row.session_user,
+                pool: this.connectionManager.getPoolUsage(connectionId),
+                settings: buildSessionSettingRows(config, row)
+            };
+        } finally {
+            this.connectionManager.markIdle(connectionId);
+        }
+    }
+}
+
+function describeSshTunnel(config: ConnectionConfig): string | undefined {
+    return config.ssh ? `${config.ssh.username}@${config.ssh.host}:${config.ssh.port}` : undefined;
+}
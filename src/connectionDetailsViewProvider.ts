@@ -0,0 +1,200 @@
+/**
+ * Connection Details View Provider - UI showing a connection's endpoint and
+ * the effective session settings
+ */
+
+import * as vscode from 'vscode';
+import { ConnectionManager } from './connectionManager';
+import { ConnectionDetailsView } from './connectionDetailsView';
+
+export class ConnectionDetailsViewProvider {
+    private readonly detailsView: ConnectionDetailsView;
+    private readonly panels = new Map<string, vscode.WebviewPanel>();
+
+    constructor(connectionManager: ConnectionManager) {
+        this.detailsView = new ConnectionDetailsView(connectionManager);
+    }
+
+    async openDetailsView(connectionId: string, connectionName: string): Promise<void> {
+        const existingPanel = this.panels.get(connectionId);
+        if (existingPanel) {
+            existingPanel.reveal(vscode.ViewColumn.Two);
+            await this.loadDetails(existingPanel, connectionId);
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'postgresConnectionDetails',
+            `Connection - ${connectionName}`,
+            vscode.ViewColumn.Two,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        this.panels.set(connectionId, panel);
+        panel.webview.html = this.buildHtml(connectionName);
+
+        panel.onDidDispose(() => {
+            this.panels.delete(connectionId);
+        });
+
+        panel.webview.onDidReceiveMessage(async (message) => {
+            if (message.command === 'refresh') {
+                await this.loadDetails(panel, connectionId);
+            }
+        });
+
+        await this.loadDetails(panel, connectionId);
+    }
+
+    private async loadDetails(panel: vscode.WebviewPanel, connectionId: string): Promise<void> {
+        try {
+            const details = await this.detailsView.getDetails(connectionId);
+            panel.webview.postMessage({ command: 'loadDetails', data: details });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            panel.webview.postMessage({ command: 'loadError', error: message });
+            vscode.window.showErrorMessage(`Failed to load connection details: ${message}`);
+        }
+    }
+
+    private buildHtml(connectionName: string): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Connection - ${escapeHtml(connectionName)}</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            padding: 20px;
+            color: var(--vscode-foreground);
+            background-color: var(--vscode-editor-background);
+        }
+        h1 { margin-top: 0; }
+        h2 { margin-top: 30px; border-bottom: 1px solid var(--vscode-panel-border); padding-bottom: 5px; }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+            margin: 15px 0;
+        }
+        th, td {
+            padding: 8px;
+            text-align: left;
+            border: 1px solid var(--vscode-panel-border);
+        }
+        th {
+            background-color: var(--vscode-editor-inactiveSelectionBackground);
+        }
+        td.label { width: 30%; }
+        code { font-family: var(--vscode-editor-font-family); }
+        button {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 6px 16px;
+            cursor: pointer;
+            border-radius: 2px;
+        }
+        button:hover {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+        .toolbar {
+            margin: 20px 0;
+        }
+        .muted {
+            opacity: 0.7;
+        }
+        .error {
+            color: var(--vscode-errorForeground);
+        }
+        .loading {
+            text-align: center;
+            padding: 40px;
+            opacity: 0.7;
+        }
+    </style>
+</head>
+<body>
+    <h1>Connection: ${escapeHtml(connectionName)}</h1>
+
+    <div class="toolbar">
+        <button id="refreshBtn">Refresh</button>
+    </div>
+
+    <div id="content">
+        <div class="loading">Loading connection details...</div>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        const refreshBtn = document.getElementById('refreshBtn');
+        if (refreshBtn) refreshBtn.addEventListener('click', () => vscode.postMessage({ command: 'refresh' }));
+
+        function escapeHtml(value) {
+            return String(value)
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;');
+        }
+
+        function infoRow(label, value) {
+            return '<tr><td class="label">' + label + '</td><td><code>' + escapeHtml(value) + '</code></td></tr>';
+        }
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.command === 'loadDetails') {
+                renderDetails(message.data);
+            } else if (message.command === 'loadError') {
+                document.getElementById('content').innerHTML = '<p class="error">' + escapeHtml(message.error) + '</p>';
+            }
+        });
+
+        function renderDetails(details) {
+            const rows = [
+                infoRow('Endpoint', details.endpoint),
+                infoRow('SSL mode', details.sslMode),
+                details.sshTunnel ? infoRow('SSH tunnel', details.sshTunnel) : '',
+                details.service ? infoRow('Service', details.service) : '',
+                infoRow('Server version', details.serverVersion),
+                infoRow('Login user', details.sessionUser),
+                infoRow('Backend PID', details.backendPid),
+                infoRow('Sessions in use', details.pool.open + ' of ' + details.pool.max)
+            ].join('');
+
+            const settings = details.settings.map(setting => {
+                const configured = setting.configured === undefined
+                    ? '<span class="muted">server default</span>'
+                    : '<code>' + escapeHtml(setting.configured) + '</code>';
+                return '<tr>'
+                    + '<td class="label">' + escapeHtml(setting.label) + ' <span class="muted">(' + escapeHtml(setting.parameter) + ')</span></td>'
+                    + '<td>' + configured + '</td>'
+                    + '<td><code>' + escapeHtml(setting.effective) + '</code></td>'
+                    + '</tr>';
+            }).join('');
+
+            document.getElementById('content').innerHTML =
+                '<h2>Connection</h2><table><tbody>' + rows + '</tbody></table>'
+                + '<h2>Session Settings</h2>'
+                + '<table><thead><tr><th>Setting</th><th>Configured</th><th>Effective</th></tr></thead><tbody>' + settings + '</tbody></table>'
+                + '<p class="muted">Effective values are read from the shared session. SQL terminals and documents open their own sessions with the same settings.</p>';
+        }
+    </script>
+</body>
+</html>`;
+    }
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
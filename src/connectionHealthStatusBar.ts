@@ -0,0 +1,247 @@
+/**
+ * Connection Health Status Bar for PostgreSQL Data Editor
+ * Shows the server version, ping latency and transaction state of the
+ * connection the active SQL document runs on
+ */
+
+import * as vscode from 'vscode';
+import { ConnectionManager, ConnectionStatus, TransactionStatus } from './connectionManager';
+import { SqlEditor } from './sqlEditor';
+
+// How often the active connection is pinged while it is idle
+export const PING_INTERVAL_MS = 15_000;
+
+export interface ConnectionHealth {
+    name: string;
+    status: ConnectionStatus;
+    // Short server version, e.g. "16.2"
+    serverVersion?: string;
+    latencyMs?: number;
+    transactionStatus?: TransactionStatus;
+}
+
+export interface ConnectionHealthDisplay {
+    text: string;
+    tooltip: string;
+    // A session is holding a transaction open
+    warning: boolean;
+}
+
+/**
+ * Version number without the build details, so that
+ * "16.2 (Debian 16.2-1.pgdg120+2)" becomes "16.2".
+ */
+export function shortServerVersion(version: string | undefined): string | undefined {
+    const short = version?.trim().split(/\s+/)[0];
+    return short || undefined;
+}
+
+/**
+ * pg_stat_activity wording for the transaction state: a transaction is
+ * "idle in transaction" between statements and "in transaction" while one runs.
+ */
+export function describeTransactionStatus(transactionStatus: TransactionStatus | undefined, status: ConnectionStatus): string | undefined {
+    switch (transactionStatus) {
+        case 'inTransaction':
+            return status === 'busy' ? 'in transaction' : 'idle in transaction';
+        case 'failed':
+            return 'idle in transaction (aborted)';
+        default:
+            return undefined;
+    }
+}
+
+export function formatConnectionHealth(health: ConnectionHealth): ConnectionHealthDisplay {
+    switch (health.status) {
+        case 'connecting':
+            return { text: '$(sync~spin) Connecting...', tooltip: `Connecting to ${health.name}`, warning: false };
+        case 'error':
+            return { text: '$(error) Connection failed', tooltip: `${health.name}: connection failed\nClick for connection actions`, warning: false };
+        case 'disconnected':
+            return { text: '$(debug-disconnect) Disconnected', tooltip: `${health.name}: disconnected\nClick for connection actions`, warning: false };
+    }
+
+    const transaction = describeTransactionStatus(health.transactionStatus, health.status);
+    const parts = [
+        health.serverVersion ? `PG ${health.serverVersion}` : 'PG',
+        health.latencyMs !== undefined ? `${health.latencyMs} ms` : undefined,
+        transaction
+    ].filter((part): part is string => part !== undefined);
+    const icon = health.status === 'busy' ? '$(sync~spin)' : '$(pulse)';
+
+    const tooltip = [
+        health.name,
+        health.serverVersion ? `Server: PostgreSQL ${health.serverVersion}` : undefined,
+        health.latencyMs !== undefined ? `Round trip: ${health.latencyMs} ms` : undefined,
+        `Transaction: ${transaction ?? 'none'}`,
+        'Click for connection actions'
+    ].filter((line): line is string => line !== undefined).join('\n');
+
+    return { text: `${icon} ${parts.join(' · ')}`, tooltip, warning: transaction !== undefined };
+}
+
+type ConnectionActionPickItem = vscode.QuickPickItem & { command: string; args: unknown[] };
+
+export class ConnectionHealthStatusBar implements vscode.Disposable {
+    private statusBarItem: vscode.StatusBarItem;
+    // Last ping result by connection id
+    private health = new Map<string, { serverVersion?: string; latencyMs?: number }>();
+    private pinging = new Set<string>();
+    private pingTimer: ReturnType<typeof setInterval>;
+
+    constructor(
+        context: vscode.ExtensionContext,
+        private readonly connectionManager: ConnectionManager,
+        private readonly sqlEditor: SqlEditor
+    ) {
+        // Just right of the SQL document's connection picker
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+        this.statusBarItem.command = 'postgres-editor.showConnectionActions';
+        context.subscriptions.push(this.statusBarItem);
+        context.subscriptions.push(
+            vscode.commands.registerCommand('postgres-editor.showConnectionActions', async () => { await this.showConnectionActions(); })
+        );
+
+        context.subscriptions.push(this.connectionManager.onStatusChange(({ id, status }) => {
+            if (status === 'disconnected' || status === 'error') {
+                this.health.delete(id);
+            }
+            if (id !== this.getTarget()?.connectionId) {
+                return;
+            }
+            void this.update();
+            if (status === 'connected' && !this.health.has(id)) {
+                void this.ping(id);
+            }
+        }));
+        context.subscriptions.push(this.sqlEditor.onDidChangeDocumentConnection(() => this.refresh()));
+        context.subscriptions.push(vscode.window.onDidChangeActiveTextEditor(() => this.refresh()));
+
+        this.pingTimer = setInterval(() => {
+            const target = this.getTarget();
+            if (target) {
+                void this.ping(target.connectionId);
+            }
+        }, PING_INTERVAL_MS);
+        context.subscriptions.push(this);
+
+        this.refresh();
+    }
+
+    dispose(): void {
+        clearInterval(this.pingTimer);
+    }
+
+    /**
+     * The connection of the active SQL document and the session it runs its
+     * statements on, keyed by the document URI like SqlEditor does.
+     */
+    private getTarget(): { connectionId: string; owner: string } | undefined {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            return undefined;
+        }
+        const connectionId = this.sqlEditor.getSavedConnectionForDocument(editor.document).connectionId;
+        return connectionId ? { connectionId, owner: editor.document.uri.toString() } : undefined;
+    }
+
+    private refresh(): void {
+        void this.update();
+        const target = this.getTarget();
+        if (target && !this.health.has(target.connectionId)) {
+            void this.ping(target.connectionId);
+        }
+    }
+
+    // Measures one round trip on the shared session; it also reads the version
+    private async ping(connectionId: string): Promise<void> {
+        // Queued behind a running query the round trip would be meaningless
+        if (this.pinging.has(connectionId) || this.connectionManager.getConnectionStatus(connectionId) !== 'connected') {
+            return;
+        }
+        const client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            return;
+        }
+
+        this.pinging.add(connectionId);
+        const started = Date.now();
+        try {
+            const result = await client.query(`SELECT current_setting('server_version') AS server_version`);
+            this.health.set(connectionId, {
+                serverVersion: shortServerVersion(result.rows[0]?.server_version),
+                latencyMs: Date.now() - started
+            });
+        } catch {
+            // A dropped connection is reported through onStatusChange
+            this.health.delete(connectionId);
+        } finally {
+            this.pinging.delete(connectionId);
+        }
+        if (connectionId === this.getTarget()?.connectionId) {
+            await this.update();
+        }
+    }
+
+    private async update(): Promise<void> {
+        const target = this.getTarget();
+        if (!target) {
+            this.statusBarItem.hide();
+            return;
+        }
+
+        const config = (await this.connectionManager.getConnections()).find(c => c.id === target.connectionId);
+        const status = this.connectionManager.getConnectionStatus(target.connectionId);
+        const health = this.health.get(target.connectionId);
+        // Documents run on their own session; before their first statement
+        // the shared session is the best indication
+        const transactionStatus = this.connectionManager.getTransactionStatus(target.connectionId, target.owner)
+            ?? this.connectionManager.getTransactionStatus(target.connectionId);
+        const display = formatConnectionHealth({
+            name: config?.name ?? target.connectionId,
+            status,
+            serverVersion: health?.serverVersion,
+            latencyMs: health?.latencyMs,
+            transactionStatus
+        });
+
+        this.statusBarItem.text = display.text;
+        this.statusBarItem.tooltip = display.tooltip;
+        this.statusBarItem.backgroundColor = display.warning ? new vscode.ThemeColor('statusBarItem.warningBackground') : undefined;
+        this.statusBarItem.show();
+    }
+
+    async showConnectionActions(): Promise<void> {
+        const target = this.getTarget();
+        if (!target) {
+            await vscode.commands.executeCommand('postgres-editor.selectSqlDocumentConnection');
+            return;
+        }
+
+        const config = (await this.connectionManager.getConnections()).find(c => c.id === target.connectionId);
+        const name = config?.name ?? target.connectionId;
+        // The connection commands take a tree item; only these two fields are read
+        const item = { connectionId: target.connectionId, label: name };
+        const status = this.connectionManager.getConnectionStatus(target.connectionId);
+        const connected = status === 'connected' || status === 'busy';
+
+        const actions: ConnectionActionPickItem[] = connected
+            ? [
+                { label: '$(refresh) Reconnect', command: 'postgres-editor.refreshConnection', args: [item] },
+                { label: '$(debug-disconnect) Disconnect', command: 'postgres-editor.disconnect', args: [item] },
+                { label: '$(info) Show Connection Details', command: 'postgres-editor.showConnectionDetails', args: [item] },
+                { label: '$(terminal) Open SQL Terminal', command: 'postgres-editor.openSqlTerminal', args: [item] }
+            ]
+            : [
+                { label: '$(plug) Connect', command: 'postgres-editor.connect', args: [item] }
+            ];
+        actions.push({ label: '$(database) Change Connection for This Document', command: 'postgres-editor.selectSqlDocumentConnection', args: [] });
+
+        const choice = await vscode.window.showQuickPick(actions, {
+            placeHolder: `${name}: choose an action`
+        });
+        if (choice) {
+            await vscode.commands.executeCommand(choice.command, ...choice.args);
+        }
+    }
+}
@@ -0,0 +1,153 @@
+// connectionImporter.ts - Imports connections from ~/.pgpass, pg_service.conf
+// and PG* environment variables
+
+import * as vscode from 'vscode';
+import { ConnectionConfig, ConnectionManager } from './connectionManager';
+import {
+    PgConfigEnvironment,
+    defaultPgConfigEnvironment,
+    findPgpassPassword,
+    getPgServiceFilePaths,
+    getPgpassPath,
+    readPgEnvironment,
+    readPgServices,
+    readPgpass,
+    serviceToConnectionFields
+} from './pgConfigFiles';
+
+export type ImportSource = 'service' | 'environment' | 'pgpass';
+
+export interface ImportCandidate {
+    source: ImportSource;
+    config: Partial<ConnectionConfig> & Pick<ConnectionConfig, 'name' | 'host' | 'port' | 'database' | 'username'>;
+    // Stored in SecretStorage on import; service connections keep reading theirs from the files
+    password?: string;
+}
+
+type CandidatePickItem = vscode.QuickPickItem & { candidate: ImportCandidate };
+
+const SOURCE_ICONS: Record<ImportSource, string> = {
+    service: 'file-symlink-file',
+    environment: 'terminal',
+    pgpass: 'key'
+};
+
+function endpointKey(config: Pick<ConnectionConfig, 'host' | 'port' | 'database' | 'username'>): string {
+    return `${config.username}@${config.host}:${config.port}/${config.database}`;
+}
+
+/**
+ * Find the connections the libpq files and environment describe, minus the
+ * ones already saved. Services come first, then PG* variables, then
+ * password file lines; later duplicates of the same endpoint are dropped.
+ */
+export function discoverImportCandidates(
+    existing: ConnectionConfig[],
+    environment: PgConfigEnvironment = defaultPgConfigEnvironment()
+): ImportCandidate[] {
+    const pgpass = readPgpass(environment);
+    const knownServices = new Set(existing.filter(c => c.service).map(c => c.service));
+    const knownEndpoints = new Set(existing.filter(c => !c.service).map(endpointKey));
+    const candidates: ImportCandidate[] = [];
+
+    for (const [name, entry] of readPgServices(environment)) {
+        if (knownServices.has(name)) continue;
+        candidates.push({ source: 'service', config: { name, service: name, ...serviceToConnectionFields(entry) } });
+    }
+
+    const envEntry = readPgEnvironment(environment.env);
+    if (envEntry) {
+        const fields = serviceToConnectionFields(envEntry);
+        if (!knownEndpoints.has(endpointKey(fields))) {
+            knownEndpoints.add(endpointKey(fields));
+            candidates.push({
+                source: 'environment',
+                config: { name: endpointKey(fields), ...fields },
+                password: envEntry.password || findPgpassPassword(pgpass, fields)
+            });
+        }
+    }
+
+    for (const entry of pgpass) {
+        // Wildcard hosts and users describe many servers, not one connection
+        if (entry.host === '*' || entry.username === '*') continue;
+        const fields = {
+            host: entry.host,
+            port: entry.port === '*' ? 5432 : Number(entry.port) || 5432,
+            database: entry.database === '*' ? entry.username : entry.database,
+            username: entry.username
+        };
+        if (knownEndpoints.has(endpointKey(fields))) continue;
+        knownEndpoints.add(endpointKey(fields));
+        candidates.push({ source: 'pgpass', config: { name: endpointKey(fields), ...fields }, password: entry.password });
+    }
+
+    return candidates;
+}
+
+export class ConnectionImporter {
+    constructor(
+        private readonly connectionManager: ConnectionManager,
+        private readonly refreshTree: () => void,
+        private readonly environment: PgConfigEnvironment = defaultPgConfigEnvironment()
+    ) {}
+
+    async importConnections(): Promise<void> {
+        const existing = await this.connectionManager.getConnections();
+        const candidates = discoverImportCandidates(existing, this.environment);
+        if (candidates.length === 0) {
+            const sources = [getPgpassPath(this.environment), ...getPgServiceFilePaths(this.environment), 'PG* environment variables'];
+            vscode.window.showInformationMessage(`No new connections found in ${sources.join(', ')}.`);
+            return;
+        }
+
+        const picks = await vscode.window.showQuickPick(
+            candidates.map(candidate => this.toPickItem(candidate)),
+            {
+                title: 'Import Connections',
+                placeHolder: 'Select the connections to import',
+                canPickMany: true,
+                matchOnDescription: true
+            }
+        );
+        if (!picks || picks.length === 0) return;
+
+        let imported = 0;
+        for (const { candidate } of picks) {
+            try {
+                await this.connectionManager.saveNewConnection(candidate.config, candidate.password);
+                imported++;
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to import ${candidate.config.name}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        if (imported > 0) {
+            vscode.window.showInformationMessage(`Imported ${imported} connection${imported === 1 ? '' : 's'}`);
+            this.refreshTree();
+        }
+    }
+
+    private toPickItem(candidate: ImportCandidate): CandidatePickItem {
+        const { config } = candidate;
+        let detail: string;
+        switch (candidate.source) {
+            case 'service':
+                detail = `Service from pg_service.conf; follows the service file${config.sslMode ? `, sslmode=${config.sslMode}` : ''}`;
+                break;
+            case 'environment':
+                detail = `PG* environment variables; ${candidate.password ? 'password is stored in secret storage' : 'no password found'}`;
+                break;
+            default:
+                detail = `${getPgpassPath(this.environment)}; password is stored in secret storage`;
+                break;
+        }
+        return {
+            label: `$(${SOURCE_ICONS[candidate.source]}) ${config.name}`,
+            description: `${config.host}:${config.port}/${config.database}`,
+            detail,
+            picked: true,
+            candidate
+        };
+    }
+}
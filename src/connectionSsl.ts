@@ -0,0 +1,105 @@
+// connectionSsl.ts - Maps libpq sslmode settings onto the TLS options node-postgres expects
+
+import * as fs from 'fs';
+import type { ConnectionOptions } from 'tls';
+
+export type SslMode = 'disable' | 'allow' | 'prefer' | 'require' | 'verify-ca' | 'verify-full';
+
+export const SSL_MODES: readonly SslMode[] = ['disable', 'allow', 'prefer', 'require', 'verify-ca', 'verify-full'];
+
+export interface SslSettings {
+    sslMode?: SslMode;
+    // Legacy flag from before sslMode existed; true means "require"
+    ssl?: boolean;
+    sslRootCertPath?: string;
+    sslCertPath?: string;
+    sslKeyPath?: string;
+}
+
+export function isSslMode(value: unknown): value is SslMode {
+    return SSL_MODES.includes(value as SslMode);
+}
+
+/**
+ * Effective sslmode of a connection. Connections saved before sslMode was
+ * added only have the boolean flag.
+ */
+export function resolveSslMode(settings: SslSettings): SslMode {
+    if (settings.sslMode) {
+        return settings.sslMode;
+    }
+    return settings.ssl ? 'require' : 'disable';
+}
+
+/**
+ * Build the `ssl` values to try, in order. `allow` and `prefer` have two
+ * attempts because node-postgres cannot negotiate SSL the way libpq does:
+ * `allow` tries plain first, `prefer` tries TLS first.
+ *
+ * Certificate files are read eagerly so a wrong path fails before any
+ * network traffic.
+ */
+export function buildSslAttempts(
+    settings: SslSettings,
+    host: string,
+    passphrase?: string,
+    readFile: (path: string) => string = (path) => fs.readFileSync(path, 'utf8')
+): Array<false | ConnectionOptions> {
+    const mode = resolveSslMode(settings);
+    // Like libpq, never use SSL over a Unix socket
+    if (mode === 'disable' || host.startsWith('/')) {
+        return [false];
+    }
+
+    const tls: ConnectionOptions = {};
+    if (settings.sslRootCertPath) {
+        tls.ca = readFile(settings.sslRootCertPath);
+    }
+    if (settings.sslCertPath || settings.sslKeyPath) {
+        if (!settings.sslCertPath || !settings.sslKeyPath) {
+            throw new Error('A client certificate needs both a certificate and a key file');
+        }
+        tls.cert = readFile(settings.sslCertPath);
+        tls.key = readFile(settings.sslKeyPath);
+        if (passphrase) {
+            tls.passphrase = passphrase;
+        }
+    }
+
+    switch (mode) {
+        case 'verify-full':
+            tls.rejectUnauthorized = true;
+            tls.servername = host;
+            break;
+        case 'verify-ca':
+            tls.rejectUnauthorized = true;
+            // Trust the chain but, like libpq, not the host name
+            tls.checkServerIdentity = () => undefined;
+            break;
+        default:
+            // libpq treats "require" with a root certificate as verify-ca
+            tls.rejectUnauthorized = mode === 'require' && Boolean(tls.ca);
+            tls.checkServerIdentity = () => undefined;
+            break;
+    }
+
+    switch (mode) {
+        case 'allow':
+            return [false, tls];
+        case 'prefer':
+            return [tls, false];
+        default:
+            return [tls];
+    }
+}
+
+/**
+ * libpq environment variables for command line tools (pg_dump, pg_restore)
+ */
+export function buildLibpqSslEnv(settings: SslSettings): Record<string, string> {
+    const env: Record<string, string> = { PGSSLMODE: resolveSslMode(settings) };
+    if (settings.sslRootCertPath) env.PGSSLROOTCERT = settings.sslRootCertPath;
+    if (settings.sslCertPath) env.PGSSLCERT = settings.sslCertPath;
+    if (settings.sslKeyPath) env.PGSSLKEY = settings.sslKeyPath;
+    return env;
+}
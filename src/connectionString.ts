@@ -0,0 +1,383 @@
+// connectionString.ts - Parses and formats libpq connection strings, both
+// postgresql:// URIs and keyword/value strings such as "host=db dbname=app"
+
+import type { ConnectionConfig } from './connectionManager';
+import { isSslMode } from './connectionSsl';
+
+// libpq keywords and their values, e.g. { host: 'db1,db2', dbname: 'app' }.
+// Multi-host strings keep host and port as comma-separated lists.
+export type ConnectionParameters = Record<string, string>;
+
+export interface ConnectionHost {
+    // Host name, IP address or Unix socket directory
+    host: string;
+    port: number;
+}
+
+export type TargetSessionAttrs = 'any' | 'read-write' | 'read-only' | 'primary' | 'standby' | 'prefer-standby';
+
+export const TARGET_SESSION_ATTRS: readonly TargetSessionAttrs[] = ['any', 'read-write', 'read-only', 'primary', 'standby', 'prefer-standby'];
+
+export function isTargetSessionAttrs(value: unknown): value is TargetSessionAttrs {
+    return TARGET_SESSION_ATTRS.includes(value as TargetSessionAttrs);
+}
+
+// Every keyword libpq accepts; most are kept for round trips but not used
+const KEYWORDS = new Set([
+    'host', 'hostaddr', 'port', 'dbname', 'user', 'password', 'passfile', 'require_auth', 'channel_binding',
+    'connect_timeout', 'client_encoding', 'options', 'application_name', 'fallback_application_name',
+    'keepalives', 'keepalives_idle', 'keepalives_interval', 'keepalives_count', 'tcp_user_timeout', 'replication',
+    'gssencmode', 'sslmode', 'requiressl', 'sslcompression', 'sslcert', 'sslkey', 'sslpassword', 'sslcertmode',
+    'sslrootcert', 'sslcrl', 'sslcrldir', 'sslsni', 'requirepeer', 'ssl_min_protocol_version', 'ssl_max_protocol_version',
+    'krbsrvname', 'gsslib', 'gssdelegation', 'service', 'target_session_attrs', 'load_balance_hosts'
+]);
+
+const URI_PREFIXES = ['postgresql://', 'postgres://'];
+
+const DEFAULT_PORT = 5432;
+
+export function isUnixSocketHost(host: string): boolean {
+    return host.startsWith('/');
+}
+
+/**
+ * Parse a connection string the way libpq does. URIs may list several
+ * hosts (`postgresql://a:5432,b:5433/app`) and percent-encode any part;
+ * keyword/value strings may single-quote values and escape with backslash.
+ * A string without a scheme or `=` is read as a URI for convenience, e.g.
+ * `user@host/db`. Throws on syntax errors and unknown keywords.
+ */
+export function parseConninfo(text: string): ConnectionParameters {
+    const trimmed = text.trim();
+    const params = URI_PREFIXES.some(prefix => trimmed.startsWith(prefix))
+        ? parseUri(trimmed)
+        : /^[A-Za-z_]+\s*=/.test(trimmed)
+            ? parseKeywordValue(trimmed)
+            : parseUri(`postgresql://${trimmed}`);
+    validateParameters(params);
+    return params;
+}
+
+function parseKeywordValue(text: string): ConnectionParameters {
+    const params: ConnectionParameters = {};
+    const isSpace = (ch: string | undefined) => ch !== undefined && /\s/.test(ch);
+    let i = 0;
+    while (i < text.length) {
+        while (isSpace(text[i])) i++;
+        if (i >= text.length) break;
+
+        const start = i;
+        while (i < text.length && text[i] !== '=' && !isSpace(text[i])) i++;
+        const keyword = text.slice(start, i);
+        while (isSpace(text[i])) i++;
+        if (text[i] !== '=') {
+            throw new Error(`missing "=" after "${keyword}" in connection info string`);
+        }
+        i++;
+        while (isSpace(text[i])) i++;
+
+        let value = '';
+        if (text[i] === '\'') {
+            i++;
+            let closed = false;
+            while (i < text.length) {
+                const ch = text[i++];
+                if (ch === '\\' && i < text.length) {
+                    value += text[i++];
+                } else if (ch === '\'') {
+                    closed = true;
+                    break;
+                } else {
+                    value += ch;
+                }
+            }
+            if (!closed) {
+                throw new Error('unterminated quoted string in connection info string');
+            }
+        } else {
+            while (i < text.length && !isSpace(text[i])) {
+                const ch = text[i++];
+                value += ch === '\\' && i < text.length ? text[i++] : ch;
+            }
+        }
+
+        if (!KEYWORDS.has(keyword)) {
+            throw new Error(`invalid connection option "${keyword}"`);
+        }
+        params[keyword] = value;
+    }
+    return params;
+}
+
+function decode(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        throw new Error(`invalid percent-encoded token: "${value}"`);
+    }
+}
+
+function parseUri(text: string): ConnectionParameters {
+    const params: ConnectionParameters = {};
+    const rest = text.slice(text.indexOf('://') + 3);
+
+    const queryStart = rest.indexOf('?');
+    const beforeQuery = queryStart === -1 ? rest : rest.slice(0, queryStart);
+    const query = queryStart === -1 ? '' : rest.slice(queryStart + 1);
+    const pathStart = beforeQuery.indexOf('/');
+    const authority = pathStart === -1 ? beforeQuery : beforeQuery.slice(0, pathStart);
+
+    // The last "@" ends the credentials, so a password may contain an unencoded "@"
+    const at = authority.lastIndexOf('@');
+    if (at !== -1) {
+        const credentials = authority.slice(0, at);
+        const colon = credentials.indexOf(':');
+        const user = decode(colon === -1 ? credentials : credentials.slice(0, colon));
+        if (user) {
+            params.user = user;
+        }
+        if (colon !== -1) {
+            params.password = decode(credentials.slice(colon + 1));
+        }
+    }
+
+    const netloc = authority.slice(at + 1);
+    if (netloc) {
+        const hosts: string[] = [];
+        const ports: string[] = [];
+        for (const part of netloc.split(',')) {
+            let host: string;
+            let port = '';
+            if (part.startsWith('[')) {
+                // IPv6 address, e.g. [::1]:5432
+                const close = part.indexOf(']');
+                if (close === -1) {
+                    throw new Error(`end of string reached when looking for matching "]" in IPv6 host address in URI: "${text}"`);
+                }
+                host = part.slice(1, close);
+                const after = part.slice(close + 1);
+                if (after && !after.startsWith(':')) {
+                    throw new Error(`unexpected character "${after[0]}" after IPv6 host address in URI: "${text}"`);
+                }
+                port = after.slice(1);
+            } else {
+                const colon = part.lastIndexOf(':');
+                host = decode(colon === -1 ? part : part.slice(0, colon));
+                port = colon === -1 ? '' : part.slice(colon + 1);
+            }
+            hosts.push(host);
+            ports.push(port);
+        }
+        if (hosts.some(host => host)) {
+            params.host = hosts.join(',');
+        }
+        if (ports.some(port => port)) {
+            params.port = ports.join(',');
+        }
+    }
+
+    if (pathStart !== -1) {
+        const dbname = decode(beforeQuery.slice(pathStart + 1));
+        if (dbname) {
+            params.dbname = dbname;
+        }
+    }
+
+    for (const pair of query.split('&')) {
+        if (!pair) continue;
+        const eq = pair.indexOf('=');
+        if (eq === -1) {
+            throw new Error(`missing key/value separator "=" in URI query parameter: "${pair}"`);
+        }
+        const keyword = decode(pair.slice(0, eq));
+        const value = decode(pair.slice(eq + 1));
+        // JDBC spelling that libpq also accepts
+        if (keyword === 'ssl' && value === 'true') {
+            params.sslmode = 'require';
+            continue;
+        }
+        if (!KEYWORDS.has(keyword)) {
+            throw new Error(`invalid URI query parameter: "${keyword}"`);
+        }
+        params[keyword] = value;
+    }
+    return params;
+}
+
+function splitList(value: string | undefined): string[] {
+    return value === undefined || value === '' ? [] : value.split(',').map(part => part.trim());
+}
+
+function validateParameters(params: ConnectionParameters): void {
+    const hostCount = Math.max(splitList(params.host ?? params.hostaddr).length, 1);
+    const ports = splitList(params.port);
+    for (const port of ports) {
+        const value = Number(port);
+        if (port !== '' && (!/^\d+$/.test(port) || value < 1 || value > 65535)) {
+            throw new Error(`invalid port number: "${port}"`);
+        }
+    }
+    if (ports.length > 1 && ports.length !== hostCount) {
+        throw new Error(`could not match ${ports.length} port numbers to ${hostCount} hosts`);
+    }
+    if (params.connect_timeout !== undefined && !/^\d+$/.test(params.connect_timeout)) {
+        throw new Error(`invalid integer value "${params.connect_timeout}" for connection option "connect_timeout"`);
+    }
+    if (params.sslmode !== undefined && !isSslMode(params.sslmode)) {
+        throw new Error(`invalid sslmode value: "${params.sslmode}"`);
+    }
+    if (params.target_session_attrs !== undefined && !isTargetSessionAttrs(params.target_session_attrs)) {
+        throw new Error(`invalid target_session_attrs value: "${params.target_session_attrs}"`);
+    }
+}
+
+/**
+ * Hosts of a multi-host `host`/`port` pair. A single port applies to every
+ * host; empty entries fall back to localhost and 5432.
+ */
+export function splitHosts(host: string | undefined, port: string | undefined): ConnectionHost[] {
+    const hosts = splitList(host);
+    const ports = splitList(port);
+    return (hosts.length > 0 ? hosts : ['']).map((name, index) => {
+        const value = Number(ports.length === 1 ? ports[0] : ports[index]);
+        return {
+            host: name || 'localhost',
+            port: Number.isInteger(value) && value > 0 ? value : DEFAULT_PORT
+        };
+    });
+}
+
+/**
+ * Hosts of a connection in the order they are tried: the main host, then
+ * the fallbacks from a multi-host connection string.
+ */
+export function connectionHosts(config: Pick<ConnectionConfig, 'host' | 'port' | 'fallbackHosts'>): ConnectionHost[] {
+    return [{ host: config.host, port: config.port }, ...(config.fallbackHosts ?? [])];
+}
+
+/**
+ * Whether a server suits target_session_attrs. `prefer-standby` is checked
+ * as `standby` first and then as `any` by the caller.
+ */
+export function matchesTargetSessionAttrs(attrs: TargetSessionAttrs, server: { inRecovery: boolean; readOnly: boolean }): boolean {
+    switch (attrs) {
+        case 'read-write':
+            return !server.readOnly;
+        case 'read-only':
+            return server.readOnly;
+        case 'primary':
+            return !server.inRecovery;
+        case 'standby':
+        case 'prefer-standby':
+            return server.inRecovery;
+        default:
+            return true;
+    }
+}
+
+export type ConnectionStringFields = Pick<ConnectionConfig,
+    'host' | 'port' | 'database' | 'username' | 'ssl' | 'sslMode' | 'sslRootCertPath' | 'sslCertPath' | 'sslKeyPath'
+    | 'fallbackHosts' | 'connectTimeout' | 'startupOptions' | 'targetSessionAttrs'>;
+
+/**
+ * Connection fields for libpq parameters, from a connection string, a
+ * pg_service.conf entry or PG* variables. Unset fields fall back to libpq's
+ * defaults: the OS user, a database named like the user, localhost:5432.
+ */
+export function parametersToConnectionFields(params: ConnectionParameters, defaultUser: string): ConnectionStringFields {
+    const username = params.user || defaultUser;
+    const [first, ...fallbackHosts] = splitHosts(params.host || params.hostaddr, params.port);
+    const sslMode = isSslMode(params.sslmode) ? params.sslmode : undefined;
+    const connectTimeout = Number(params.connect_timeout);
+    const targetSessionAttrs = isTargetSessionAttrs(params.target_session_attrs) ? params.target_session_attrs : undefined;
+    return {
+        host: first.host,
+        port: first.port,
+        database: params.dbname || username,
+        username,
+        ssl: sslMode ? ['require', 'verify-ca', 'verify-full'].includes(sslMode) : undefined,
+        sslMode,
+        sslRootCertPath: params.sslrootcert || undefined,
+        sslCertPath: params.sslcert || undefined,
+        sslKeyPath: params.sslkey || undefined,
+        fallbackHosts: fallbackHosts.length > 0 ? fallbackHosts : undefined,
+        // 0 means wait indefinitely, like leaving it unset
+        connectTimeout: Number.isInteger(connectTimeout) && connectTimeout > 0 ? connectTimeout : undefined,
+        startupOptions: params.options || undefined,
+        targetSessionAttrs: targetSessionAttrs === 'any' ? undefined : targetSessionAttrs
+    };
+}
+
+/**
+ * libpq parameters describing a connection; the reverse of
+ * parametersToConnectionFields. The password is only included when given.
+ */
+export function connectionFieldsToParameters(fields: ConnectionStringFields, password?: string): ConnectionParameters {
+    const hosts = [{ host: fields.host, port: fields.port }, ...(fields.fallbackHosts ?? [])];
+    const params: ConnectionParameters = {
+        host: hosts.map(h => h.host).join(','),
+        port: hosts.every(h => h.port === hosts[0].port) ? String(hosts[0].port) : hosts.map(h => h.port).join(','),
+        dbname: fields.database,
+        user: fields.username
+    };
+    if (password) params.password = password;
+    if (fields.sslMode || fields.ssl) params.sslmode = fields.sslMode ?? 'require';
+    if (fields.sslRootCertPath) params.sslrootcert = fields.sslRootCertPath;
+    if (fields.sslCertPath) params.sslcert = fields.sslCertPath;
+    if (fields.sslKeyPath) params.sslkey = fields.sslKeyPath;
+    if (fields.connectTimeout) params.connect_timeout = String(fields.connectTimeout);
+    if (fields.startupOptions) params.options = fields.startupOptions;
+    if (fields.targetSessionAttrs) params.target_session_attrs = fields.targetSessionAttrs;
+    return params;
+}
+
+function quoteValue(value: string): string {
+    return value === '' || /[\s'\\]/.test(value)
+        ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`
+        : value;
+}
+
+/**
+ * Keyword/value form, e.g. "host=db port=5432 dbname=app"; values with
+ * spaces, quotes or backslashes are quoted.
+ */
+export function formatConninfo(params: ConnectionParameters): string {
+    return Object.entries(params).map(([keyword, value]) => `${keyword}=${quoteValue(value)}`).join(' ');
+}
+
+/**
+ * URI form, e.g. "postgresql://user@db1:5432,db2:5432/app?sslmode=require".
+ * Unix socket directories cannot go in the authority, so hosts that include
+ * one are passed as query parameters instead.
+ */
+export function formatConnectionUri(params: ConnectionParameters): string {
+    const { user, password, host, port, dbname, ...rest } = params;
+    const query: ConnectionParameters = {};
+
+    let credentials = '';
+    if (user !== undefined || password !== undefined) {
+        credentials = `${encodeURIComponent(user ?? '')}${password !== undefined ? `:${encodeURIComponent(password)}` : ''}@`;
+    }
+
+    let netloc = '';
+    const hosts = splitList(host);
+    const ports = splitList(port);
+    // A shared port also goes in the query; in the authority it would be
+    // read back as one port per host
+    if (hosts.some(isUnixSocketHost) || (hosts.length > 1 && ports.length === 1) || (ports.length > 1 && ports.length !== hosts.length)) {
+        if (host !== undefined) query.host = host;
+        if (port !== undefined) query.port = port;
+    } else if (hosts.length > 0) {
+        netloc = hosts.map((name, index) => {
+            const hostPart = name.includes(':') ? `[${name}]` : encodeURIComponent(name);
+            return ports[index] ? `${hostPart}:${ports[index]}` : hostPart;
+        }).join(',');
+    } else if (port !== undefined) {
+        query.port = port;
+    }
+
+    Object.assign(query, rest);
+    const path = dbname !== undefined ? `/${encodeURIComponent(dbname)}` : '';
+    const search = Object.entries(query).map(([keyword, value]) => `${keyword}=${encodeURIComponent(value)}`).join('&');
+    return `postgresql://${credentials}${netloc}${path}${search ? `?${search}` : ''}`;
+}
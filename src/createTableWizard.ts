@@ -1,7 +1,7 @@
 import * as vscode from 'vscode';
 import { ConnectionManager } from './connectionManager';
 import { DatabaseTreeItem } from './databaseTreeProvider';
-import { buildCreateTableStatements } from './tableSqlBuilder';
+import { CreateTablePartitioning, PartitionStrategy, buildCreateTableStatements } from './tableSqlBuilder';
 
 interface CreateTableColumnDraft {
     id: string;
@@ -32,8 +32,11 @@ interface CreateTablePreviewPayload {
     tableName: string;
     columns: CreateTableColumnDraft[];
     constraints?: CreateTableConstraintDraft[];
+    partitioning?: CreateTablePartitioning | null;
 }
 
+const PARTITION_STRATEGIES: PartitionStrategy[] = ['RANGE', 'LIST', 'HASH'];
+
 interface PreviewResultMessage {
     sql: string;
     warnings?: string[];
@@ -93,6 +96,12 @@ export class CreateTableWizard {
             return;
         }
 
+        const readOnly = await this.connectionManager.getReadOnlyError(connectionId, 'creating tables');
+        if (readOnly) {
+            vscode.window.showErrorMessage(readOnly);
+            return;
+        }
+
         const panel = vscode.window.createWebviewPanel(
             'postgresCreateTable',
             `Create Table in ${schemaName}`,
@@ -221,7 +230,7 @@ export class CreateTableWizard {
                 panel.webview.postMessage({ command: 'createTablePreview', payload: message });
                 return;
             }
-            const result = buildCreateTableStatements(schemaName, data.tableName, data.columns, data.constraints);
+            const result = buildCreateTableStatements(schemaName, data.tableName, data.columns, data.constraints, data.partitioning);
             message.sql = result.statements.join('\n\n');
             if (result.warnings.length > 0) {
                 message.warnings = result.warnings;
@@ -253,8 +262,26 @@ export class CreateTableWizard {
         const constraints: CreateTableConstraintDraft[] = constraintsInput.map((constraint: any) => ({
             ...constraint
         }));
-         return { tableName, columns, constraints };
-     }
+        const partitioning = this.normalizePartitioning(payload?.partitioning);
+        return { tableName, columns, constraints, partitioning };
+    }
+
+    private normalizePartitioning(input: any): CreateTablePartitioning | null {
+        const strategy = typeof input?.strategy === 'string' ? input.strategy.toUpperCase() : '';
+        if (!PARTITION_STRATEGIES.includes(strategy as PartitionStrategy)) {
+            return null;
+        }
+        const columns = Array.isArray(input?.columns)
+            ? input.columns.map((column: any) => String(column ?? '').trim()).filter((column: string) => column.length > 0)
+            : [];
+        const partitions = Array.isArray(input?.partitions)
+            ? input.partitions.map((partition: any) => ({
+                name: String(partition?.name ?? '').trim(),
+                bound: String(partition?.bound ?? '').trim()
+            }))
+            : [];
+        return { strategy: strategy as PartitionStrategy, columns, partitions };
+    }
 
     private async handleExecute(
         panel: vscode.WebviewPanel,
@@ -294,7 +321,7 @@ export class CreateTableWizard {
                 return;
             }
             try {
-                const result = buildCreateTableStatements(schemaName, tableName, previewData.columns, previewData.constraints);
+                const result = buildCreateTableStatements(schemaName, tableName, previewData.columns, previewData.constraints, previewData.partitioning);
                 statements = result.statements;
             } catch (error) {
                 message.error = error instanceof Error ? error.message : String(error);
@@ -47,6 +47,12 @@ export class CsvImportWizard {
 		this.connectionId = item.connectionId || '';
 		this.schemaName = item.schemaName || 'public';
 
+		const readOnly = await this.connectionManager.getReadOnlyError(this.connectionId, 'importing CSV data');
+		if (readOnly) {
+			vscode.window.showErrorMessage(readOnly);
+			return;
+		}
+
 		// Step 1: Let user select CSV file
 		const csvData = await CsvExporter.importFromFile();
 		if (!csvData) {
@@ -1,39 +1,79 @@
 // dataEditor.ts - Manages the webview for editing table data
 
 import * as vscode from 'vscode';
-import { ConnectionManager } from './connectionManager';
+import { ConnectionConfig, ConnectionManager, readOnlyError, withEnvironmentBadge } from './connectionManager';
 import { DatabaseTreeItem } from './databaseTreeProvider';
 import { SqlGenerator } from './sqlGenerator';
 import { IndexManagerView } from './indexManagerView';
 import { parsePostgresArrayLiteral, applyEnumLabelsToColumns } from './pgUtils';
 import { CsvExporter } from './csvExporter';
+import { TableShortcuts } from './tableShortcuts';
+import {
+    EXACT_COUNT_LIMIT,
+    KeysetCursor,
+    buildPageQuery,
+    buildRowEstimateQuery,
+    clampPageSize,
+    getPageSize,
+    lastPageIndex,
+    readPageRows,
+    readRowEstimate,
+    rebaseCursor,
+    seekOrder
+} from './tablePagination';
+import { SCROLL_CURSOR_IDLE_MS, ScrollQuery, TableScrollCursor, buildScrollQuery, clampRangeSize, scrollQueryScope } from './tableScrollCursor';
+import { buildFilterConditions, normalizeFilters } from './tableFilters';
+import { quoteLiteral } from './tableSqlBuilder';
+import { debug } from './logger';
+import { VIEW_EDITABLE_MASK } from './viewManager';
+import type { Client } from 'pg';
 import type {
     ColumnInfo,
     PrimaryKeyInfo,
     SortDescriptor,
-    FilterMap,
+    ColumnFilter,
     TablePreferences,
     TableStatePayload,
     GridChange,
     ExtensionToWebviewMessage,
     WebviewToExtensionMessage,
     QueryResultRow,
-    ColumnTypeMetadata
+    ColumnTypeMetadata,
+    RelationKind
 } from './types';
 import { isWebviewToExtension } from './types';
 
 interface PanelState {
     page: number;
     sort: SortDescriptor | null;
-    filters: FilterMap;
+    filters: ColumnFilter[];
     searchTerm: string;
     customWhereClause: string;
+    // Chosen in the panel's toolbar; postgresDataEditor.paginationSize otherwise
+    pageSize?: number;
+    // Keys of the page on screen, to seek to its neighbours
+    cursor?: KeysetCursor;
+    // All rows in page order, streamed by loadRange in infinite scroll mode
+    scrollQuery?: ScrollQuery;
+    // The webview shows scrollQuery's rows instead of pages
+    infiniteScroll?: boolean;
+    // Rows of the current scroll cursor were sent since the table was loaded
+    scrollRowsSent?: boolean;
+}
+
+interface ScrollSession {
+    connectionId: string;
+    owner: string;
+    cursor?: TableScrollCursor;
+    idleTimer?: ReturnType<typeof setTimeout>;
 }
 
 interface CachedSchemaMetadata {
     columns: ColumnInfo[];
     columnsResultRows: QueryResultRow[];
     enumLabelsByOid: Record<number, string[]>;
+    relationKind: RelationKind;
+    readOnly: boolean;
 }
 
 export class DataEditor {
@@ -42,15 +82,22 @@ export class DataEditor {
     private readonly panels = new Map<string, vscode.WebviewPanel>();
     private readonly initializedPanels = new Set<vscode.WebviewPanel>();
     private readonly panelState = new Map<vscode.WebviewPanel, PanelState>();
-    private paginationSize = 100;
+    // databaseName is only set for tables of another database of the connection's server
+    private readonly panelTables = new Map<vscode.WebviewPanel, { connectionId: string; schemaName: string; tableName: string; databaseName?: string }>();
     // Cache schema/enum metadata keyed by panel key (connection:schema.table)
     private schemaCache: Map<string, CachedSchemaMetadata> = new Map();
+    // Dedicated session and cursor of panels in infinite scroll mode; cursor
+    // work of a panel runs one task at a time since MOVE and FETCH go in pairs
+    private readonly scrollSessions = new Map<vscode.WebviewPanel, ScrollSession>();
+    private readonly scrollQueues = new Map<vscode.WebviewPanel, Promise<unknown>>();
 
-    // Accept QueryHistory so we can record queries executed by the Data Editor
+    // Accept QueryHistory so we can record queries executed by the Data Editor,
+    // and TableShortcuts so opened tables show up under "Recent"
     constructor(
         context: vscode.ExtensionContext,
         connectionManager: ConnectionManager,
-        private readonly queryHistory?: import('./queryHistory').QueryHistory
+        private readonly queryHistory?: import('./queryHistory').QueryHistory,
+        private readonly tableShortcuts?: TableShortcuts
     ) {
         this.context = context;
         this.connectionManager = connectionManager;
@@ -66,7 +113,21 @@ export class DataEditor {
             return;
         }
 
-        const panelKey = this.buildPanelKey(connectionId, schemaName, tableName);
+        if (this.tableShortcuts && item.databaseName) {
+            await this.tableShortcuts.recordOpened({
+                connectionId,
+                databaseName: item.databaseName,
+                schemaName,
+                tableName,
+                kind: item.type === 'view' || item.type === 'materializedView' ? item.type : 'table'
+            });
+        }
+
+        const config = await this.getConnectionConfig(connectionId);
+        // Tables under "Other DBs" are read and edited through a session logged into that database
+        const otherDatabase = item.databaseName && config && item.databaseName !== config.database ? item.databaseName : undefined;
+
+        const panelKey = this.buildPanelKey(connectionId, schemaName, tableName, otherDatabase);
         const existingPanel = this.panels.get(panelKey);
         if (existingPanel) {
             existingPanel.reveal(vscode.ViewColumn.One);
@@ -81,7 +142,7 @@ export class DataEditor {
 
         const panel = vscode.window.createWebviewPanel(
             'postgresDataEditor',
-            `${schemaName}.${tableName}`,
+            withEnvironmentBadge(otherDatabase ? `${schemaName}.${tableName} (${otherDatabase})` : `${schemaName}.${tableName}`, config?.environment),
             vscode.ViewColumn.One,
             {
                 enableScripts: true,
@@ -91,6 +152,7 @@ export class DataEditor {
         );
 
         this.panels.set(panelKey, panel);
+        this.panelTables.set(panel, { connectionId, schemaName, tableName, databaseName: otherDatabase });
         const defaultState = this.createDefaultPanelState();
         if (initialWhereClause) {
             defaultState.customWhereClause = initialWhereClause;
@@ -108,9 +170,13 @@ export class DataEditor {
 
         panel.onDidDispose(() => {
             messageDisposable.dispose();
+            void this.closeScrollCursor(panel)
+                .catch(error => debug(`[DataEditor] Failed to release the scroll session: ${error}`))
+                .finally(() => this.scrollQueues.delete(panel));
             this.panels.delete(panelKey);
             this.initializedPanels.delete(panel);
             this.panelState.delete(panel);
+            this.panelTables.delete(panel);
             // Remove cached schema metadata for this panel to free memory
             this.schemaCache.delete(panelKey);
         });
@@ -118,15 +184,52 @@ export class DataEditor {
         await this.loadTableData(panel, connectionId, schemaName, tableName, 0);
     }
 
-    private buildPanelKey(connectionId: string, schemaName: string, tableName: string): string {
-        return `${connectionId}:${schemaName}.${tableName}`;
+    /**
+     * Drop cached column/enum metadata for every table of a connection so the
+     * next load re-reads it, e.g. after an enum gained or renamed a label.
+     */
+    invalidateSchemaCache(connectionId: string): void {
+        const prefix = `${connectionId}:`;
+        for (const key of Array.from(this.schemaCache.keys())) {
+            if (key.startsWith(prefix)) {
+                this.schemaCache.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Reload every open panel of a connection at its current page, e.g. after
+     * the connection dropped and was re-established automatically, or one of
+     * its enums changed.
+     */
+    async reloadConnection(connectionId: string): Promise<void> {
+        for (const [panel, target] of Array.from(this.panelTables.entries())) {
+            if (target.connectionId !== connectionId) continue;
+            try {
+                await this.loadTableData(panel, connectionId, target.schemaName, target.tableName, this.getPanelState(panel).page);
+            } catch (err) {
+                console.error(`Failed to reload ${target.schemaName}.${target.tableName} after reconnect`, err);
+            }
+        }
+    }
+
+    private buildPanelKey(connectionId: string, schemaName: string, tableName: string, databaseName?: string): string {
+        return databaseName
+            ? `${connectionId}:${databaseName}/${schemaName}.${tableName}`
+            : `${connectionId}:${schemaName}.${tableName}`;
+    }
+
+    private getTableClient(connectionId: string, databaseName: string | undefined) {
+        return databaseName
+            ? this.connectionManager.getDatabaseClient(connectionId, databaseName)
+            : this.connectionManager.getClient(connectionId);
     }
 
     private createDefaultPanelState(): PanelState {
         return {
             page: 0,
             sort: null,
-            filters: {},
+            filters: [],
             searchTerm: '',
             customWhereClause: ''
         };
@@ -150,8 +253,12 @@ export class DataEditor {
     ): Promise<void> {
         const state = this.getPanelState(panel);
         state.page = page;
+        // Filters, sorting or the rows themselves may have changed: the next
+        // loadRange declares a new cursor over a fresh snapshot
+        await this.closeScrollCursor(panel);
+        state.scrollRowsSent = false;
 
-        const payload = await this.fetchTableState(connectionId, schemaName, tableName, state);
+        const payload = await this.fetchTableState(connectionId, schemaName, tableName, state, this.panelTables.get(panel)?.databaseName);
         if (!payload) {
             return;
         }
@@ -169,29 +276,180 @@ export class DataEditor {
         }
     }
 
+    /**
+     * Sends rows offset..offset+limit-1 of the table, as filtered and sorted
+     * by the last load, read from a SCROLL cursor on a session of the panel's
+     * own. The cursor is declared by the first request and reused until the
+     * next load, so scrolling never re-runs the query.
+     */
+    private async loadRange(
+        panel: vscode.WebviewPanel,
+        connectionId: string,
+        offset: number,
+        limit: number,
+        requestId?: number
+    ): Promise<void> {
+        const start = Math.max(0, Math.floor(Number(offset) || 0));
+        const size = clampRangeSize(limit);
+        const target = this.panelTables.get(panel);
+        const state = this.getPanelState(panel);
+        const query = state.scrollQuery;
+        const cached = target ? this.schemaCache.get(this.buildPanelKey(connectionId, target.schemaName, target.tableName, target.databaseName)) : undefined;
+        const reply = (message: Partial<Extract<ExtensionToWebviewMessage, { command: 'rangeData' }>>) => {
+            panel.webview.postMessage({ command: 'rangeData', offset: start, rows: [], requestId, ...message });
+        };
+        if (!target || !query || !cached || size === undefined) {
+            reply({ error: 'The table is not loaded; refresh it and try again.' });
+            return;
+        }
+
+        await this.runScrollTask(panel, async () => {
+            const owner = `dataEditor:${this.buildPanelKey(connectionId, target.schemaName, target.tableName, target.databaseName)}`;
+            this.connectionManager.markBusy(connectionId);
+            try {
+                let client: Client | null;
+                try {
+                    client = await this.connectionManager.getSession(connectionId, owner, target.databaseName);
+                } catch (error) {
+                    const usage = this.connectionManager.getPoolUsage(connectionId);
+                    if (usage.open < usage.max) {
+                        throw error;
+                    }
+                    reply({
+                        error: `Infinite scroll reads rows on a session of its own, and all ${usage.max} sessions of this connection are in use. `
+                            + 'Close a SQL terminal or another table in infinite scroll, switch this table back to pages, or raise postgresDataEditor.connectionPoolSize.'
+                    });
+                    return;
+                }
+                if (!client) {
+                    reply({ error: 'No active PostgreSQL connection. Please connect and try again.' });
+                    return;
+                }
+                let session = this.scrollSessions.get(panel);
+                if (!session) {
+                    session = { connectionId, owner };
+                    this.scrollSessions.set(panel, session);
+                }
+                clearTimeout(session.idleTimer);
+                // A reconnect replaces the session, taking the old cursor with it
+                if (session.cursor && (session.cursor.client !== client || session.cursor.scope !== scrollQueryScope(query))) {
+                    await session.cursor.close();
+                    session.cursor = undefined;
+                }
+                const reused = session.cursor !== undefined;
+                let rows: Record<string, unknown>[];
+                if (session.cursor) {
+                    try {
+                        rows = await session.cursor.fetch(start, size);
+                    } catch (error) {
+                        // The server may have ended the session or its transaction,
+                        // e.g. through idle_in_transaction_session_timeout
+                        debug(`[DataEditor] Reopening the scroll cursor of ${owner}: ${error}`);
+                        session.cursor = undefined;
+                        await this.connectionManager.releaseSession(connectionId, owner);
+                        const reopened = await this.connectionManager.getSession(connectionId, owner, target.databaseName);
+                        if (!reopened) {
+                            throw error;
+                        }
+                        session.cursor = await TableScrollCursor.open(reopened, query);
+                        rows = await session.cursor.fetch(start, size);
+                    }
+                } else {
+                    session.cursor = await TableScrollCursor.open(client, query);
+                    rows = await session.cursor.fetch(start, size);
+                }
+                session.idleTimer = setTimeout(() => {
+                    void this.closeScrollCursor(panel).catch(error => debug(`[DataEditor] Failed to close the idle scroll cursor: ${error}`));
+                }, SCROLL_CURSOR_IDLE_MS);
+                // Rows sent before came from another snapshot and may have moved since
+                const snapshotChanged = state.scrollRowsSent && (!reused || session.cursor.client !== client);
+                state.scrollRowsSent = true;
+                reply({
+                    rows: this.normalizeRows(rows, cached.columns),
+                    totalRows: rows.length < size ? start + rows.length : undefined,
+                    snapshotChanged: snapshotChanged || undefined
+                });
+            } catch (error) {
+                reply({ error: `Failed to load rows: ${error instanceof Error ? error.message : String(error)}` });
+            } finally {
+                this.connectionManager.markIdle(connectionId);
+            }
+        });
+    }
+
+    private async closeScrollCursor(panel: vscode.WebviewPanel): Promise<void> {
+        if (!this.scrollSessions.has(panel)) {
+            return;
+        }
+        await this.runScrollTask(panel, async () => {
+            const session = this.scrollSessions.get(panel);
+            if (!session) {
+                return;
+            }
+            this.scrollSessions.delete(panel);
+            clearTimeout(session.idleTimer);
+            // Releasing the session also frees its slot of the connection pool
+            await this.connectionManager.releaseSession(session.connectionId, session.owner);
+        });
+    }
+
+    private runScrollTask(panel: vscode.WebviewPanel, task: () => Promise<void>): Promise<void> {
+        const run = (this.scrollQueues.get(panel) ?? Promise.resolve()).then(task);
+        this.scrollQueues.set(panel, run.catch(() => undefined));
+        return run;
+    }
+
     private async fetchTableState(
         connectionId: string,
         schemaName: string,
         tableName: string,
-        state: PanelState
+        state: PanelState,
+        otherDatabase?: string
     ): Promise<TableStatePayload | null> {
-        const client = await this.connectionManager.getClient(connectionId);
+        const client = await this.getTableClient(connectionId, otherDatabase);
         if (!client) {
-            vscode.window.showErrorMessage('No active PostgreSQL connection. Please connect and try again.');
+            if (this.connectionManager.isReconnecting(connectionId)) {
+                // reloadConnection() refreshes the panel once the connection is back
+                vscode.window.showInformationMessage('Reconnecting to the database; the table reloads once the connection is back.');
+            } else {
+                vscode.window.showErrorMessage('No active PostgreSQL connection. Please connect and try again.');
+            }
             return null;
         }
 
         this.connectionManager.markBusy(connectionId);
 
         try {
-            const cacheKey = `${connectionId}:${schemaName}.${tableName}`;
+            const cacheKey = this.buildPanelKey(connectionId, schemaName, tableName, otherDatabase);
             let cached = this.schemaCache.get(cacheKey);
             let columns: ColumnInfo[] = [];
             let columnsResultRows: any[] = [];
             let enumLabelsByOid: Record<number, string[]> = {};
+            let relationKind: RelationKind = 'table';
+            let readOnly = false;
             if (cached) {
-                ({ columns, columnsResultRows, enumLabelsByOid } = cached);
+                ({ columns, columnsResultRows, enumLabelsByOid, relationKind, readOnly } = cached);
             } else {
+                // Views open read-only unless PostgreSQL reports them as
+                // auto-updatable; materialized views can never be edited.
+                const relationResult = await client.query(
+                    `SELECT c.relkind,
+                            pg_catalog.pg_relation_is_updatable(c.oid, true) AS updatable
+                     FROM pg_class c
+                     JOIN pg_namespace n ON c.relnamespace = n.oid
+                     WHERE n.nspname = $1
+                       AND c.relname = $2`,
+                    [schemaName, tableName]
+                );
+                const relation = relationResult.rows[0];
+                if (relation?.relkind === 'v') {
+                    relationKind = 'view';
+                    readOnly = (Number(relation.updatable) & VIEW_EDITABLE_MASK) !== VIEW_EDITABLE_MASK;
+                } else if (relation?.relkind === 'm') {
+                    relationKind = 'materializedView';
+                    readOnly = true;
+                }
+
                 // Fetch typed column information including type OIDs so we can
                 // detect enums and array element types accurately.
                 const columnsResult = await client.query(
@@ -289,7 +547,7 @@ export class DataEditor {
 
                 // Attach enum labels to matching columns and cache
                 applyEnumLabelsToColumns(columns, columnsResultRows, enumLabelsByOid);
-                cached = { columns, columnsResultRows, enumLabelsByOid };
+                cached = { columns, columnsResultRows, enumLabelsByOid, relationKind, readOnly };
                 this.schemaCache.set(cacheKey, cached);
             }
 
@@ -375,11 +633,11 @@ export class DataEditor {
             });
 
             // UPDATE CACHE with enriched columns so loadForeignKeyRows finds them
-            cached = { columns, columnsResultRows, enumLabelsByOid };
+            cached = { columns, columnsResultRows, enumLabelsByOid, relationKind, readOnly };
             this.schemaCache.set(cacheKey, cached);
             console.log(`[DataEditor] Updated cache with enriched columns`);
 
-            const offset = state.page * this.paginationSize;
+            const pageSize = state.pageSize ?? getPageSize();
             const qualifiedTable = `${this.quoteIdentifier(schemaName)}.${this.quoteIdentifier(tableName)}`;
 
             const { whereClause, values } = this.buildWhereClause(columns, state.filters, state.searchTerm, state.customWhereClause);
@@ -390,102 +648,91 @@ export class DataEditor {
                 sort = null;
                 state.sort = null;
             }
-            const orderClause = sort
-                ? `ORDER BY ${this.quoteIdentifier(sort.column)} ${sort.direction === 'desc' ? 'DESC' : 'ASC'}`
-                : '';
-
-            const limitPlaceholder = `$${values.length + 1}`;
-            const offsetPlaceholder = `$${values.length + 2}`;
-
-            const clauseSegments = [whereClause, orderClause].filter(segment => segment.length > 0).join(' ');
-            const clauseSql = clauseSegments.length > 0 ? ` ${clauseSegments}` : '';
 
-            const dataQuery = `SELECT * FROM ${qualifiedTable}${clauseSql} LIMIT ${limitPlaceholder} OFFSET ${offsetPlaceholder}`;
-            const dataValues = [...values, this.paginationSize, offset];
-            const dataResult = await client.query(dataQuery, dataValues);
-
-            // Record the executed SELECT in Query History (if available)
-            try {
-                if (this.queryHistory) {
-                    const connections = await this.connectionManager.getConnections();
-                    const conn = connections.find(c => c.id === connectionId);
-                    const connectionName = conn ? conn.name : connectionId;
-                    const databaseName = conn ? conn.database : undefined;
-                    const formattedSql = SqlGenerator.formatSqlWithValues(dataQuery, dataValues);
-                    // Fire-and-forget; do not fail table load on history errors
-                    await this.queryHistory.addQuery(formattedSql, connectionId, connectionName, databaseName);
-                    // Notify any open Query History view to refresh connection annotations
-                    try {
-                        await vscode.commands.executeCommand('postgres-editor.refreshQueryHistory');
-                    } catch (e) {
-                        // ignore if command fails (e.g., in tests)
-                    }
+            const order = seekOrder(columns, primaryKey.columns, sort);
+
+            // Pages located by key and the scroll cursor only need the total for
+            // display, so large tables show the planner's estimate instead of
+            // scanning for COUNT(*)
+            let estimated: number | undefined;
+            if (order || state.infiniteScroll) {
+                try {
+                    const estimateResult = await client.query(buildRowEstimateQuery(qualifiedTable, whereClause), values);
+                    estimated = readRowEstimate(estimateResult.rows);
+                } catch (error) {
+                    debug(`[DataEditor] Row estimate failed, counting instead: ${error}`);
+                }
+            }
+            const totalRowsEstimated = estimated !== undefined && estimated >= EXACT_COUNT_LIMIT;
+            let counted: number | undefined;
+            if (!totalRowsEstimated) {
+                const countQuery = `SELECT COUNT(*)::int AS total FROM ${qualifiedTable}${whereClause ? ` ${whereClause}` : ''}`;
+                const countResult = await client.query(countQuery, values);
+                counted = countResult.rows[0]?.total;
+                if (counted !== undefined) {
+                    // Rows may have been deleted since the page was requested
+                    state.page = Math.min(state.page, lastPageIndex(counted, pageSize));
                 }
-            } catch (e) {
-                // Swallow errors - history is best-effort
             }
 
-            // Normalize returned values for JSON, arrays and enums so the
-            // webview receives JS-native types (objects/arrays) rather than
-            // Postgres textual representations.
-            const normalizedRows: Record<string, unknown>[] = dataResult.rows.map((row: any) => {
-                const copy: Record<string, unknown> = { ...row };
-                for (const col of columns) {
-                    const raw = row[col.name];
-                    try {
-                        // JSON / JSONB: ensure JS objects rather than raw strings
-                        if (col.type === 'json' || col.type === 'jsonb') {
-                            if (typeof raw === 'string') {
-                                try {
-                                    copy[col.name] = JSON.parse(raw);
-                                } catch {
-                                    copy[col.name] = raw;
-                                }
-                            } else {
-                                copy[col.name] = raw;
-                            }
-                            continue;
-                        }
-
-                        // Array types: attempt to convert Postgres array literals
-                        // into JS arrays if driver returned them as strings.
-                        if (String(col.type).endsWith('[]')) {
-                            if (Array.isArray(raw)) {
-                                copy[col.name] = raw;
-                                continue;
-                            }
-                            if (typeof raw === 'string') {
-                                try {
-                                    const parsed = JSON.parse(raw);
-                                    if (Array.isArray(parsed)) {
-                                        copy[col.name] = parsed;
-                                        continue;
-                                    }
-                                } catch {
-                                    // fall through to Postgres literal parser
-                                }
-                                // Use centralized parser
-                                copy[col.name] = parsePostgresArrayLiteral(raw, col.type);
-                                continue;
-                            }
+            state.scrollQuery = buildScrollQuery({ table: qualifiedTable, whereClause, values, sort, order });
+            // Infinite scroll reads its rows through loadRange, so a page would never be shown
+            let pageRows: { rows: QueryResultRow[]; cursor?: KeysetCursor; hasNextPage?: boolean } = { rows: [] };
+            let pageRowCount: number | undefined;
+            if (!state.infiniteScroll) {
+                const pageInput = {
+                    table: qualifiedTable,
+                    whereClause,
+                    values,
+                    sort,
+                    order,
+                    page: state.page,
+                    pageSize,
+                    totalRows: counted ?? estimated ?? 0,
+                    totalRowsEstimated,
+                    cursor: state.cursor
+                };
+                let pageQuery = buildPageQuery(pageInput);
+                let dataResult = await client.query(pageQuery.text, pageQuery.values);
+                if (totalRowsEstimated && dataResult.rows.length === 0 && state.page > 0) {
+                    // The estimate promised more pages than there are: show the last one
+                    pageQuery = buildPageQuery({ ...pageInput, totalRows: 0, cursor: undefined });
+                    dataResult = await client.query(pageQuery.text, pageQuery.values);
+                }
+                const dataQuery = pageQuery.text;
+                const dataValues = pageQuery.values;
+                pageRows = readPageRows(pageQuery, dataResult.rows, state.page, order?.columns.length ?? 0);
+                state.cursor = pageRows.cursor;
+                pageRowCount = dataResult.rowCount ?? undefined;
+
+                // Record the executed SELECT in Query History (if available)
+                try {
+                    if (this.queryHistory) {
+                        const connections = await this.connectionManager.getConnections();
+                        const conn = connections.find(c => c.id === connectionId);
+                        const connectionName = conn ? conn.name : connectionId;
+                        const databaseName = otherDatabase ?? conn?.database;
+                        const formattedSql = SqlGenerator.formatSqlWithValues(dataQuery, dataValues);
+                        // Fire-and-forget; do not fail table load on history errors
+                        await this.queryHistory.addQuery(formattedSql, connectionId, connectionName, databaseName);
+                        // Notify any open Query History view to refresh connection annotations
+                        try {
+                            await vscode.commands.executeCommand('postgres-editor.refreshQueryHistory');
+                        } catch (e) {
+                            // ignore if command fails (e.g., in tests)
                         }
-
-                        // Enums are returned as strings already; leave as-is.
-                        copy[col.name] = raw;
-                    } catch (err) {
-                        // Best-effort: leave original raw value if any conversion fails
-                        copy[col.name] = raw;
                     }
+                } catch (e) {
+                    // Swallow errors - history is best-effort
                 }
-                return copy;
-            });
+            }
 
-            const countQuery = `SELECT COUNT(*)::int AS total FROM ${qualifiedTable}${whereClause ? ` ${whereClause}` : ''}`;
-            const countResult = await client.query(countQuery, values);
+            const normalizedRows = this.normalizeRows(pageRows.rows, columns);
 
-            const totalRows: number = countResult.rows[0]?.total ?? dataResult.rowCount ?? 0;
+            const totalRows: number = counted ?? estimated ?? pageRowCount ?? 0;
 
             const prefs = await this.loadTablePreferences(schemaName, tableName);
+            const config = await this.getConnectionConfig(connectionId);
 
             return {
                 schemaName,
@@ -497,12 +744,19 @@ export class DataEditor {
                 rows: normalizedRows,
                 currentPage: state.page,
                 totalRows,
-                paginationSize: this.paginationSize,
+                totalRowsEstimated: totalRowsEstimated || undefined,
+                hasNextPage: pageRows.hasNextPage,
+                paginationSize: pageSize,
+                keysetPagination: order !== null,
                 sort: state.sort,
                 filters: state.filters,
                 searchTerm: state.searchTerm,
                 customWhereClause: state.customWhereClause,
-                tablePreferences: prefs
+                tablePreferences: prefs,
+                relationKind,
+                readOnly,
+                connectionReadOnly: Boolean(config?.readOnly),
+                environment: config?.environment
             };
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to load table data: ${error}`);
@@ -512,6 +766,68 @@ export class DataEditor {
         }
     }
 
+    private async getConnectionConfig(connectionId: string): Promise<ConnectionConfig | undefined> {
+        const configs = await this.connectionManager.getConnections();
+        return configs.find(c => c.id === connectionId);
+    }
+
+    private normalizeRows(rows: Record<string, unknown>[], columns: ColumnInfo[]): Record<string, unknown>[] {
+        // Normalize returned values for JSON, arrays and enums so the
+        // webview receives JS-native types (objects/arrays) rather than
+        // Postgres textual representations.
+        return rows.map((row: any) => {
+            const copy: Record<string, unknown> = { ...row };
+            for (const col of columns) {
+                const raw = row[col.name];
+                try {
+                    // JSON / JSONB: ensure JS objects rather than raw strings
+                    if (col.type === 'json' || col.type === 'jsonb') {
+                        if (typeof raw === 'string') {
+                            try {
+                                copy[col.name] = JSON.parse(raw);
+                            } catch {
+                                copy[col.name] = raw;
+                            }
+                        } else {
+                            copy[col.name] = raw;
+                        }
+                        continue;
+                    }
+
+                    // Array types: attempt to convert Postgres array literals
+                    // into JS arrays if driver returned them as strings.
+                    if (String(col.type).endsWith('[]')) {
+                        if (Array.isArray(raw)) {
+                            copy[col.name] = raw;
+                            continue;
+                        }
+                        if (typeof raw === 'string') {
+                            try {
+                                const parsed = JSON.parse(raw);
+                                if (Array.isArray(parsed)) {
+                                    copy[col.name] = parsed;
+                                    continue;
+                                }
+                            } catch {
+                                // fall through to Postgres literal parser
+                            }
+                            // Use centralized parser
+                            copy[col.name] = parsePostgresArrayLiteral(raw, col.type);
+                            continue;
+                        }
+                    }
+
+                    // Enums are returned as strings already; leave as-is.
+                    copy[col.name] = raw;
+                } catch (err) {
+                    // Best-effort: leave original raw value if any conversion fails
+                    copy[col.name] = raw;
+                }
+            }
+            return copy;
+        });
+    }
+
     private async handleMessage(
         message: WebviewToExtensionMessage,
         panel: vscode.WebviewPanel,
@@ -526,6 +842,31 @@ export class DataEditor {
                     await this.loadTableData(panel, connectionId, schemaName, tableName, page);
                     break;
                 }
+                case 'setPageSize': {
+                    const pageSize = clampPageSize(message.pageSize);
+                    if (pageSize === undefined) {
+                        break;
+                    }
+                    const state = this.getPanelState(panel);
+                    // Stay on the page that holds the first row on screen
+                    const firstRow = state.page * (state.pageSize ?? getPageSize());
+                    state.pageSize = pageSize;
+                    const page = Math.floor(firstRow / pageSize);
+                    if (state.cursor) {
+                        // Seek from that row rather than OFFSET past every earlier one
+                        state.cursor = rebaseCursor(state.cursor, pageSize, page);
+                    }
+                    await this.loadTableData(panel, connectionId, schemaName, tableName, page);
+                    break;
+                }
+                case 'setInfiniteScroll': {
+                    this.getPanelState(panel).infiniteScroll = Boolean(message.enabled);
+                    break;
+                }
+                case 'loadRange': {
+                    await this.loadRange(panel, connectionId, message.offset, message.limit, message.requestId);
+                    break;
+                }
                 case 'executeChanges': {
                     const changes = Array.isArray(message.changes) ? message.changes : [];
                     const batchMode = Boolean(message.batchMode);
@@ -568,15 +909,8 @@ export class DataEditor {
                     break;
                 }
                 case 'applyFilters': {
-                    const incoming = message.filters ?? {};
-                    const normalized: FilterMap = {};
-                    for (const [key, value] of Object.entries(incoming)) {
-                        if (typeof value === 'string') {
-                            normalized[key] = value;
-                        }
-                    }
                     const state = this.getPanelState(panel);
-                    state.filters = normalized;
+                    state.filters = normalizeFilters(message.filters);
                     state.page = 0;
                     await this.loadTableData(panel, connectionId, schemaName, tableName, 0);
                     break;
@@ -591,16 +925,10 @@ export class DataEditor {
                 }
                 case 'convertFiltersToWhere': {
                     const state = this.getPanelState(panel);
-                    // Convert current filters to WHERE clause
-                    const whereParts: string[] = [];
-                    for (const [columnName, filterValue] of Object.entries(state.filters ?? {})) {
-                        const value = typeof filterValue === 'string' ? filterValue.trim() : '';
-                        if (value) {
-                            // Escape single quotes in the value
-                            const escapedValue = value.replace(/'/g, "''");
-                            whereParts.push(`${this.quoteIdentifier(columnName)} ILIKE '%${escapedValue}%'`);
-                        }
-                    }
+                    // Convert current filters to WHERE clause, with the values inlined as literals
+                    const databaseName = this.panelTables.get(panel)?.databaseName;
+                    const columns = this.schemaCache.get(this.buildPanelKey(connectionId, schemaName, tableName, databaseName))?.columns ?? [];
+                    const whereParts = buildFilterConditions(state.filters, columns, quoteLiteral);
                     
                     if (whereParts.length > 0) {
                         const newWhereClause = whereParts.join(' AND ');
@@ -611,7 +939,7 @@ export class DataEditor {
                             state.customWhereClause = newWhereClause;
                         }
                         // Clear the filters after conversion
-                        state.filters = {};
+                        state.filters = [];
                         state.page = 0;
                         await this.loadTableData(panel, connectionId, schemaName, tableName, 0);
                     }
@@ -686,7 +1014,8 @@ export class DataEditor {
         batchMode: boolean,
         bypassValidation: boolean = false
     ): Promise<void> {
-        const client = await this.connectionManager.getClient(connectionId);
+        const otherDatabase = this.panelTables.get(panel)?.databaseName;
+        const client = await this.getTableClient(connectionId, otherDatabase);
         if (!client) {
             panel.webview.postMessage({ command: 'executionComplete', success: false, error: 'No connection available' });
             return;
@@ -698,6 +1027,19 @@ export class DataEditor {
             return;
         }
 
+        const connectionError = readOnlyError(await this.getConnectionConfig(connectionId), 'editing rows');
+        if (connectionError) {
+            panel.webview.postMessage({ command: 'executionComplete', success: false, error: connectionError });
+            return;
+        }
+
+        const relation = this.schemaCache.get(this.buildPanelKey(connectionId, schemaName, tableName, otherDatabase));
+        if (relation?.readOnly) {
+            const kind = relation.relationKind === 'materializedView' ? 'Materialized view' : 'View';
+            panel.webview.postMessage({ command: 'executionComplete', success: false, error: `${kind} ${schemaName}.${tableName} is read-only` });
+            return;
+        }
+
         // Perform server-side validation to guard against obvious
         // client-side bypasses (e.g. non-numeric values for numeric columns)
         // unless the user explicitly requested to bypass validation.
@@ -705,7 +1047,7 @@ export class DataEditor {
             try {
                 const { validateChangesAgainstSchema } = await import('./sqlValidator');
                 // Use cached schema metadata when possible to speed up validation.
-                const cacheKey = `${connectionId}:${schemaName}.${tableName}`;
+                const cacheKey = this.buildPanelKey(connectionId, schemaName, tableName, otherDatabase);
                 const cached = this.schemaCache.get(cacheKey);
                 let validationErrors: string[] = [];
                 if (cached) {
@@ -870,14 +1212,15 @@ export class DataEditor {
         schemaName: string,
         tableName: string
     ): Promise<void> {
-        const client = await this.connectionManager.getClient(connectionId);
+        const otherDatabase = this.panelTables.get(panel)?.databaseName;
+        const client = await this.getTableClient(connectionId, otherDatabase);
         if (!client) {
             vscode.window.showErrorMessage('No active connection.');
             return;
         }
 
         const state = this.getPanelState(panel);
-        const cacheKey = this.buildPanelKey(connectionId, schemaName, tableName);
+        const cacheKey = this.buildPanelKey(connectionId, schemaName, tableName, otherDatabase);
         const cached = this.schemaCache.get(cacheKey);
         if (!cached) {
             vscode.window.showErrorMessage('Table schema not loaded. Please reload the table and try again.');
@@ -956,27 +1299,18 @@ export class DataEditor {
 
     private buildWhereClause(
         columns: ColumnInfo[],
-        filters: FilterMap,
+        filters: ColumnFilter[],
         searchTerm: string,
         customWhereClause: string = ''
     ): { whereClause: string; values: unknown[] } {
         const clauses: string[] = [];
         const values: unknown[] = [];
         let paramIndex = 1;
-        const validColumns = new Set(columns.map(column => column.name));
 
-        for (const [columnName, rawValue] of Object.entries(filters ?? {})) {
-            if (!validColumns.has(columnName)) {
-                continue;
-            }
-            const value = typeof rawValue === 'string' ? rawValue.trim() : '';
-            if (!value) {
-                continue;
-            }
-            const placeholder = `$${paramIndex++}`;
-            clauses.push(`CAST(${this.quoteIdentifier(columnName)} AS TEXT) ILIKE ${placeholder}`);
-            values.push(`%${value}%`);
-        }
+        clauses.push(...buildFilterConditions(filters, columns, value => {
+            values.push(value);
+            return `$${paramIndex++}`;
+        }));
 
         const searchValue = typeof searchTerm === 'string' ? searchTerm.trim() : '';
         if (searchValue) {
@@ -1049,7 +1383,8 @@ export class DataEditor {
     ): Promise<void> {
         console.log(`[DataEditor] loadForeignKeyRows called for ${schemaName}.${tableName}.${columnName}`);
         try {
-            const client = await this.connectionManager.getClient(connectionId);
+            const otherDatabase = this.panelTables.get(panel)?.databaseName;
+            const client = await this.getTableClient(connectionId, otherDatabase);
             if (!client) {
                 console.log('[DataEditor] No client available');
                 panel.webview.postMessage({
@@ -1062,7 +1397,7 @@ export class DataEditor {
             this.connectionManager.markBusy(connectionId);
 
             // First, get the column info to find the FK reference
-            const cacheKey = `${connectionId}:${schemaName}.${tableName}`;
+            const cacheKey = this.buildPanelKey(connectionId, schemaName, tableName, otherDatabase);
             console.log(`[DataEditor] Looking for cache key: ${cacheKey}`);
             const cached = this.schemaCache.get(cacheKey);
             let column: ColumnInfo | undefined;
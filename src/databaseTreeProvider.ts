@@ -1,13 +1,119 @@
 // databaseTreeProvider.ts - Provides tree view for database structure
 
 import * as vscode from 'vscode';
-import { ConnectionManager, ConnectionConfig, ConnectionStatus } from './connectionManager';
+import { ConnectionManager, ConnectionConfig, ConnectionStatus, formatEnvironmentBadge } from './connectionManager';
+import { VIEW_EDITABLE_MASK, ViewManager } from './viewManager';
+import { RoutineInfo, formatRoutineSignature, routineKindFromProkind } from './routineSqlBuilder';
+import { SequenceInfo, SequenceManager } from './sequenceManager';
+import { TypeManager, UserTypeInfo, UserTypeKind } from './typeManager';
+import { ExtensionInfo, ExtensionManager } from './extensionManager';
+import { TableShortcut, TableShortcuts } from './tableShortcuts';
+
+export type DatabaseTreeItemType =
+    | 'favorites'
+    | 'recents'
+    | 'connectionFolder'
+    | 'connection'
+    | 'database'
+    | 'otherDatabases'
+    | 'otherDatabase'
+    | 'extensions'
+    | 'availableExtensions'
+    | 'extension'
+    | 'schema'
+    | 'table'
+    | 'views'
+    | 'view'
+    | 'materializedViews'
+    | 'materializedView'
+    | 'functions'
+    | 'function'
+    | 'sequences'
+    | 'sequence'
+    | 'types'
+    | 'type'
+    | 'columns'
+    | 'column'
+    | 'indexes'
+    | 'index'
+    | 'constraints'
+    | 'constraint'
+    | 'triggers'
+    | 'trigger'
+    | 'partitions';
+
+// Node types that live underneath a table node and carry its schema/table names
+const TABLE_CHILD_TYPES: ReadonlySet<DatabaseTreeItemType> = new Set<DatabaseTreeItemType>([
+    'columns', 'column', 'indexes', 'index', 'constraints', 'constraint', 'triggers', 'trigger', 'partitions'
+]);
+
+// Folder nodes shown under each schema and each table, in display order
+const SCHEMA_FOLDERS: ReadonlyArray<[string, DatabaseTreeItemType]> = [
+    ['Views', 'views'],
+    ['Materialized Views', 'materializedViews'],
+    ['Functions', 'functions'],
+    ['Sequences', 'sequences'],
+    ['Types', 'types']
+];
+
+const TABLE_FOLDERS: ReadonlyArray<[string, DatabaseTreeItemType]> = [
+    ['Columns', 'columns'],
+    ['Indexes', 'indexes'],
+    ['Constraints', 'constraints'],
+    ['Triggers', 'triggers']
+];
+
+const PARTITIONS_FOLDER: [string, DatabaseTreeItemType] = ['Partitions', 'partitions'];
+
+// Folder holding each kind of leaf node, used to walk back up the tree
+const PARENT_FOLDER_TYPES: Partial<Record<DatabaseTreeItemType, DatabaseTreeItemType>> = {
+    view: 'views',
+    materializedView: 'materializedViews',
+    function: 'functions',
+    sequence: 'sequences',
+    type: 'types',
+    column: 'columns',
+    index: 'indexes',
+    constraint: 'constraints',
+    trigger: 'triggers'
+};
+
+const USER_TYPE_ICONS: Record<UserTypeKind, string> = {
+    enum: 'symbol-enum',
+    composite: 'symbol-structure',
+    domain: 'symbol-type-parameter',
+    range: 'symbol-interface'
+};
+
+const CONSTRAINT_TYPE_LABELS: Record<string, string> = {
+    p: 'PRIMARY KEY',
+    u: 'UNIQUE',
+    f: 'FOREIGN KEY',
+    c: 'CHECK',
+    x: 'EXCLUDE',
+    n: 'NOT NULL',
+    t: 'TRIGGER'
+};
 
 export class DatabaseTreeItem extends vscode.TreeItem {
+    // Set on 'function' items so commands can address a specific overload
+    public routine?: RoutineInfo;
+    // Set on 'sequence' items
+    public sequence?: SequenceInfo;
+    // Set on 'type' items
+    public userType?: UserTypeInfo;
+    // Set on 'extension' items
+    public extension?: ExtensionInfo;
+    // Set on 'table' items that are partitioned, or are a partition of another table
+    public isPartitioned?: boolean;
+    public partitionParent?: { schemaName: string; tableName: string };
+    // Set on schema and table items of a database listed under "Other DBs"
+    public inOtherDatabase?: boolean;
+
     constructor(
         public readonly label: string,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState,
-        public readonly type: 'connection' | 'database' | 'otherDatabases' | 'otherDatabase' | 'schema' | 'table',
+        public readonly type: DatabaseTreeItemType,
         public readonly connectionId?: string,
         public readonly databaseName?: string,
         public readonly schemaName?: string,
@@ -17,7 +123,13 @@ export class DatabaseTreeItem extends vscode.TreeItem {
         
         this.contextValue = type;
         
-        if (type === 'connection') {
+        if (type === 'favorites') {
+            this.iconPath = new vscode.ThemeIcon('star-full');
+        } else if (type === 'recents') {
+            this.iconPath = new vscode.ThemeIcon('history');
+        } else if (type === 'connectionFolder') {
+            this.iconPath = new vscode.ThemeIcon('folder-library');
+        } else if (type === 'connection') {
             this.iconPath = new vscode.ThemeIcon('database');
         } else if (type === 'database') {
             this.iconPath = new vscode.ThemeIcon('server');
@@ -34,10 +146,68 @@ export class DatabaseTreeItem extends vscode.TreeItem {
                 title: 'Open Table',
                 arguments: [this]
             };
+        } else if (
+            type === 'views' || type === 'materializedViews' || type === 'functions' || type === 'sequences' || type === 'types' ||
+            type === 'extensions' || type === 'availableExtensions' ||
+            type === 'columns' || type === 'indexes' || type === 'constraints' || type === 'triggers' ||
+            type === 'partitions'
+        ) {
+            this.iconPath = new vscode.ThemeIcon('folder');
+        } else if (type === 'view' || type === 'materializedView') {
+            this.iconPath = new vscode.ThemeIcon(type === 'view' ? 'eye' : 'layers');
+            this.command = {
+                command: 'postgres-editor.openTable',
+                title: type === 'view' ? 'Open View' : 'Open Materialized View',
+                arguments: [this]
+            };
+        } else if (type === 'function') {
+            this.iconPath = new vscode.ThemeIcon('symbol-function');
+            this.command = {
+                command: 'postgres-editor.openFunction',
+                title: 'Open Function',
+                arguments: [this]
+            };
+        } else if (type === 'sequence') {
+            this.iconPath = new vscode.ThemeIcon('symbol-number');
+        } else if (type === 'extension') {
+            this.iconPath = new vscode.ThemeIcon('extensions');
+        } else if (type === 'column') {
+            this.iconPath = new vscode.ThemeIcon('symbol-field');
+        } else if (type === 'index') {
+            this.iconPath = new vscode.ThemeIcon('list-tree');
+        } else if (type === 'constraint') {
+            this.iconPath = new vscode.ThemeIcon('lock');
+        } else if (type === 'trigger') {
+            this.iconPath = new vscode.ThemeIcon('zap');
         }
     }
 }
 
+/**
+ * Resolve a table node, or any node underneath one, to the table item the
+ * table-level wizards and managers expect.
+ */
+export function toTableItem(item: DatabaseTreeItem | undefined): DatabaseTreeItem | undefined {
+    if (!item) {
+        return undefined;
+    }
+    if (item.type === 'table') {
+        return item;
+    }
+    if (!TABLE_CHILD_TYPES.has(item.type) || !item.tableName) {
+        return undefined;
+    }
+    return new DatabaseTreeItem(
+        item.tableName,
+        vscode.TreeItemCollapsibleState.Collapsed,
+        'table',
+        item.connectionId,
+        item.databaseName,
+        item.schemaName,
+        item.tableName
+    );
+}
+
 export class DatabaseTreeProvider implements vscode.TreeDataProvider<DatabaseTreeItem> {
     private _onDidChangeTreeData = new vscode.EventEmitter<DatabaseTreeItem | undefined | null | void>();
     readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
@@ -47,8 +217,25 @@ export class DatabaseTreeProvider implements vscode.TreeDataProvider<DatabaseTre
     // Track collapsed/expanded state for connection nodes so we can programmatically
     // collapse a single connection without affecting others.
     private connectionCollapsedState = new Map<string, boolean>();
+    // Favorites/Recent folder nodes last returned at the root, so they can be refreshed on their own
+    private shortcutFolders: DatabaseTreeItem[] = [];
+    // Connection nodes last returned, so session counts can update just their node
+    private connectionItems = new Map<string, { item: DatabaseTreeItem; config: ConnectionConfig }>();
+    private pendingConnectionRefreshes = new Set<string>();
+    private sequenceManager: SequenceManager;
+    private typeManager: TypeManager;
+    private extensionManager: ExtensionManager;
 
-    constructor(private connectionManager: ConnectionManager) {
+    constructor(
+        private connectionManager: ConnectionManager,
+        private viewManager?: ViewManager,
+        private tableShortcuts?: TableShortcuts
+    ) {
+        this.sequenceManager = new SequenceManager(connectionManager);
+        this.typeManager = new TypeManager(connectionManager);
+        this.extensionManager = new ExtensionManager(connectionManager);
+        // Favorites also change the context menu of table nodes elsewhere in the tree
+        this.tableShortcuts?.onDidChange((list) => list === 'favorites' ? this.refresh() : this.refreshShortcuts());
         this.connectionManager.onStatusChange((event) => {
             const lastStatus = this.lastKnownStatuses.get(event.id);
             this.lastKnownStatuses.set(event.id, event.status);
@@ -58,12 +245,31 @@ export class DatabaseTreeProvider implements vscode.TreeDataProvider<DatabaseTre
                 this.throttledRefresh();
             }
         });
+        // Session counts are shown on the connection node
+        this.connectionManager.onPoolChange(({ id }) => this.refreshConnectionNode(id));
     }
 
     refresh(): void {
         this._onDidChangeTreeData.fire();
     }
 
+    /**
+     * Re-render the Favorites and Recent sections without reloading every
+     * expanded connection, unless a section has to appear or disappear.
+     */
+    private refreshShortcuts(): void {
+        const folders = this.getShortcutFolders();
+        const sameSections = folders.length === this.shortcutFolders.length &&
+            folders.every((folder, index) => folder.type === this.shortcutFolders[index].type);
+        if (!sameSections) {
+            this.refresh();
+            return;
+        }
+        for (const folder of this.shortcutFolders) {
+            this._onDidChangeTreeData.fire(folder);
+        }
+    }
+
     // Collapse a specific connection node programmatically (model-driven)
     collapseConnectionNode(connectionId: string): void {
         this.connectionCollapsedState.set(connectionId, true);
@@ -103,14 +309,43 @@ export class DatabaseTreeProvider implements vscode.TreeDataProvider<DatabaseTre
         }, 100);
     }
 
+    /**
+     * Re-render one connection node, e.g. when its session count changed,
+     * without reloading the rest of the tree.
+     */
+    private refreshConnectionNode(connectionId: string): void {
+        if (this.pendingConnectionRefreshes.has(connectionId)) {
+            return;
+        }
+        this.pendingConnectionRefreshes.add(connectionId);
+        setTimeout(() => {
+            this.pendingConnectionRefreshes.delete(connectionId);
+            const entry = this.connectionItems.get(connectionId);
+            if (entry) {
+                this.describeConnectionItem(entry.item, entry.config);
+                this._onDidChangeTreeData.fire(entry.item);
+            }
+        }, 100);
+    }
+
     getTreeItem(element: DatabaseTreeItem): vscode.TreeItem {
         return element;
     }
 
     async getChildren(element?: DatabaseTreeItem): Promise<DatabaseTreeItem[]> {
         if (!element) {
-            // Root level - show connections
-            return this.getConnections();
+            // Root level - Favorites and Recent (when not empty), connection
+            // folders, then ungrouped connections
+            this.shortcutFolders = this.getShortcutFolders();
+            return [...this.shortcutFolders, ...await this.getConnections()];
+        }
+
+        if (element.type === 'favorites' || element.type === 'recents') {
+            return this.getShortcuts(element.type);
+        }
+
+        if (element.type === 'connectionFolder') {
+            return this.getConnections(element.label);
         }
 
         if (element.type === 'connection') {
@@ -119,52 +354,284 @@ export class DatabaseTreeProvider implements vscode.TreeDataProvider<DatabaseTre
         }
 
         if (element.type === 'otherDatabases') {
-            // Show other databases (non-expandable)
             return this.getOtherDatabases(element.connectionId!);
         }
 
+        if (element.type === 'otherDatabase') {
+            // Browsed through a session logged into that database
+            return this.getSchemas(element.connectionId!, element.databaseName!, true);
+        }
+
         if (element.type === 'database') {
-            // Show schemas for the connected database
-            return this.getSchemas(element.connectionId!, element.databaseName!);
+            // Show the extensions folder and the schemas of the connected database
+            const schemas = await this.getSchemas(element.connectionId!, element.databaseName!);
+            return [
+                new DatabaseTreeItem(
+                    'Extensions',
+                    vscode.TreeItemCollapsibleState.Collapsed,
+                    'extensions',
+                    element.connectionId,
+                    element.databaseName
+                ),
+                ...schemas
+            ];
+        }
+
+        if (element.type === 'extensions' || element.type === 'availableExtensions') {
+            return this.getExtensions(element);
+        }
+
+        if (element.type === 'schema' && element.inOtherDatabase) {
+            return this.getTables(element.connectionId!, element.databaseName!, element.schemaName!, true);
         }
 
         if (element.type === 'schema') {
-            // Show tables
-            return this.getTables(element.connectionId!, element.databaseName!, element.schemaName!);
+            // Show the object folders followed by the tables
+            const tables = await this.getTables(element.connectionId!, element.databaseName!, element.schemaName!);
+            return [
+                ...this.getSchemaFolders(element.connectionId!, element.databaseName!, element.schemaName!),
+                ...tables
+            ];
+        }
+
+        if (element.type === 'views') {
+            return this.getViews(element.connectionId!, element.databaseName!, element.schemaName!);
+        }
+
+        if (element.type === 'materializedViews') {
+            return this.getMaterializedViews(element.connectionId!, element.databaseName!, element.schemaName!);
+        }
+
+        if (element.type === 'functions') {
+            return this.getFunctions(element.connectionId!, element.databaseName!, element.schemaName!);
+        }
+
+        if (element.type === 'sequences') {
+            return this.getSequences(element.connectionId!, element.databaseName!, element.schemaName!);
+        }
+
+        if (element.type === 'types') {
+            return this.getTypes(element.connectionId!, element.databaseName!, element.schemaName!);
+        }
+
+        if (element.type === 'table') {
+            return this.getTableFolders(element);
+        }
+
+        if (element.type === 'partitions') {
+            return this.getPartitions(element);
+        }
+
+        if (element.type === 'columns') {
+            return this.getColumns(element);
+        }
+
+        if (element.type === 'indexes') {
+            return this.getIndexes(element);
+        }
+
+        if (element.type === 'constraints') {
+            return this.getConstraints(element);
+        }
+
+        if (element.type === 'triggers') {
+            return this.getTriggers(element);
         }
 
         return [];
     }
 
-    private async getConnections(): Promise<DatabaseTreeItem[]> {
+    /**
+     * Rebuild the parent of a node from the names it carries. VS Code needs
+     * this to reveal nodes that were created outside the tree, e.g. by
+     * "Go to Object".
+     */
+    async getParent(element: DatabaseTreeItem): Promise<DatabaseTreeItem | undefined> {
+        const { connectionId, databaseName, schemaName } = element;
+        const collapsed = vscode.TreeItemCollapsibleState.Collapsed;
+
+        switch (element.type) {
+            case 'favorites':
+            case 'recents':
+            case 'connectionFolder':
+                return undefined;
+            case 'connection': {
+                const configs = await this.connectionManager.getConnections();
+                const config = configs.find(c => c.id === connectionId);
+                return config?.group ? this.createConnectionFolderItem(config.group) : undefined;
+            }
+            case 'database':
+            case 'otherDatabases': {
+                const configs = await this.connectionManager.getConnections();
+                const config = configs.find(c => c.id === connectionId);
+                return config ? this.createConnectionItem(config) : undefined;
+            }
+            case 'otherDatabase':
+                return new DatabaseTreeItem('Other DBs', collapsed, 'otherDatabases', connectionId);
+            case 'schema':
+                if (element.inOtherDatabase) {
+                    return this.createOtherDatabaseItem(connectionId!, databaseName!);
+                }
+                return new DatabaseTreeItem(databaseName!, collapsed, 'database', connectionId, databaseName);
+            case 'extensions':
+                return new DatabaseTreeItem(databaseName!, collapsed, 'database', connectionId, databaseName);
+            case 'availableExtensions':
+                return new DatabaseTreeItem('Extensions', collapsed, 'extensions', connectionId, databaseName);
+            case 'extension':
+                return element.extension?.installedVersion === null
+                    ? new DatabaseTreeItem('Available', collapsed, 'availableExtensions', connectionId, databaseName)
+                    : new DatabaseTreeItem('Extensions', collapsed, 'extensions', connectionId, databaseName);
+            case 'table': {
+                if (element.inOtherDatabase) {
+                    return this.createSchemaItem(connectionId!, databaseName!, schemaName!, true);
+                }
+                const parent = element.partitionParent;
+                return parent
+                    ? new DatabaseTreeItem(PARTITIONS_FOLDER[0], collapsed, 'partitions', connectionId, databaseName, parent.schemaName, parent.tableName)
+                    : new DatabaseTreeItem(schemaName!, collapsed, 'schema', connectionId, databaseName, schemaName);
+            }
+            case 'partitions': {
+                const table = toTableItem(element)!;
+                table.isPartitioned = true;
+                return table;
+            }
+        }
+
+        if (SCHEMA_FOLDERS.some(([, type]) => type === element.type)) {
+            return new DatabaseTreeItem(schemaName!, collapsed, 'schema', connectionId, databaseName, schemaName);
+        }
+
+        if (TABLE_FOLDERS.some(([, type]) => type === element.type)) {
+            return toTableItem(element);
+        }
+
+        const folderType = PARENT_FOLDER_TYPES[element.type];
+        const schemaFolder = SCHEMA_FOLDERS.find(([, type]) => type === folderType);
+        if (schemaFolder) {
+            return new DatabaseTreeItem(schemaFolder[0], collapsed, schemaFolder[1], connectionId, databaseName, schemaName);
+        }
+        const tableFolder = TABLE_FOLDERS.find(([, type]) => type === folderType);
+        if (tableFolder) {
+            return new DatabaseTreeItem(tableFolder[0], collapsed, tableFolder[1], connectionId, databaseName, schemaName, element.tableName);
+        }
+        return undefined;
+    }
+
+    private getShortcutFolders(): DatabaseTreeItem[] {
+        if (!this.tableShortcuts) {
+            return [];
+        }
+        const folders: DatabaseTreeItem[] = [];
+        if (this.tableShortcuts.getFavorites().length > 0) {
+            folders.push(new DatabaseTreeItem('Favorites', vscode.TreeItemCollapsibleState.Expanded, 'favorites'));
+        }
+        if (this.tableShortcuts.getRecents().length > 0) {
+            folders.push(new DatabaseTreeItem('Recent', vscode.TreeItemCollapsibleState.Collapsed, 'recents'));
+        }
+        return folders;
+    }
+
+    /**
+     * Favorites or recents as openable table nodes. Entries whose connection
+     * was deleted are skipped; the description shows the connection's
+     * current name.
+     */
+    private async getShortcuts(folder: 'favorites' | 'recents'): Promise<DatabaseTreeItem[]> {
+        if (!this.tableShortcuts) {
+            return [];
+        }
         const configs = await this.connectionManager.getConnections();
-        return configs.map(config => {
-            const status = this.connectionManager.getConnectionStatus(config.id);
-            const collapsed = this.connectionCollapsedState.get(config.id);
-            const collapsibleState = collapsed === false
-                ? vscode.TreeItemCollapsibleState.Expanded
-                : vscode.TreeItemCollapsibleState.Collapsed;
-            const item = new DatabaseTreeItem(
-                config.name,
-                collapsibleState,
-                'connection',
-                config.id
-            );
-            // Provide a stable id so VS Code can track the item across refreshes
-            item.id = config.id;
-
-            item.iconPath = this.getStatusIcon(status);
-            // Description uses a shape glyph plus a short textual status so
-            // colorblind users have a shape to rely on in addition to color.
-            item.description = this.formatStatusLabel(status);
-            item.contextValue = this.getConnectionContextValue(status);
-            // Tooltip contains a plain text status for screen readers and clarity.
-            item.tooltip = `${config.host}:${config.port}/${config.database}\nStatus: ${this.formatStatusText(status)}`;
-
-            return item;
+        const entries = folder === 'favorites' ? this.tableShortcuts.getFavorites() : this.tableShortcuts.getRecents();
+
+        return entries.flatMap(entry => {
+            const config = configs.find(c => c.id === entry.connectionId);
+            return config ? [this.createShortcutItem(entry, config)] : [];
         });
     }
 
+    private createShortcutItem(entry: TableShortcut, config: ConnectionConfig): DatabaseTreeItem {
+        const { connectionId, databaseName, schemaName, tableName, kind } = entry;
+        const item = kind === 'table'
+            ? databaseName === config.database
+                ? this.createTableItem(connectionId, databaseName, schemaName, tableName, false)
+                : this.createOtherDatabaseTableItem(connectionId, databaseName, schemaName, tableName)
+            : new DatabaseTreeItem(tableName, vscode.TreeItemCollapsibleState.None, kind, connectionId, databaseName, schemaName, tableName);
+        item.description = `${config.name} · ${schemaName}`;
+        item.tooltip = `${schemaName}.${tableName}\n${config.name} (${databaseName})`;
+        return item;
+    }
+
+    /**
+     * List the connections of a folder, or at the root the folders followed
+     * by connections that have no folder.
+     */
+    private async getConnections(group?: string): Promise<DatabaseTreeItem[]> {
+        const configs = await this.connectionManager.getConnections();
+        if (group !== undefined) {
+            return configs.filter(config => config.group === group).map(config => this.createConnectionItem(config));
+        }
+
+        const groups = [...new Set(configs.map(config => config.group).filter((name): name is string => Boolean(name)))]
+            .sort((a, b) => a.localeCompare(b));
+        return [
+            ...groups.map(name => this.createConnectionFolderItem(name)),
+            ...configs.filter(config => !config.group).map(config => this.createConnectionItem(config))
+        ];
+    }
+
+    private createConnectionFolderItem(group: string): DatabaseTreeItem {
+        const item = new DatabaseTreeItem(group, vscode.TreeItemCollapsibleState.Expanded, 'connectionFolder');
+        // Prefixed so a folder can never collide with a connection id
+        item.id = `folder:${group}`;
+        return item;
+    }
+
+    private createConnectionItem(config: ConnectionConfig): DatabaseTreeItem {
+        const collapsed = this.connectionCollapsedState.get(config.id);
+        const collapsibleState = collapsed === false
+            ? vscode.TreeItemCollapsibleState.Expanded
+            : vscode.TreeItemCollapsibleState.Collapsed;
+        const item = new DatabaseTreeItem(
+            config.name,
+            collapsibleState,
+            'connection',
+            config.id
+        );
+        // Provide a stable id so VS Code can track the item across refreshes
+        item.id = config.id;
+        this.describeConnectionItem(item, config);
+        this.connectionItems.set(config.id, { item, config });
+
+        return item;
+    }
+
+    private describeConnectionItem(item: DatabaseTreeItem, config: ConnectionConfig): void {
+        const status = this.connectionManager.getConnectionStatus(config.id);
+        // A color tag replaces the status tint; the description still carries the status.
+        item.iconPath = config.color
+            ? new vscode.ThemeIcon('database', new vscode.ThemeColor(`charts.${config.color}`))
+            : this.getStatusIcon(status);
+        // Description uses a shape glyph plus a short textual status so
+        // colorblind users have a shape to rely on in addition to color.
+        const badge = formatEnvironmentBadge(config.environment);
+        const pool = this.connectionManager.getPoolUsage(config.id);
+        // Session counts only matter once terminals or SQL documents hold their own
+        const sessions = pool.open > 1 ? ` · ${pool.open}/${pool.max} sessions` : '';
+        const shared = config.workspaceFolder ? ' · shared' : '';
+        item.description = (badge ? `${badge} · ${this.formatStatusLabel(status)}` : this.formatStatusLabel(status)) + sessions + shared;
+        item.contextValue = this.getConnectionContextValue(status);
+        // Tooltip contains a plain text status for screen readers and clarity.
+        item.tooltip = [
+            `${config.host}:${config.port}/${config.database}`,
+            ...(config.service ? [`Service: ${config.service} (pg_service.conf)`] : []),
+            ...(config.workspaceFolder ? [`Shared: ${config.workspaceFolder}/.vscode/postgresheets.json`] : []),
+            `Status: ${this.formatStatusText(status)}`,
+            ...(pool.open > 0 ? [`Sessions: ${pool.open} of ${pool.max} in use`] : []),
+            ...(config.readOnly ? ['Read-only: data and schema changes are rejected'] : []),
+            ...(badge ? [`Environment: ${badge}`] : [])
+        ].join('\n');
+    }
+
     private async getDatabases(connectionId: string): Promise<DatabaseTreeItem[]> {
         // Try to get existing client, if not connected, attempt to connect
         let client = await this.connectionManager.getClient(connectionId);
@@ -244,38 +711,290 @@ export class DatabaseTreeProvider implements vscode.TreeDataProvider<DatabaseTre
             `);
 
             const connectedDb = config.database;
-            
-            // Return non-expandable items for other databases with "+ Add connection" 
+
             return result.rows
                 .filter(row => row.datname !== connectedDb)
-                .map(row => {
+                .map(row => this.createOtherDatabaseItem(connectionId, row.datname));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to load databases: ${error}`);
+            return [];
+        } finally {
+            this.connectionManager.markIdle(connectionId);
+        }
+    }
+
+    private createOtherDatabaseItem(connectionId: string, databaseName: string): DatabaseTreeItem {
+        const item = new DatabaseTreeItem(
+            databaseName,
+            vscode.TreeItemCollapsibleState.Collapsed,
+            'otherDatabase',
+            connectionId,
+            databaseName
+        );
+        item.tooltip = `${databaseName}\nBrowsed with the credentials of this connection`;
+        return item;
+    }
+
+    /**
+     * The client to read `databaseName` with, connecting first when needed:
+     * the shared client for the connected database, a session logged into
+     * the database for one under "Other DBs".
+     */
+    private async getDatabaseClient(connectionId: string, databaseName: string): ReturnType<ConnectionManager['getClient']> {
+        if (!(await this.connectionManager.getClient(connectionId)) && !(await this.connectionManager.connect(connectionId))) {
+            return null;
+        }
+        try {
+            return await this.connectionManager.getDatabaseClient(connectionId, databaseName);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to open database ${databaseName}: ${error}`);
+            return null;
+        }
+    }
+
+    private async getSchemas(connectionId: string, databaseName: string, inOtherDatabase: boolean = false): Promise<DatabaseTreeItem[]> {
+        const client = await this.getDatabaseClient(connectionId, databaseName);
+        if (!client) return [];
+
+        this.connectionManager.markBusy(connectionId);
+
+        try {
+            const result = await client.query(`
+                SELECT schema_name 
+                FROM information_schema.schemata 
+                WHERE schema_name NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+                ORDER BY schema_name
+            `);
+
+            return result.rows.map(row => this.createSchemaItem(connectionId, databaseName, row.schema_name, inOtherDatabase));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to load schemas: ${error}`);
+            return [];
+        } finally {
+            this.connectionManager.markIdle(connectionId);
+        }
+    }
+
+    private async getExtensions(folder: DatabaseTreeItem): Promise<DatabaseTreeItem[]> {
+        const connectionId = folder.connectionId!;
+        let client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            client = await this.connectionManager.connect(connectionId);
+            if (!client) return [];
+        }
+
+        this.connectionManager.markBusy(connectionId);
+
+        try {
+            const extensions = await this.extensionManager.getExtensions(connectionId);
+            const showInstalled = folder.type === 'extensions';
+            const items = extensions
+                .filter(extension => (extension.installedVersion !== null) === showInstalled)
+                .map(extension => {
                     const item = new DatabaseTreeItem(
-                        row.datname,
+                        extension.name,
                         vscode.TreeItemCollapsibleState.None,
-                        'otherDatabase',
+                        'extension',
                         connectionId,
-                        row.datname
+                        folder.databaseName
                     );
-                    // Add the "+ Add connection" description and command
-                    item.description = '+ Add connection';
-                    item.tooltip = `Click to add a new connection to ${row.datname}`;
-                    item.command = {
-                        command: 'postgres-editor.addConnectionFromOtherDb',
-                        title: 'Add Connection',
-                        arguments: [item]
-                    };
+                    item.extension = extension;
+                    const upgradable = extension.installedVersion !== null
+                        && extension.defaultVersion !== null
+                        && extension.defaultVersion !== extension.installedVersion;
+                    item.contextValue = extension.installedVersion === null
+                        ? 'extension.available'
+                        : upgradable ? 'extension.upgradable' : 'extension.installed';
+                    item.description = extension.installedVersion === null
+                        ? extension.defaultVersion ?? ''
+                        : `${extension.installedVersion}${upgradable ? ` → ${extension.defaultVersion}` : ''} · ${extension.schemaName}`;
+                    item.tooltip = [
+                        extension.name,
+                        extension.comment,
+                        `Installed: ${extension.installedVersion ? `${extension.installedVersion} in schema ${extension.schemaName}` : 'no'}`,
+                        `Available: ${extension.defaultVersion ?? 'not on this server'}`
+                    ].filter(Boolean).join('\n');
                     return item;
                 });
+
+            if (showInstalled && extensions.some(extension => extension.installedVersion === null)) {
+                items.push(new DatabaseTreeItem(
+                    'Available',
+                    vscode.TreeItemCollapsibleState.Collapsed,
+                    'availableExtensions',
+                    connectionId,
+                    folder.databaseName
+                ));
+            }
+            return items;
         } catch (error) {
-            vscode.window.showErrorMessage(`Failed to load databases: ${error}`);
+            vscode.window.showErrorMessage(`Failed to load extensions: ${error}`);
             return [];
         } finally {
             this.connectionManager.markIdle(connectionId);
         }
     }
 
-    private async getSchemas(connectionId: string, databaseName: string): Promise<DatabaseTreeItem[]> {
-        // Try to get existing client, if not connected, attempt to connect
+    private createSchemaItem(connectionId: string, databaseName: string, schemaName: string, inOtherDatabase: boolean): DatabaseTreeItem {
+        const item = new DatabaseTreeItem(
+            schemaName,
+            vscode.TreeItemCollapsibleState.Collapsed,
+            'schema',
+            connectionId,
+            databaseName,
+            schemaName
+        );
+        if (inOtherDatabase) {
+            // Schema actions work on the connected database
+            item.inOtherDatabase = true;
+            item.contextValue = 'otherDatabase.schema';
+        }
+        return item;
+    }
+
+    private async getTables(connectionId: string, databaseName: string, schemaName: string, inOtherDatabase: boolean = false): Promise<DatabaseTreeItem[]> {
+        const client = await this.getDatabaseClient(connectionId, databaseName);
+        if (!client) return [];
+
+        this.connectionManager.markBusy(connectionId);
+
+        try {
+            // Partitions are listed under their parent rather than here. The
+            // privilege check mirrors what information_schema.tables shows.
+            const result = await client.query(`
+                SELECT c.relname AS table_name,
+                       c.relkind = 'p' AS is_partitioned,
+                       pg_catalog.pg_get_partkeydef(c.oid) AS partition_key
+                FROM pg_class c
+                JOIN pg_namespace n ON n.oid = c.relnamespace
+                WHERE n.nspname = $1
+                AND c.relkind IN ('r', 'p')
+                AND NOT c.relispartition
+                AND (
+                    pg_has_role(c.relowner, 'USAGE')
+                    OR has_table_privilege(c.oid, 'SELECT, INSERT, UPDATE, DELETE, TRUNCATE, REFERENCES, TRIGGER')
+                    OR has_any_column_privilege(c.oid, 'SELECT, INSERT, UPDATE, REFERENCES')
+                )
+                ORDER BY c.relname
+            `, [schemaName]);
+
+            return result.rows.map(row => {
+                const item = inOtherDatabase
+                    ? this.createOtherDatabaseTableItem(connectionId, databaseName, schemaName, row.table_name)
+                    : this.createTableItem(connectionId, databaseName, schemaName, row.table_name, Boolean(row.is_partitioned));
+                if (row.is_partitioned) {
+                    item.description = `partitioned by ${row.partition_key}`;
+                }
+                return item;
+            });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to load tables: ${error}`);
+            return [];
+        } finally {
+            this.connectionManager.markIdle(connectionId);
+        }
+    }
+
+    private createTableItem(
+        connectionId: string,
+        databaseName: string,
+        schemaName: string,
+        tableName: string,
+        partitioned: boolean,
+        partitionParent?: { schemaName: string; tableName: string }
+    ): DatabaseTreeItem {
+        const item = new DatabaseTreeItem(
+            tableName,
+            vscode.TreeItemCollapsibleState.Collapsed,
+            'table',
+            connectionId,
+            databaseName,
+            schemaName,
+            tableName
+        );
+        item.isPartitioned = partitioned;
+        item.partitionParent = partitionParent;
+        // Partition and favorite actions key off these suffixes; plain table actions match /^table/
+        const favorite = this.tableShortcuts?.isFavorite({ connectionId, schemaName, tableName }) ?? false;
+        item.contextValue = ['table', partitionParent ? 'partition' : null, partitioned ? 'partitioned' : null, favorite ? 'favorite' : null]
+            .filter(Boolean)
+            .join('.');
+        return item;
+    }
+
+    /**
+     * A table of a database under "Other DBs". It opens in the data editor;
+     * the table actions and sub-folders work on the connected database, so
+     * it gets neither.
+     */
+    private createOtherDatabaseTableItem(connectionId: string, databaseName: string, schemaName: string, tableName: string): DatabaseTreeItem {
+        const item = new DatabaseTreeItem(
+            tableName,
+            vscode.TreeItemCollapsibleState.None,
+            'table',
+            connectionId,
+            databaseName,
+            schemaName,
+            tableName
+        );
+        item.inOtherDatabase = true;
+        item.contextValue = 'otherDatabase.table';
+        return item;
+    }
+
+    private async getPartitions(folder: DatabaseTreeItem): Promise<DatabaseTreeItem[]> {
+        return this.loadTableChildren(folder, 'partitions', async (client) => {
+            const result = await client.query(`
+                SELECT cn.nspname AS schema_name,
+                       c.relname AS table_name,
+                       c.relkind = 'p' AS is_partitioned,
+                       pg_catalog.pg_get_expr(c.relpartbound, c.oid) AS partition_bound,
+                       pg_catalog.pg_get_partkeydef(c.oid) AS partition_key
+                FROM pg_inherits i
+                JOIN pg_class c ON c.oid = i.inhrelid
+                JOIN pg_namespace cn ON cn.oid = c.relnamespace
+                JOIN pg_class p ON p.oid = i.inhparent
+                JOIN pg_namespace n ON n.oid = p.relnamespace
+                WHERE n.nspname = $1
+                AND p.relname = $2
+                AND c.relispartition
+                ORDER BY partition_bound = 'DEFAULT', c.relname
+            `, [folder.schemaName, folder.tableName]);
+
+            const parent = { schemaName: folder.schemaName!, tableName: folder.tableName! };
+            return result.rows.map(row => {
+                const item = this.createTableItem(
+                    folder.connectionId!,
+                    folder.databaseName!,
+                    row.schema_name,
+                    row.table_name,
+                    Boolean(row.is_partitioned),
+                    parent
+                );
+                item.description = row.partition_bound;
+                item.tooltip = [
+                    `${row.schema_name}.${row.table_name}`,
+                    `Partition of ${parent.schemaName}.${parent.tableName}`,
+                    row.partition_bound,
+                    ...(row.partition_key ? [`Partitioned by ${row.partition_key}`] : [])
+                ].join('\n');
+                return item;
+            });
+        });
+    }
+
+    private getSchemaFolders(connectionId: string, databaseName: string, schemaName: string): DatabaseTreeItem[] {
+        return SCHEMA_FOLDERS.map(([label, type]) => new DatabaseTreeItem(
+            label,
+            vscode.TreeItemCollapsibleState.Collapsed,
+            type,
+            connectionId,
+            databaseName,
+            schemaName
+        ));
+    }
+
+    private async getViews(connectionId: string, databaseName: string, schemaName: string): Promise<DatabaseTreeItem[]> {
         let client = await this.connectionManager.getClient(connectionId);
         if (!client) {
             client = await this.connectionManager.connect(connectionId);
@@ -285,33 +1004,42 @@ export class DatabaseTreeProvider implements vscode.TreeDataProvider<DatabaseTre
         this.connectionManager.markBusy(connectionId);
 
         try {
+            // pg_relation_is_updatable reports UPDATE (4), INSERT (8) and DELETE (16)
+            // support for auto-updatable views.
             const result = await client.query(`
-                SELECT schema_name 
-                FROM information_schema.schemata 
-                WHERE schema_name NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
-                ORDER BY schema_name
-            `);
+                SELECT c.relname,
+                       pg_catalog.pg_relation_is_updatable(c.oid, true) AS updatable
+                FROM pg_class c
+                JOIN pg_namespace n ON n.oid = c.relnamespace
+                WHERE n.nspname = $1
+                AND c.relkind = 'v'
+                ORDER BY c.relname
+            `, [schemaName]);
 
-            return result.rows.map(row => 
-                new DatabaseTreeItem(
-                    row.schema_name,
-                    vscode.TreeItemCollapsibleState.Collapsed,
-                    'schema',
+            return result.rows.map(row => {
+                const item = new DatabaseTreeItem(
+                    row.relname,
+                    vscode.TreeItemCollapsibleState.None,
+                    'view',
                     connectionId,
                     databaseName,
-                    row.schema_name
-                )
-            );
+                    schemaName,
+                    row.relname
+                );
+                const updatable = (Number(row.updatable) & VIEW_EDITABLE_MASK) === VIEW_EDITABLE_MASK;
+                item.description = updatable ? 'updatable' : 'read-only';
+                item.tooltip = `${schemaName}.${row.relname}\n${updatable ? 'Auto-updatable view' : 'Read-only view'}`;
+                return item;
+            });
         } catch (error) {
-            vscode.window.showErrorMessage(`Failed to load schemas: ${error}`);
+            vscode.window.showErrorMessage(`Failed to load views: ${error}`);
             return [];
         } finally {
             this.connectionManager.markIdle(connectionId);
         }
     }
 
-    private async getTables(connectionId: string, databaseName: string, schemaName: string): Promise<DatabaseTreeItem[]> {
-        // Try to get existing client, if not connected, attempt to connect
+    private async getMaterializedViews(connectionId: string, databaseName: string, schemaName: string): Promise<DatabaseTreeItem[]> {
         let client = await this.connectionManager.getClient(connectionId);
         if (!client) {
             client = await this.connectionManager.connect(connectionId);
@@ -322,32 +1050,382 @@ export class DatabaseTreeProvider implements vscode.TreeDataProvider<DatabaseTre
 
         try {
             const result = await client.query(`
-                SELECT table_name 
-                FROM information_schema.tables 
-                WHERE table_schema = $1 
-                AND table_type = 'BASE TABLE'
-                ORDER BY table_name
+                SELECT matviewname, ispopulated
+                FROM pg_matviews
+                WHERE schemaname = $1
+                ORDER BY matviewname
             `, [schemaName]);
 
-            return result.rows.map(row => 
-                new DatabaseTreeItem(
-                    row.table_name,
+            return result.rows.map(row => {
+                const item = new DatabaseTreeItem(
+                    row.matviewname,
                     vscode.TreeItemCollapsibleState.None,
-                    'table',
+                    'materializedView',
                     connectionId,
                     databaseName,
                     schemaName,
-                    row.table_name
+                    row.matviewname
+                );
+                // PostgreSQL does not track refresh times, so we can only
+                // report refreshes that were run from this extension.
+                const lastRefreshed = this.viewManager?.getLastRefreshed(connectionId, schemaName, row.matviewname);
+                if (!row.ispopulated) {
+                    item.description = 'not populated';
+                } else if (lastRefreshed) {
+                    item.description = `refreshed ${lastRefreshed.toLocaleString()}`;
+                }
+                item.tooltip = [
+                    `${schemaName}.${row.matviewname}`,
+                    row.ispopulated ? 'Populated' : 'Not populated (refresh to load data)',
+                    lastRefreshed
+                        ? `Last refreshed: ${lastRefreshed.toLocaleString()}`
+                        : 'Last refreshed: unknown (not refreshed from this editor)'
+                ].join('\n');
+                return item;
+            });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to load materialized views: ${error}`);
+            return [];
+        } finally {
+            this.connectionManager.markIdle(connectionId);
+        }
+    }
+
+    private async getFunctions(connectionId: string, databaseName: string, schemaName: string): Promise<DatabaseTreeItem[]> {
+        let client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            client = await this.connectionManager.connect(connectionId);
+            if (!client) return [];
+        }
+
+        this.connectionManager.markBusy(connectionId);
+
+        try {
+            // Skip routines owned by extensions; they are managed by the extension itself.
+            const result = await client.query(`
+                SELECT p.oid,
+                       p.proname,
+                       p.prokind,
+                       pg_catalog.pg_get_function_identity_arguments(p.oid) AS identity_arguments,
+                       pg_catalog.pg_get_function_result(p.oid) AS result_type
+                FROM pg_proc p
+                JOIN pg_namespace n ON n.oid = p.pronamespace
+                WHERE n.nspname = $1
+                AND NOT EXISTS (
+                    SELECT 1 FROM pg_depend d
+                    WHERE d.classid = 'pg_proc'::regclass
+                    AND d.objid = p.oid
+                    AND d.deptype = 'e'
                 )
-            );
+                ORDER BY p.proname, identity_arguments
+            `, [schemaName]);
+
+            return result.rows.map(row => {
+                const routine: RoutineInfo = {
+                    oid: Number(row.oid),
+                    schemaName,
+                    name: row.proname,
+                    kind: routineKindFromProkind(row.prokind),
+                    identityArguments: row.identity_arguments ?? '',
+                    resultType: row.result_type ?? null
+                };
+                const item = new DatabaseTreeItem(
+                    formatRoutineSignature(routine),
+                    vscode.TreeItemCollapsibleState.None,
+                    'function',
+                    connectionId,
+                    databaseName,
+                    schemaName
+                );
+                item.routine = routine;
+                // Distinguish kinds so menus can offer CALL for procedures
+                item.contextValue = `function.${routine.kind}`;
+                item.description = routine.kind === 'function'
+                    ? `→ ${routine.resultType ?? 'void'}`
+                    : routine.kind;
+                item.tooltip = `${schemaName}.${formatRoutineSignature(routine)}\n${routine.kind}${routine.resultType ? ` returning ${routine.resultType}` : ''}`;
+                return item;
+            });
         } catch (error) {
-            vscode.window.showErrorMessage(`Failed to load tables: ${error}`);
+            vscode.window.showErrorMessage(`Failed to load functions: ${error}`);
             return [];
         } finally {
             this.connectionManager.markIdle(connectionId);
         }
     }
 
+    private async getSequences(connectionId: string, databaseName: string, schemaName: string): Promise<DatabaseTreeItem[]> {
+        let client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            client = await this.connectionManager.connect(connectionId);
+            if (!client) return [];
+        }
+
+        this.connectionManager.markBusy(connectionId);
+
+        try {
+            const sequences = await this.sequenceManager.getSequences(connectionId, schemaName);
+            return sequences.map(sequence => {
+                const item = new DatabaseTreeItem(
+                    sequence.name,
+                    vscode.TreeItemCollapsibleState.None,
+                    'sequence',
+                    connectionId,
+                    databaseName,
+                    schemaName
+                );
+                item.sequence = sequence;
+                // Only owned sequences can be resynced to their column
+                item.contextValue = sequence.ownedBy ? 'sequence.owned' : 'sequence';
+                const owner = sequence.ownedBy
+                    ? `${sequence.ownedBy.tableName}.${sequence.ownedBy.columnName}`
+                    : null;
+                item.description = `last ${sequence.lastValue ?? '—'}${owner ? ` · ${owner}` : ''}`;
+                item.tooltip = [
+                    `${schemaName}.${sequence.name} (${sequence.dataType})`,
+                    `Last value: ${sequence.lastValue ?? 'not yet used'}`,
+                    `Increment: ${sequence.incrementBy}`,
+                    `Min: ${sequence.minValue}`,
+                    `Max: ${sequence.maxValue}`,
+                    `Cycle: ${sequence.cycle ? 'yes' : 'no'}`,
+                    `Owned by: ${sequence.ownedBy ? `${sequence.ownedBy.schemaName}.${owner}` : 'none'}`
+                ].join('\n');
+                return item;
+            });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to load sequences: ${error}`);
+            return [];
+        } finally {
+            this.connectionManager.markIdle(connectionId);
+        }
+    }
+
+    private async getTypes(connectionId: string, databaseName: string, schemaName: string): Promise<DatabaseTreeItem[]> {
+        let client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            client = await this.connectionManager.connect(connectionId);
+            if (!client) return [];
+        }
+
+        this.connectionManager.markBusy(connectionId);
+
+        try {
+            const types = await this.typeManager.getTypes(connectionId, schemaName);
+            return types.map(userType => {
+                const item = new DatabaseTreeItem(
+                    userType.name,
+                    vscode.TreeItemCollapsibleState.None,
+                    'type',
+                    connectionId,
+                    databaseName,
+                    schemaName
+                );
+                item.userType = userType;
+                item.contextValue = `type.${userType.kind}`;
+                item.iconPath = new vscode.ThemeIcon(USER_TYPE_ICONS[userType.kind]);
+
+                let details: string[];
+                if (userType.kind === 'enum') {
+                    item.description = `enum · ${userType.enumValues.length} values`;
+                    details = userType.enumValues.map(value => `  ${value}`);
+                } else if (userType.kind === 'composite') {
+                    item.description = `composite · ${userType.attributes.length} attributes`;
+                    details = userType.attributes.map(attribute => `  ${attribute}`);
+                } else if (userType.kind === 'domain') {
+                    item.description = `domain over ${userType.baseType}${userType.notNull ? ' NOT NULL' : ''}`;
+                    details = [];
+                } else {
+                    item.description = `range of ${userType.baseType}`;
+                    details = [];
+                }
+                item.tooltip = [`${schemaName}.${userType.name} (${userType.kind})`, ...details].join('\n');
+                return item;
+            });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to load types: ${error}`);
+            return [];
+        } finally {
+            this.connectionManager.markIdle(connectionId);
+        }
+    }
+
+    private getTableFolders(table: DatabaseTreeItem): DatabaseTreeItem[] {
+        const folders = table.isPartitioned ? [...TABLE_FOLDERS, PARTITIONS_FOLDER] : TABLE_FOLDERS;
+        return folders.map(([label, type]) => new DatabaseTreeItem(
+            label,
+            vscode.TreeItemCollapsibleState.Collapsed,
+            type,
+            table.connectionId,
+            table.databaseName,
+            table.schemaName,
+            table.tableName
+        ));
+    }
+
+    private createTableChild(folder: DatabaseTreeItem, label: string, type: DatabaseTreeItemType): DatabaseTreeItem {
+        return new DatabaseTreeItem(
+            label,
+            vscode.TreeItemCollapsibleState.None,
+            type,
+            folder.connectionId,
+            folder.databaseName,
+            folder.schemaName,
+            folder.tableName
+        );
+    }
+
+    // Shared connect/busy/error handling for the table sub-folders
+    private async loadTableChildren(
+        folder: DatabaseTreeItem,
+        description: string,
+        load: (client: NonNullable<Awaited<ReturnType<ConnectionManager['getClient']>>>) => Promise<DatabaseTreeItem[]>
+    ): Promise<DatabaseTreeItem[]> {
+        const connectionId = folder.connectionId!;
+        let client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            client = await this.connectionManager.connect(connectionId);
+            if (!client) return [];
+        }
+
+        this.connectionManager.markBusy(connectionId);
+
+        try {
+            return await load(client);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to load ${description}: ${error}`);
+            return [];
+        } finally {
+            this.connectionManager.markIdle(connectionId);
+        }
+    }
+
+    private async getColumns(folder: DatabaseTreeItem): Promise<DatabaseTreeItem[]> {
+        return this.loadTableChildren(folder, 'columns', async (client) => {
+            const result = await client.query(`
+                SELECT a.attname,
+                       pg_catalog.format_type(a.atttypid, a.atttypmod) AS data_type,
+                       a.attnotnull,
+                       a.attidentity,
+                       pg_catalog.pg_get_expr(d.adbin, d.adrelid) AS default_value,
+                       EXISTS (
+                           SELECT 1 FROM pg_index i
+                           WHERE i.indrelid = c.oid AND i.indisprimary AND a.attnum = ANY(i.indkey)
+                       ) AS is_primary
+                FROM pg_attribute a
+                JOIN pg_class c ON c.oid = a.attrelid
+                JOIN pg_namespace n ON n.oid = c.relnamespace
+                LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+                WHERE n.nspname = $1
+                AND c.relname = $2
+                AND a.attnum > 0
+                AND NOT a.attisdropped
+                ORDER BY a.attnum
+            `, [folder.schemaName, folder.tableName]);
+
+            return result.rows.map(row => {
+                const item = this.createTableChild(folder, row.attname, 'column');
+                const identity = row.attidentity === 'a'
+                    ? 'GENERATED ALWAYS AS IDENTITY'
+                    : row.attidentity === 'd' ? 'GENERATED BY DEFAULT AS IDENTITY' : null;
+                const defaultText = identity ?? (row.default_value ? `DEFAULT ${row.default_value}` : null);
+                item.description = [row.data_type, row.attnotnull ? 'NOT NULL' : 'NULL', defaultText]
+                    .filter(Boolean)
+                    .join(' · ');
+                item.tooltip = [
+                    `${row.attname}${row.is_primary ? ' (primary key)' : ''}`,
+                    `Type: ${row.data_type}`,
+                    `Nullable: ${row.attnotnull ? 'no' : 'yes'}`,
+                    `Default: ${defaultText ?? 'none'}`
+                ].join('\n');
+                if (row.is_primary) {
+                    item.iconPath = new vscode.ThemeIcon('key');
+                }
+                return item;
+            });
+        });
+    }
+
+    private async getIndexes(folder: DatabaseTreeItem): Promise<DatabaseTreeItem[]> {
+        return this.loadTableChildren(folder, 'indexes', async (client) => {
+            const result = await client.query(`
+                SELECT ic.relname AS index_name,
+                       i.indisunique,
+                       i.indisprimary,
+                       i.indisvalid,
+                       am.amname,
+                       pg_catalog.pg_get_indexdef(i.indexrelid) AS definition
+                FROM pg_index i
+                JOIN pg_class ic ON ic.oid = i.indexrelid
+                JOIN pg_class c ON c.oid = i.indrelid
+                JOIN pg_namespace n ON n.oid = c.relnamespace
+                JOIN pg_am am ON am.oid = ic.relam
+                WHERE n.nspname = $1
+                AND c.relname = $2
+                ORDER BY ic.relname
+            `, [folder.schemaName, folder.tableName]);
+
+            return result.rows.map(row => {
+                const item = this.createTableChild(folder, row.index_name, 'index');
+                const kind = row.indisprimary ? 'primary' : row.indisunique ? 'unique' : null;
+                item.description = [kind, row.amname, row.indisvalid ? null : 'invalid'].filter(Boolean).join(' · ');
+                item.tooltip = row.definition;
+                return item;
+            });
+        });
+    }
+
+    private async getConstraints(folder: DatabaseTreeItem): Promise<DatabaseTreeItem[]> {
+        return this.loadTableChildren(folder, 'constraints', async (client) => {
+            const result = await client.query(`
+                SELECT con.conname,
+                       con.contype,
+                       pg_catalog.pg_get_constraintdef(con.oid) AS definition
+                FROM pg_constraint con
+                JOIN pg_class c ON c.oid = con.conrelid
+                JOIN pg_namespace n ON n.oid = c.relnamespace
+                WHERE n.nspname = $1
+                AND c.relname = $2
+                ORDER BY con.contype, con.conname
+            `, [folder.schemaName, folder.tableName]);
+
+            return result.rows.map(row => {
+                const item = this.createTableChild(folder, row.conname, 'constraint');
+                item.description = CONSTRAINT_TYPE_LABELS[row.contype] ?? row.contype;
+                item.tooltip = row.definition;
+                return item;
+            });
+        });
+    }
+
+    private async getTriggers(folder: DatabaseTreeItem): Promise<DatabaseTreeItem[]> {
+        return this.loadTableChildren(folder, 'triggers', async (client) => {
+            // Internal triggers back foreign keys and must not be toggled by hand.
+            const result = await client.query(`
+                SELECT t.tgname,
+                       t.tgenabled,
+                       pg_catalog.pg_get_triggerdef(t.oid) AS definition
+                FROM pg_trigger t
+                JOIN pg_class c ON c.oid = t.tgrelid
+                JOIN pg_namespace n ON n.oid = c.relnamespace
+                WHERE n.nspname = $1
+                AND c.relname = $2
+                AND NOT t.tgisinternal
+                ORDER BY t.tgname
+            `, [folder.schemaName, folder.tableName]);
+
+            return result.rows.map(row => {
+                const item = this.createTableChild(folder, row.tgname, 'trigger');
+                const enabled = row.tgenabled !== 'D';
+                item.contextValue = enabled ? 'trigger.enabled' : 'trigger.disabled';
+                item.description = enabled
+                    ? (row.tgenabled === 'R' ? 'replica only' : row.tgenabled === 'A' ? 'always' : 'enabled')
+                    : 'disabled';
+                item.tooltip = row.definition;
+                return item;
+            });
+        });
+    }
+
     private getStatusIcon(status: ConnectionStatus): vscode.ThemeIcon {
         // Color blind users might not be able to see these, but we can still have them for people with color vision.
         switch (status) {
@@ -36,6 +36,12 @@ export class DropTableWizard {
             return;
         }
 
+        const readOnly = await this.connectionManager.getReadOnlyError(connectionId, 'dropping tables');
+        if (readOnly) {
+            vscode.window.showErrorMessage(readOnly);
+            return;
+        }
+
         const panel = vscode.window.createWebviewPanel(
             'postgresDropTable',
             `Drop ${schemaName}.${tableName}`,
@@ -0,0 +1,149 @@
+// enumEditor.ts - Prompts, previews and applies enum label changes
+
+import * as vscode from 'vscode';
+import { ConnectionManager } from './connectionManager';
+import { DatabaseTreeItem } from './databaseTreeProvider';
+import { DataEditor } from './dataEditor';
+import { TypeManager, UserTypeInfo } from './typeManager';
+import { EnumValuePosition, buildAddEnumValueSql, buildRenameEnumValueSql } from './tableSqlBuilder';
+
+// PostgreSQL stores enum labels as names, so they are limited to NAMEDATALEN - 1 bytes
+const MAX_ENUM_LABEL_BYTES = 63;
+
+type NeighborPickItem = vscode.QuickPickItem & { neighbor?: string };
+type PositionPickItem = vscode.QuickPickItem & { position: EnumValuePosition };
+
+export class EnumEditor {
+    constructor(
+        private readonly typeManager: TypeManager,
+        private readonly connectionManager: ConnectionManager,
+        private readonly dataEditor: DataEditor,
+        private readonly refreshTree: () => void
+    ) {}
+
+    async addValue(item?: DatabaseTreeItem): Promise<void> {
+        const target = await this.resolveEnum(item, 'Add Enum Value');
+        if (!target) return;
+        const { connectionId, type } = target;
+
+        const value = await vscode.window.showInputBox({
+            prompt: `New label for ${type.schemaName}.${type.name}`,
+            validateInput: (input) => this.validateLabel(input, type)
+        });
+        if (value === undefined) return;
+
+        let position: EnumValuePosition | undefined;
+        if (type.enumValues.length > 0) {
+            const neighbor = await vscode.window.showQuickPick<NeighborPickItem>(
+                [
+                    { label: '$(arrow-down) At the end', description: `after "${type.enumValues[type.enumValues.length - 1]}"` },
+                    ...type.enumValues.map(label => ({ label, neighbor: label }))
+                ],
+                { placeHolder: `Where should "${value}" go?` }
+            );
+            if (!neighbor) return;
+
+            if (neighbor.neighbor !== undefined) {
+                const placement = await vscode.window.showQuickPick<PositionPickItem>(
+                    [
+                        { label: `Before "${neighbor.neighbor}"`, position: { placement: 'BEFORE', neighbor: neighbor.neighbor } },
+                        { label: `After "${neighbor.neighbor}"`, position: { placement: 'AFTER', neighbor: neighbor.neighbor } }
+                    ],
+                    { placeHolder: `Place "${value}" before or after "${neighbor.neighbor}"?` }
+                );
+                if (!placement) return;
+                position = placement.position;
+            }
+        }
+
+        await this.previewAndApply(connectionId, type, buildAddEnumValueSql(type.schemaName, type.name, value, position));
+    }
+
+    async renameValue(item?: DatabaseTreeItem): Promise<void> {
+        const target = await this.resolveEnum(item, 'Rename Enum Value');
+        if (!target) return;
+        const { connectionId, type } = target;
+
+        if (type.enumValues.length === 0) {
+            vscode.window.showInformationMessage(`${type.schemaName}.${type.name} has no labels to rename.`);
+            return;
+        }
+
+        const from = await vscode.window.showQuickPick(type.enumValues, {
+            placeHolder: `Label of ${type.schemaName}.${type.name} to rename`
+        });
+        if (!from) return;
+
+        const to = await vscode.window.showInputBox({
+            prompt: `Rename "${from}" to`,
+            value: from,
+            validateInput: (input) => input === from ? 'Enter a different label' : this.validateLabel(input, type)
+        });
+        if (to === undefined) return;
+
+        await this.previewAndApply(connectionId, type, buildRenameEnumValueSql(type.schemaName, type.name, from, to));
+    }
+
+    private async previewAndApply(connectionId: string, type: UserTypeInfo, sql: string): Promise<void> {
+        const confirmed = await vscode.window.showWarningMessage(
+            `Update enum ${type.schemaName}.${type.name}?`,
+            { modal: true, detail: sql },
+            'Apply'
+        );
+        if (confirmed !== 'Apply') return;
+
+        try {
+            await this.typeManager.executeTypeSql(connectionId, sql);
+            // Open grids cache enum labels for their dropdowns: re-read them
+            // and reload the grids so the dropdowns offer the new labels
+            this.dataEditor.invalidateSchemaCache(connectionId);
+            await this.dataEditor.reloadConnection(connectionId);
+            vscode.window.showInformationMessage(`Enum ${type.schemaName}.${type.name} updated`);
+            this.refreshTree();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to update enum: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private validateLabel(input: string, type: UserTypeInfo): string | null {
+        if (input.length === 0) {
+            return 'Enter a label';
+        }
+        if (Buffer.byteLength(input, 'utf8') > MAX_ENUM_LABEL_BYTES) {
+            return `Labels are limited to ${MAX_ENUM_LABEL_BYTES} bytes`;
+        }
+        if (type.enumValues.includes(input)) {
+            return `"${input}" already exists`;
+        }
+        return null;
+    }
+
+    /**
+     * Re-read the enum so positions are offered against its current labels.
+     */
+    private async resolveEnum(item: DatabaseTreeItem | undefined, action: string): Promise<{ connectionId: string; type: UserTypeInfo } | null> {
+        if (!item || item.type !== 'type' || !item.connectionId || item.userType?.kind !== 'enum') {
+            vscode.window.showErrorMessage(`${action} must be invoked on an enum type node.`);
+            return null;
+        }
+
+        const readOnly = await this.connectionManager.getReadOnlyError(item.connectionId, 'changing enum types');
+        if (readOnly) {
+            vscode.window.showErrorMessage(readOnly);
+            return null;
+        }
+
+        try {
+            const [type] = await this.typeManager.getTypes(item.connectionId, item.userType.schemaName, item.userType.name);
+            if (!type) {
+                vscode.window.showErrorMessage(`Type ${item.userType.schemaName}.${item.userType.name} no longer exists.`);
+                this.refreshTree();
+                return null;
+            }
+            return { connectionId: item.connectionId, type };
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to load type: ${error instanceof Error ? error.message : String(error)}`);
+            return null;
+        }
+    }
+}
@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import { ConnectionManager, ConnectionConfig } from './connectionManager';
-import { DatabaseTreeItem, DatabaseTreeProvider } from './databaseTreeProvider';
+import { DatabaseTreeItem, DatabaseTreeProvider, toTableItem } from './databaseTreeProvider';
 import { DataEditor } from './dataEditor';
 import { SchemaDesigner } from './schemaDesigner';
 import { CreateTableWizard } from './createTableWizard';
@@ -11,10 +11,31 @@ import { QueryHistory } from './queryHistory';
 import { QueryHistoryView } from './queryHistoryView';
 import { SqlTerminalProvider } from './sqlTerminalProvider';
 import { SqlEditor } from './sqlEditor';
+import { ConnectionHealthStatusBar } from './connectionHealthStatusBar';
 import { IndexManagerView } from './indexManagerView';
 import { PermissionsManagerView } from './permissionsManagerView';
 import { TableStatsViewProvider } from './tableStatsViewProvider';
+import { ConnectionDetailsViewProvider } from './connectionDetailsViewProvider';
+import { connectionFieldsToParameters, formatConnectionUri, formatConninfo } from './connectionString';
 import { BackupRestoreManager } from './backupRestoreManager';
+import { ViewManager } from './viewManager';
+import { FunctionManager } from './functionManager';
+import { FunctionEditor } from './functionEditor';
+import { SequenceManager } from './sequenceManager';
+import { SequenceEditor } from './sequenceEditor';
+import { TriggerManager } from './triggerManager';
+import { ObjectCatalog } from './objectCatalog';
+import { GoToObject } from './goToObject';
+import { TypeManager } from './typeManager';
+import { EnumEditor } from './enumEditor';
+import { ExtensionManager } from './extensionManager';
+import { ExtensionEditor } from './extensionEditor';
+import { PartitionManager } from './partitionManager';
+import { PartitionEditor } from './partitionEditor';
+import { TableShortcuts } from './tableShortcuts';
+import { ConnectionImporter } from './connectionImporter';
+import { WORKSPACE_CONNECTIONS_FILE, WorkspaceConnections } from './workspaceConnections';
+import { buildSetTriggerEnabledSql } from './tableSqlBuilder';
 import { info } from './logger';
 
 export function activate(context: vscode.ExtensionContext) {
@@ -44,20 +65,42 @@ export function activate(context: vscode.ExtensionContext) {
         }
         void vscode.commands.executeCommand('setContext', 'postgresHasConnecting', connectingSet.size > 0);
     });
-    const treeProvider = new DatabaseTreeProvider(connectionManager);
+    const viewManager = new ViewManager(context, connectionManager);
+    const tableShortcuts = new TableShortcuts(context);
+    const treeProvider = new DatabaseTreeProvider(connectionManager, viewManager, tableShortcuts);
     const schemaDesigner = new SchemaDesigner(context, connectionManager);
     const createTableWizard = new CreateTableWizard(context, connectionManager, () => treeProvider.refresh());
     const dropTableWizard = new DropTableWizard(context, connectionManager, () => treeProvider.refresh());
     const addConnectionWizard = new (require('./addConnectionWizard').AddConnectionWizard)(context, connectionManager, () => treeProvider.refresh());
+    const connectionImporter = new ConnectionImporter(connectionManager, () => treeProvider.refresh());
+    const workspaceConnections = new WorkspaceConnections(connectionManager, () => treeProvider.refresh());
+    void workspaceConnections.load().then(() => treeProvider.refresh());
+    context.subscriptions.push(
+        workspaceConnections.watch(),
+        vscode.workspace.onDidChangeWorkspaceFolders(async () => {
+            await workspaceConnections.load();
+            treeProvider.refresh();
+        })
+    );
     const queryHistory = new QueryHistory(context);
     const queryHistoryView = new QueryHistoryView(context, queryHistory);
-    const dataEditor = new DataEditor(context, connectionManager, queryHistory);
+    const dataEditor = new DataEditor(context, connectionManager, queryHistory, tableShortcuts);
+    // Open tables reload quietly instead of failing their next query
+    connectionManager.onReconnect(({ id }) => { void dataEditor.reloadConnection(id); });
     const sqlTerminalProvider = new SqlTerminalProvider(context, connectionManager, queryHistory);
     // SQL Editor (CodeLens, completion, run-from-editor, per-doc connections)
     const sqlEditor = new SqlEditor(context, connectionManager, sqlTerminalProvider, queryHistory);
+    new ConnectionHealthStatusBar(context, connectionManager, sqlEditor);
+    const functionEditor = new FunctionEditor(context, new FunctionManager(connectionManager), connectionManager, sqlEditor, () => treeProvider.refresh());
+    const sequenceEditor = new SequenceEditor(new SequenceManager(connectionManager), connectionManager, () => treeProvider.refresh());
+    const extensionEditor = new ExtensionEditor(new ExtensionManager(connectionManager), connectionManager, () => treeProvider.refresh());
+    const partitionEditor = new PartitionEditor(new PartitionManager(connectionManager), connectionManager, () => treeProvider.refresh());
+    const triggerManager = new TriggerManager(connectionManager);
+    const enumEditor = new EnumEditor(new TypeManager(connectionManager), connectionManager, dataEditor, () => treeProvider.refresh());
     const indexManagerView = new IndexManagerView(context, connectionManager);
     const permissionsManagerView = new PermissionsManagerView(context, connectionManager);
     const tableStatsViewProvider = new TableStatsViewProvider(context, connectionManager);
+    const connectionDetailsViewProvider = new ConnectionDetailsViewProvider(connectionManager);
     const backupRestoreManager = new BackupRestoreManager(connectionManager);
 
     // Register tree view
@@ -66,6 +109,17 @@ export function activate(context: vscode.ExtensionContext) {
         showCollapseAll: true
     });
 
+    // Object catalog for "Go to Object"; anything that refreshes the explorer
+    // (DDL, connects, disconnects) may have changed it.
+    const objectCatalog = new ObjectCatalog(connectionManager);
+    const goToObject = new GoToObject(objectCatalog, treeView, dataEditor, schemaDesigner, functionEditor);
+    context.subscriptions.push(treeProvider.onDidChangeTreeData((element) => {
+        // Element refreshes (e.g. Favorites/Recent) do not change the database objects
+        if (!element) {
+            objectCatalog.invalidate();
+        }
+    }));
+
     // Register Query History webview view
     context.subscriptions.push(
         vscode.window.registerWebviewViewProvider(
@@ -117,12 +171,55 @@ export function activate(context: vscode.ExtensionContext) {
         };
     };
 
+    const setTriggerEnabled = async (item: DatabaseTreeItem | undefined, enabled: boolean): Promise<void> => {
+        const action = enabled ? 'Enable' : 'Disable';
+        if (!item || item.type !== 'trigger' || !item.connectionId || !item.schemaName || !item.tableName) {
+            vscode.window.showErrorMessage(`${action} Trigger must be invoked on a trigger node.`);
+            return;
+        }
+
+        const readOnly = await connectionManager.getReadOnlyError(item.connectionId, 'enabling and disabling triggers');
+        if (readOnly) {
+            vscode.window.showErrorMessage(readOnly);
+            return;
+        }
+
+        const triggerName = asString(item.label);
+        const sql = buildSetTriggerEnabledSql(item.schemaName, item.tableName, triggerName, enabled);
+        const confirmed = await vscode.window.showWarningMessage(
+            `${action} trigger ${triggerName} on ${item.schemaName}.${item.tableName}?`,
+            { modal: true, detail: sql },
+            'Apply'
+        );
+        if (confirmed !== 'Apply') return;
+
+        try {
+            await triggerManager.setTriggerEnabled(item.connectionId, item.schemaName, item.tableName, triggerName, enabled);
+            vscode.window.showInformationMessage(`Trigger ${triggerName} ${enabled ? 'enabled' : 'disabled'}`);
+            treeProvider.refresh();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to ${action.toLowerCase()} trigger: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
     // Register commands
     context.subscriptions.push(
         vscode.commands.registerCommand('postgres-editor.addConnection', async () => {
             await addConnectionWizard.openWizard();
         }),
 
+        vscode.commands.registerCommand('postgres-editor.importConnections', async () => {
+            await connectionImporter.importConnections();
+        }),
+
+        vscode.commands.registerCommand('postgres-editor.exportWorkspaceConnections', async () => {
+            await workspaceConnections.exportConnections();
+        }),
+
+        vscode.commands.registerCommand('postgres-editor.importWorkspaceConnections', async () => {
+            await workspaceConnections.importConnections();
+        }),
+
         vscode.commands.registerCommand('postgres-editor.addConnectionFromOtherDb', async (item: DatabaseTreeItem) => {
             // Get the connection config to prefill values
             if (item && item.connectionId && item.databaseName) {
@@ -145,7 +242,11 @@ export function activate(context: vscode.ExtensionContext) {
             if (item && item.connectionId) {
                 const configs = await connectionManager.getConnections();
                 const config = configs.find(c => c.id === item.connectionId);
-                if (config) {
+                const folder = config?.workspaceFolder && vscode.workspace.workspaceFolders?.find(f => f.name === config.workspaceFolder);
+                if (folder) {
+                    // Shared connections are edited in the file the team commits
+                    await vscode.window.showTextDocument(vscode.Uri.joinPath(folder.uri, WORKSPACE_CONNECTIONS_FILE));
+                } else if (config) {
                     // Open wizard with prefilled values and edit mode (do NOT prefill password)
                     await addConnectionWizard.openWizard({
                         ...config,
@@ -155,9 +256,33 @@ export function activate(context: vscode.ExtensionContext) {
             }
         }),
 
+        vscode.commands.registerCommand('postgres-editor.showConnectionDetails', async (item?: DatabaseTreeItem) => {
+            const target = await resolveConnectionTarget(item);
+            if (!target) return;
+            await connectionDetailsViewProvider.openDetailsView(target.id, target.name);
+        }),
+
+        vscode.commands.registerCommand('postgres-editor.copyConnectionString', async (item?: DatabaseTreeItem) => {
+            const target = await resolveConnectionTarget(item);
+            if (!target) return;
+            const config = (await connectionManager.getConnections()).find(c => c.id === target.id);
+            if (!config) return;
+
+            // The password stays in SecretStorage
+            const connectionString = config.service
+                ? formatConninfo({ service: config.service })
+                : formatConnectionUri(connectionFieldsToParameters(config));
+            await vscode.env.clipboard.writeText(connectionString);
+            vscode.window.showInformationMessage(`Connection string of "${target.name}" copied to clipboard (without password)`);
+        }),
+
         vscode.commands.registerCommand('postgres-editor.deleteConnection', async (item) => {
             if (item && item.connectionId) {
                 await connectionManager.deleteConnection(item.connectionId);
+                const configs = await connectionManager.getConnections();
+                if (!configs.some(c => c.id === item.connectionId)) {
+                    await tableShortcuts.removeConnection(item.connectionId);
+                }
                 treeProvider.refresh();
             }
         }),
@@ -188,7 +313,7 @@ export function activate(context: vscode.ExtensionContext) {
                     connectionManager.cancelConnect(target.id);
                 });
 
-                const client = await connectionManager.connect(target.id, status === 'error');
+                const client = await connectionManager.connect(target.id, status === 'error', progress);
                 if (client) {
                     vscode.window.showInformationMessage(`Connected to "${target.name}"`);
                     treeProvider.refresh();
@@ -235,7 +360,7 @@ export function activate(context: vscode.ExtensionContext) {
                     connectionManager.cancelConnect(target.id);
                 });
 
-                const client = await connectionManager.connect(target.id, true);
+                const client = await connectionManager.connect(target.id, true, progress);
                 if (client) {
                     vscode.window.showInformationMessage(`Reconnected to "${target.name}"`);
                     treeProvider.refresh();
@@ -315,11 +440,95 @@ export function activate(context: vscode.ExtensionContext) {
         }),
 
         vscode.commands.registerCommand('postgres-editor.openTable', async (item) => {
-            if (item && item.type === 'table') {
+            if (item && (item.type === 'table' || item.type === 'view' || item.type === 'materializedView')) {
+                // Favorites and recents can be opened before their connection is
+                if (item.connectionId && !(await connectionManager.getClient(item.connectionId))) {
+                    if (!(await connectionManager.connect(item.connectionId))) return;
+                }
                 await dataEditor.openTable(item);
             }
         }),
 
+        vscode.commands.registerCommand('postgres-editor.addFavoriteTable', async (item?: DatabaseTreeItem) => {
+            const table = item && toTableItem(item);
+            if (!table?.connectionId || !table.databaseName || !table.schemaName || !table.tableName) {
+                vscode.window.showErrorMessage('Add to Favorites must be invoked on a table node.');
+                return;
+            }
+            await tableShortcuts.addFavorite({
+                connectionId: table.connectionId,
+                databaseName: table.databaseName,
+                schemaName: table.schemaName,
+                tableName: table.tableName,
+                kind: 'table'
+            });
+        }),
+
+        vscode.commands.registerCommand('postgres-editor.removeFavoriteTable', async (item?: DatabaseTreeItem) => {
+            const table = item && toTableItem(item);
+            if (!table?.connectionId || !table.schemaName || !table.tableName) {
+                vscode.window.showErrorMessage('Remove from Favorites must be invoked on a table node.');
+                return;
+            }
+            await tableShortcuts.removeFavorite({
+                connectionId: table.connectionId,
+                schemaName: table.schemaName,
+                tableName: table.tableName
+            });
+        }),
+
+        vscode.commands.registerCommand('postgres-editor.clearRecentTables', async () => {
+            await tableShortcuts.clearRecents();
+        }),
+
+        vscode.commands.registerCommand('postgres-editor.refreshMaterializedView', async (item?: DatabaseTreeItem) => {
+            if (!item || item.type !== 'materializedView' || !item.connectionId || !item.schemaName || !item.tableName) {
+                vscode.window.showErrorMessage('Refresh Materialized View must be invoked on a materialized view node.');
+                return;
+            }
+
+            const { connectionId, schemaName, tableName } = item;
+            const readOnly = await connectionManager.getReadOnlyError(connectionId, 'refreshing materialized views');
+            if (readOnly) {
+                vscode.window.showErrorMessage(readOnly);
+                return;
+            }
+
+            let canConcurrently = false;
+            try {
+                canConcurrently = await viewManager.canRefreshConcurrently(connectionId, schemaName, tableName);
+            } catch {
+                // Fall through; PostgreSQL will report why a concurrent refresh is not possible.
+            }
+
+            const mode = await vscode.window.showQuickPick([
+                { label: 'Refresh', concurrently: false, description: 'Locks the view against reads while it refreshes' },
+                {
+                    label: 'Refresh CONCURRENTLY',
+                    concurrently: true,
+                    description: canConcurrently
+                        ? 'Keeps the view readable during the refresh'
+                        : 'Requires a populated view with a unique index'
+                }
+            ], { placeHolder: `Refresh ${schemaName}.${tableName}` });
+
+            if (!mode) return;
+
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Refreshing materialized view "${schemaName}.${tableName}"`,
+                cancellable: false
+            }, async () => {
+                try {
+                    await viewManager.refreshMaterializedView(connectionId, schemaName, tableName, mode.concurrently);
+                    vscode.window.showInformationMessage(`Materialized view ${schemaName}.${tableName} refreshed`);
+                    treeProvider.refresh();
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Failed to refresh materialized view: ${error}`);
+                }
+            });
+        }),
+
         vscode.commands.registerCommand('postgres-editor.openTableWithWhere', async (args: { 
             connectionId: string; 
             schemaName: string; 
@@ -337,21 +546,105 @@ export function activate(context: vscode.ExtensionContext) {
             await dataEditor.openTable(mockItem as DatabaseTreeItem, args.whereClause || '');
         }),
 
+        vscode.commands.registerCommand('postgres-editor.openFunction', async (item?: DatabaseTreeItem) => {
+            if (!item || item.type !== 'function') {
+                vscode.window.showErrorMessage('Open Function must be invoked on a function node.');
+                return;
+            }
+
+            await functionEditor.openRoutine(item);
+        }),
+
+        vscode.commands.registerCommand('postgres-editor.dropFunction', async (item?: DatabaseTreeItem) => {
+            if (!item || item.type !== 'function') {
+                vscode.window.showErrorMessage('Drop Function must be invoked on a function node.');
+                return;
+            }
+
+            await functionEditor.dropRoutine(item);
+        }),
+
+        vscode.commands.registerCommand('postgres-editor.scriptFunction', async (item?: DatabaseTreeItem) => {
+            if (!item || item.type !== 'function') {
+                vscode.window.showErrorMessage('Script as CALL/SELECT must be invoked on a function node.');
+                return;
+            }
+
+            await functionEditor.scriptRoutine(item);
+        }),
+
+        vscode.commands.registerCommand('postgres-editor.setSequenceValue', async (item?: DatabaseTreeItem) => {
+            await sequenceEditor.setValue(item);
+        }),
+
+        vscode.commands.registerCommand('postgres-editor.restartSequence', async (item?: DatabaseTreeItem) => {
+            await sequenceEditor.restart(item);
+        }),
+
+        vscode.commands.registerCommand('postgres-editor.resyncSequence', async (item?: DatabaseTreeItem) => {
+            await sequenceEditor.resync(item);
+        }),
+
+        vscode.commands.registerCommand('postgres-editor.addEnumValue', async (item?: DatabaseTreeItem) => {
+            await enumEditor.addValue(item);
+        }),
+
+        vscode.commands.registerCommand('postgres-editor.renameEnumValue', async (item?: DatabaseTreeItem) => {
+            await enumEditor.renameValue(item);
+        }),
+
+        vscode.commands.registerCommand('postgres-editor.installExtension', async (item?: DatabaseTreeItem) => {
+            await extensionEditor.install(item);
+        }),
+
+        vscode.commands.registerCommand('postgres-editor.upgradeExtension', async (item?: DatabaseTreeItem) => {
+            await extensionEditor.upgrade(item);
+        }),
+
+        vscode.commands.registerCommand('postgres-editor.dropExtension', async (item?: DatabaseTreeItem) => {
+            await extensionEditor.drop(item);
+        }),
+
+        vscode.commands.registerCommand('postgres-editor.createPartition', async (item?: DatabaseTreeItem) => {
+            await partitionEditor.createPartition(item);
+        }),
+
+        vscode.commands.registerCommand('postgres-editor.attachPartition', async (item?: DatabaseTreeItem) => {
+            await partitionEditor.attachPartition(item);
+        }),
+
+        vscode.commands.registerCommand('postgres-editor.detachPartition', async (item?: DatabaseTreeItem) => {
+            await partitionEditor.detachPartition(item);
+        }),
+
+        vscode.commands.registerCommand('postgres-editor.enableTrigger', async (item?: DatabaseTreeItem) => {
+            await setTriggerEnabled(item, true);
+        }),
+
+        vscode.commands.registerCommand('postgres-editor.disableTrigger', async (item?: DatabaseTreeItem) => {
+            await setTriggerEnabled(item, false);
+        }),
+
+        vscode.commands.registerCommand('postgres-editor.goToObject', async () => {
+            await goToObject.show();
+        }),
+
         vscode.commands.registerCommand('postgres-editor.createTable', async (item?: DatabaseTreeItem) => {
             await createTableWizard.openWizard(item);
         }),
 
         vscode.commands.registerCommand('postgres-editor.alterTable', async (item: DatabaseTreeItem) => {
-            if (!item || item.type !== 'table') {
+            const table = toTableItem(item);
+            if (!table) {
                 vscode.window.showErrorMessage('Alter Table must be invoked on a table node.');
                 return;
             }
 
-            await schemaDesigner.openDesigner(item);
+            await schemaDesigner.openDesigner(table);
         }),
 
         vscode.commands.registerCommand('postgres-editor.dropTable', async (item?: DatabaseTreeItem) => {
-            await dropTableWizard.openWizard(item);
+            await dropTableWizard.openWizard(toTableItem(item) ?? item);
         }),
 
         vscode.commands.registerCommand('postgres-editor.exportTableAsCSV', async (item?: DatabaseTreeItem) => {
@@ -464,12 +757,13 @@ export function activate(context: vscode.ExtensionContext) {
         }),
 
         vscode.commands.registerCommand('postgres-editor.manageIndexes', async (item?: DatabaseTreeItem) => {
-            if (!item || item.type !== 'table') {
+            const table = toTableItem(item);
+            if (!table) {
                 vscode.window.showErrorMessage('Manage Indexes must be invoked on a table node.');
                 return;
             }
 
-            await indexManagerView.openIndexManager(item);
+            await indexManagerView.openIndexManager(table);
         }),
 
         vscode.commands.registerCommand('postgres-editor.managePermissions', async (item?: DatabaseTreeItem) => {
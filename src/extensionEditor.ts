@@ -0,0 +1,162 @@
+// extensionEditor.ts - Prompts, previews and applies extension install/upgrade/drop
+
+import * as vscode from 'vscode';
+import { ConnectionManager } from './connectionManager';
+import { DatabaseTreeItem } from './databaseTreeProvider';
+import { ExtensionInfo, ExtensionManager } from './extensionManager';
+import { buildCreateExtensionSql, buildDropExtensionSql, buildUpdateExtensionSql } from './tableSqlBuilder';
+
+type SchemaPickItem = vscode.QuickPickItem & { schema?: string };
+
+export class ExtensionEditor {
+    constructor(
+        private readonly extensionManager: ExtensionManager,
+        private readonly connectionManager: ConnectionManager,
+        private readonly refreshTree: () => void
+    ) {}
+
+    async install(item?: DatabaseTreeItem): Promise<void> {
+        const target = await this.resolveExtension(item, 'Install Extension');
+        if (!target) return;
+        const { connectionId, extension } = target;
+
+        if (extension.installedVersion) {
+            vscode.window.showInformationMessage(`${extension.name} ${extension.installedVersion} is already installed in schema ${extension.schemaName}.`);
+            return;
+        }
+
+        let schemas: string[];
+        try {
+            schemas = await this.extensionManager.getSchemaNames(connectionId);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to load schemas: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+
+        const schemaPick = await vscode.window.showQuickPick<SchemaPickItem>(
+            [
+                { label: 'Default schema', description: 'the extension\'s own schema, or the first schema on the search_path' },
+                ...schemas.map(schema => ({ label: schema, schema }))
+            ],
+            { placeHolder: `Install ${extension.name} into which schema?` }
+        );
+        if (!schemaPick) return;
+
+        const sql = buildCreateExtensionSql(extension.name, { schema: schemaPick.schema });
+        const version = extension.defaultVersion ? ` ${extension.defaultVersion}` : '';
+        const choice = await vscode.window.showWarningMessage(
+            `Install extension ${extension.name}${version}?`,
+            {
+                modal: true,
+                detail: `${sql}\n\nInstall CASCADE also installs any extensions ${extension.name} requires.`
+            },
+            'Install',
+            'Install CASCADE'
+        );
+        if (!choice) return;
+
+        const cascade = choice === 'Install CASCADE';
+        await this.apply(
+            connectionId,
+            buildCreateExtensionSql(extension.name, { schema: schemaPick.schema, cascade }),
+            `Installed extension ${extension.name}`,
+            'install'
+        );
+    }
+
+    async upgrade(item?: DatabaseTreeItem): Promise<void> {
+        const target = await this.resolveExtension(item, 'Upgrade Extension');
+        if (!target) return;
+        const { connectionId, extension } = target;
+
+        if (!extension.installedVersion) {
+            vscode.window.showErrorMessage(`${extension.name} is not installed.`);
+            return;
+        }
+        if (!extension.defaultVersion || extension.defaultVersion === extension.installedVersion) {
+            vscode.window.showInformationMessage(`${extension.name} ${extension.installedVersion} is already the newest version available on the server.`);
+            return;
+        }
+
+        const sql = buildUpdateExtensionSql(extension.name, extension.defaultVersion);
+        const confirmed = await vscode.window.showWarningMessage(
+            `Upgrade extension ${extension.name} from ${extension.installedVersion} to ${extension.defaultVersion}?`,
+            { modal: true, detail: sql },
+            'Apply'
+        );
+        if (confirmed !== 'Apply') return;
+
+        await this.apply(connectionId, sql, `Upgraded extension ${extension.name} to ${extension.defaultVersion}`, 'upgrade');
+    }
+
+    async drop(item?: DatabaseTreeItem): Promise<void> {
+        const target = await this.resolveExtension(item, 'Drop Extension');
+        if (!target) return;
+        const { connectionId, extension } = target;
+
+        if (!extension.installedVersion) {
+            vscode.window.showErrorMessage(`${extension.name} is not installed.`);
+            return;
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `Drop extension ${extension.name}?`,
+            { modal: true, detail: buildDropExtensionSql(extension.name) },
+            'Drop',
+            'Drop CASCADE'
+        );
+        if (!choice) return;
+
+        const cascade = choice === 'Drop CASCADE';
+        if (cascade) {
+            const confirmed = await vscode.window.showWarningMessage(
+                `CASCADE also drops every column, view and function that depends on ${extension.name}. Continue?`,
+                { modal: true, detail: buildDropExtensionSql(extension.name, true) },
+                'Drop CASCADE'
+            );
+            if (confirmed !== 'Drop CASCADE') return;
+        }
+
+        await this.apply(connectionId, buildDropExtensionSql(extension.name, cascade), `Dropped extension ${extension.name}`, 'drop');
+    }
+
+    private async apply(connectionId: string, sql: string, successMessage: string, action: string): Promise<void> {
+        try {
+            await this.extensionManager.executeExtensionDdl(connectionId, sql);
+            vscode.window.showInformationMessage(successMessage);
+            this.refreshTree();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to ${action} extension: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Re-read the extension so actions run against its current state rather
+     * than what the tree displayed when it was last expanded.
+     */
+    private async resolveExtension(item: DatabaseTreeItem | undefined, action: string): Promise<{ connectionId: string; extension: ExtensionInfo } | null> {
+        if (!item || item.type !== 'extension' || !item.connectionId || !item.extension) {
+            vscode.window.showErrorMessage(`${action} must be invoked on an extension node.`);
+            return null;
+        }
+
+        const readOnly = await this.connectionManager.getReadOnlyError(item.connectionId, 'changing extensions');
+        if (readOnly) {
+            vscode.window.showErrorMessage(readOnly);
+            return null;
+        }
+
+        try {
+            const [extension] = await this.extensionManager.getExtensions(item.connectionId, item.extension.name);
+            if (!extension) {
+                vscode.window.showErrorMessage(`Extension ${item.extension.name} is no longer available on the server.`);
+                this.refreshTree();
+                return null;
+            }
+            return { connectionId: item.connectionId, extension };
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to load extension: ${error instanceof Error ? error.message : String(error)}`);
+            return null;
+        }
+    }
+}
@@ -0,0 +1,111 @@
+/**
+ * Extension Management for PostgreSQL Data Editor
+ * Provides operations for listing, installing, upgrading and dropping
+ * PostgreSQL extensions (pg_extension / pg_available_extensions)
+ */
+
+import { ConnectionManager } from './connectionManager';
+import { info, debug } from './logger';
+
+export interface ExtensionInfo {
+    name: string;
+    // null when the extension is available but not installed
+    installedVersion: string | null;
+    // null when an installed extension has no control file on the server any more
+    defaultVersion: string | null;
+    schemaName: string | null;
+    comment: string | null;
+}
+
+export class ExtensionManager {
+    constructor(private connectionManager: ConnectionManager) {}
+
+    /**
+     * Get installed and available extensions of the connected database
+     */
+    async getExtensions(connectionId: string, extensionName?: string): Promise<ExtensionInfo[]> {
+        const client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            throw new Error('Could not connect to database');
+        }
+
+        try {
+            const result = await client.query(`
+                SELECT COALESCE(e.extname, a.name) AS name,
+                       e.extversion AS installed_version,
+                       a.default_version,
+                       n.nspname AS schema_name,
+                       a.comment
+                FROM pg_available_extensions a
+                FULL OUTER JOIN pg_extension e ON e.extname = a.name
+                LEFT JOIN pg_namespace n ON n.oid = e.extnamespace
+                WHERE ($1::text IS NULL OR COALESCE(e.extname, a.name) = $1)
+                ORDER BY 1
+            `, [extensionName ?? null]);
+
+            return result.rows.map(row => ({
+                name: row.name,
+                installedVersion: row.installed_version ?? null,
+                defaultVersion: row.default_version ?? null,
+                schemaName: row.schema_name ?? null,
+                comment: row.comment ?? null
+            }));
+        } catch (err) {
+            debug(`Error fetching extensions: ${err}`);
+            throw err;
+        }
+    }
+
+    /**
+     * Get the schemas an extension can be installed into
+     */
+    async getSchemaNames(connectionId: string): Promise<string[]> {
+        const client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            throw new Error('Could not connect to database');
+        }
+
+        try {
+            const result = await client.query(`
+                SELECT nspname
+                FROM pg_namespace
+                WHERE nspname NOT LIKE 'pg\\_%'
+                AND nspname <> 'information_schema'
+                ORDER BY nspname
+            `);
+            return result.rows.map(row => row.nspname);
+        } catch (err) {
+            debug(`Error fetching schemas: ${err}`);
+            throw err;
+        }
+    }
+
+    /**
+     * Run a CREATE / ALTER / DROP EXTENSION statement in a transaction
+     */
+    async executeExtensionDdl(connectionId: string, sql: string): Promise<void> {
+        const client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            throw new Error('Could not connect to database');
+        }
+
+        this.connectionManager.markBusy(connectionId);
+
+        try {
+            await client.query('BEGIN');
+            await client.query(sql);
+            await client.query('COMMIT');
+            info('Extension DDL executed successfully');
+        } catch (err) {
+            try {
+                await client.query('ROLLBACK');
+            } catch {
+                // Ignore rollback failures; the original error is more useful.
+            }
+            debug(`Error executing extension DDL: ${err}`);
+            throw err;
+        } finally {
+            this.connectionManager.markIdle(connectionId);
+        }
+    }
+}
@@ -0,0 +1,240 @@
+// functionEditor.ts - Opens function/procedure source in a text editor and
+// applies saved edits back to the database
+
+import * as vscode from 'vscode';
+import { ConnectionManager } from './connectionManager';
+import { DatabaseTreeItem } from './databaseTreeProvider';
+import { FunctionManager } from './functionManager';
+import { SqlEditor } from './sqlEditor';
+import {
+    RoutineInfo,
+    buildDropRoutineSql,
+    buildRoutineInvocationSql,
+    buildRoutineReplacement,
+    formatRoutineSignature
+} from './routineSqlBuilder';
+
+export const FUNCTION_SOURCE_SCHEME = 'postgres-function';
+
+interface RoutineDocument {
+    connectionId: string;
+    routine: RoutineInfo;
+    originalSource: string;
+    mtime: number;
+}
+
+/**
+ * Virtual file system backing the routine source editors. Reading a file
+ * loads pg_get_functiondef output; writing one previews the CREATE OR
+ * REPLACE statement and runs it once the user confirms.
+ */
+export class FunctionEditor implements vscode.FileSystemProvider {
+    private readonly changeEmitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile = this.changeEmitter.event;
+    private readonly documents = new Map<string, RoutineDocument>();
+
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        private readonly functionManager: FunctionManager,
+        private readonly connectionManager: ConnectionManager,
+        private readonly sqlEditor: SqlEditor,
+        private readonly refreshTree: () => void
+    ) {
+        context.subscriptions.push(
+            vscode.workspace.registerFileSystemProvider(FUNCTION_SOURCE_SCHEME, this, { isCaseSensitive: true })
+        );
+    }
+
+    async openRoutine(item: DatabaseTreeItem): Promise<void> {
+        const routine = item.routine;
+        if (!routine || !item.connectionId) {
+            vscode.window.showErrorMessage('Unable to open function - missing connection or function information.');
+            return;
+        }
+
+        if (routine.kind === 'aggregate') {
+            vscode.window.showInformationMessage(
+                `${routine.schemaName}.${formatRoutineSignature(routine)} is an aggregate; PostgreSQL cannot generate its source. Use "Script as SELECT" or "Drop Function" instead.`
+            );
+            return;
+        }
+
+        const uri = this.buildUri(item.connectionId, routine);
+        if (!this.documents.has(uri.toString())) {
+            this.documents.set(uri.toString(), {
+                connectionId: item.connectionId,
+                routine,
+                originalSource: '',
+                mtime: Date.now()
+            });
+        }
+
+        try {
+            const doc = await vscode.workspace.openTextDocument(uri);
+            await vscode.languages.setTextDocumentLanguage(doc, 'postgresql');
+            await vscode.window.showTextDocument(doc, { preview: false });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to open function source: ${error}`);
+        }
+    }
+
+    async dropRoutine(item: DatabaseTreeItem): Promise<void> {
+        const routine = item.routine;
+        if (!routine || !item.connectionId) {
+            vscode.window.showErrorMessage('Drop Function must be invoked on a function node.');
+            return;
+        }
+
+        const readOnly = await this.connectionManager.getReadOnlyError(item.connectionId, 'dropping functions');
+        if (readOnly) {
+            vscode.window.showErrorMessage(readOnly);
+            return;
+        }
+
+        const signature = `${routine.schemaName}.${formatRoutineSignature(routine)}`;
+        const choice = await vscode.window.showWarningMessage(
+            `Drop ${routine.kind} ${signature}?`,
+            { modal: true, detail: buildDropRoutineSql(routine) },
+            'Drop',
+            'Drop CASCADE'
+        );
+        if (!choice) {
+            return;
+        }
+
+        const cascade = choice === 'Drop CASCADE';
+        if (cascade) {
+            const confirmed = await vscode.window.showWarningMessage(
+                `CASCADE also drops every object that depends on ${signature}. Continue?`,
+                { modal: true, detail: buildDropRoutineSql(routine, true) },
+                'Drop CASCADE'
+            );
+            if (confirmed !== 'Drop CASCADE') {
+                return;
+            }
+        }
+
+        try {
+            await this.functionManager.executeRoutineDdl(item.connectionId, buildDropRoutineSql(routine, cascade));
+            vscode.window.showInformationMessage(`Dropped ${routine.kind} ${signature}`);
+            this.refreshTree();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to drop ${routine.kind}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    async scriptRoutine(item: DatabaseTreeItem): Promise<void> {
+        const routine = item.routine;
+        if (!routine || !item.connectionId) {
+            vscode.window.showErrorMessage('Script as CALL/SELECT must be invoked on a function node.');
+            return;
+        }
+
+        try {
+            const args = await this.functionManager.getRoutineArguments(item.connectionId, routine.oid);
+            const content = `${buildRoutineInvocationSql(routine, args)}\n`;
+            const doc = await vscode.workspace.openTextDocument({ language: 'postgresql', content });
+            await this.sqlEditor.setConnectionForDocument(doc, item.connectionId, routine.schemaName);
+            await vscode.window.showTextDocument(doc, { preview: false });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to script ${routine.kind}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    watch(): vscode.Disposable {
+        return new vscode.Disposable(() => {});
+    }
+
+    stat(uri: vscode.Uri): vscode.FileStat {
+        const doc = this.getDocument(uri);
+        return {
+            type: vscode.FileType.File,
+            ctime: doc.mtime,
+            mtime: doc.mtime,
+            size: Buffer.byteLength(doc.originalSource, 'utf8')
+        };
+    }
+
+    async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        const doc = this.getDocument(uri);
+        doc.originalSource = await this.functionManager.getRoutineDefinition(doc.connectionId, doc.routine.oid);
+        return Buffer.from(doc.originalSource, 'utf8');
+    }
+
+    async writeFile(uri: vscode.Uri, content: Uint8Array): Promise<void> {
+        const doc = this.getDocument(uri);
+        const readOnly = await this.connectionManager.getReadOnlyError(doc.connectionId, 'changing functions');
+        if (readOnly) {
+            throw vscode.FileSystemError.NoPermissions(readOnly);
+        }
+        const source = Buffer.from(content).toString('utf8');
+
+        let preview;
+        try {
+            preview = buildRoutineReplacement(source, doc.originalSource);
+        } catch (error) {
+            throw new vscode.FileSystemError(error instanceof Error ? error.message : String(error));
+        }
+
+        const detail = [
+            ...preview.warnings.map(warning => `⚠ ${warning}`),
+            ...(preview.warnings.length > 0 ? [''] : []),
+            preview.sql
+        ].join('\n');
+        const confirmed = await vscode.window.showWarningMessage(
+            `Apply changes to ${doc.routine.schemaName}.${formatRoutineSignature(doc.routine)}?`,
+            { modal: true, detail },
+            'Apply'
+        );
+        if (confirmed !== 'Apply') {
+            throw new vscode.FileSystemError('Save cancelled; the database was not changed.');
+        }
+
+        try {
+            await this.functionManager.executeRoutineDdl(doc.connectionId, preview.sql);
+        } catch (error) {
+            throw new vscode.FileSystemError(`Failed to apply ${doc.routine.kind}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        doc.originalSource = source;
+        doc.mtime = Date.now();
+        this.changeEmitter.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+        this.refreshTree();
+        vscode.window.showInformationMessage(`Applied changes to ${doc.routine.schemaName}.${doc.routine.name}`);
+    }
+
+    readDirectory(): [string, vscode.FileType][] {
+        throw vscode.FileSystemError.NoPermissions('Function sources cannot be listed');
+    }
+
+    createDirectory(): void {
+        throw vscode.FileSystemError.NoPermissions('Function sources cannot be created here');
+    }
+
+    delete(): void {
+        throw vscode.FileSystemError.NoPermissions('Use "Drop Function" to remove a function');
+    }
+
+    rename(): void {
+        throw vscode.FileSystemError.NoPermissions('Function sources cannot be renamed');
+    }
+
+    private buildUri(connectionId: string, routine: RoutineInfo): vscode.Uri {
+        const fileName = `${formatRoutineSignature(routine)}.sql`;
+        return vscode.Uri.from({
+            scheme: FUNCTION_SOURCE_SCHEME,
+            path: `/${encodeURIComponent(connectionId)}/${encodeURIComponent(routine.schemaName)}/${encodeURIComponent(fileName)}`,
+            query: `oid=${routine.oid}`
+        });
+    }
+
+    private getDocument(uri: vscode.Uri): RoutineDocument {
+        const doc = this.documents.get(uri.toString());
+        if (!doc) {
+            // Sources are only reachable after opening them from the explorer;
+            // a reload loses the routine metadata we need to save safely.
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return doc;
+    }
+}
@@ -0,0 +1,94 @@
+/**
+ * Function Management for PostgreSQL Data Editor
+ * Provides operations for reading, replacing and dropping functions and procedures
+ */
+
+import { ConnectionManager } from './connectionManager';
+import { RoutineArgument } from './routineSqlBuilder';
+import { info, debug } from './logger';
+
+export class FunctionManager {
+    constructor(private connectionManager: ConnectionManager) {}
+
+    /**
+     * Get the CREATE OR REPLACE source of a function or procedure
+     */
+    async getRoutineDefinition(connectionId: string, oid: number): Promise<string> {
+        const client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            throw new Error('Could not connect to database');
+        }
+
+        try {
+            const result = await client.query('SELECT pg_catalog.pg_get_functiondef($1::oid) AS definition', [oid]);
+            const definition = result.rows[0]?.definition;
+            if (typeof definition !== 'string') {
+                throw new Error(`Routine with oid ${oid} no longer exists`);
+            }
+            return definition;
+        } catch (err) {
+            debug(`Error fetching routine definition: ${err}`);
+            throw err;
+        }
+    }
+
+    /**
+     * Get the arguments of a routine in declaration order
+     */
+    async getRoutineArguments(connectionId: string, oid: number): Promise<RoutineArgument[]> {
+        const client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            throw new Error('Could not connect to database');
+        }
+
+        try {
+            const result = await client.query(`
+                SELECT COALESCE(p.proargnames[a.ordinality], '') AS name,
+                       pg_catalog.format_type(a.typ, NULL) AS type,
+                       COALESCE(p.proargmodes[a.ordinality], 'i') AS mode
+                FROM pg_proc p,
+                     unnest(COALESCE(p.proallargtypes, p.proargtypes::oid[])) WITH ORDINALITY AS a(typ, ordinality)
+                WHERE p.oid = $1
+                ORDER BY a.ordinality
+            `, [oid]);
+
+            return result.rows.map(row => ({
+                name: row.name,
+                type: row.type,
+                mode: row.mode
+            }));
+        } catch (err) {
+            debug(`Error fetching routine arguments: ${err}`);
+            throw err;
+        }
+    }
+
+    /**
+     * Run a routine DDL statement (CREATE OR REPLACE / DROP) in a transaction
+     */
+    async executeRoutineDdl(connectionId: string, sql: string): Promise<void> {
+        const client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            throw new Error('Could not connect to database');
+        }
+
+        this.connectionManager.markBusy(connectionId);
+
+        try {
+            await client.query('BEGIN');
+            await client.query(sql);
+            await client.query('COMMIT');
+            info('Routine DDL executed successfully');
+        } catch (err) {
+            try {
+                await client.query('ROLLBACK');
+            } catch {
+                // Ignore rollback failures; the original error is more useful.
+            }
+            debug(`Error executing routine DDL: ${err}`);
+            throw err;
+        } finally {
+            this.connectionManager.markIdle(connectionId);
+        }
+    }
+}
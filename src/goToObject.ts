@@ -0,0 +1,168 @@
+// goToObject.ts - Fuzzy quick pick over every object of the connected databases
+
+import * as vscode from 'vscode';
+import { DatabaseTreeItem } from './databaseTreeProvider';
+import { DataEditor } from './dataEditor';
+import { FunctionEditor } from './functionEditor';
+import { CatalogObject, CatalogObjectKind, ObjectCatalog } from './objectCatalog';
+import { SchemaDesigner } from './schemaDesigner';
+import { formatRoutineSignature } from './routineSqlBuilder';
+import { debug } from './logger';
+
+type ObjectPickItem = vscode.QuickPickItem & { object: CatalogObject };
+
+const KIND_ICONS: Record<CatalogObjectKind, string> = {
+    table: 'table',
+    view: 'eye',
+    materializedView: 'layers',
+    function: 'symbol-function',
+    sequence: 'symbol-number'
+};
+
+const KIND_LABELS: Record<CatalogObjectKind, string> = {
+    table: 'table',
+    view: 'view',
+    materializedView: 'materialized view',
+    function: 'function',
+    sequence: 'sequence'
+};
+
+const ALTER_TABLE_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('edit'),
+    tooltip: 'Alter Table'
+};
+
+const REVEAL_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('list-tree'),
+    tooltip: 'Reveal in Explorer'
+};
+
+const RELOAD_BUTTON: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon('refresh'),
+    tooltip: 'Reload object catalog'
+};
+
+export class GoToObject {
+    constructor(
+        private readonly catalog: ObjectCatalog,
+        private readonly treeView: vscode.TreeView<DatabaseTreeItem>,
+        private readonly dataEditor: DataEditor,
+        private readonly schemaDesigner: SchemaDesigner,
+        private readonly functionEditor: FunctionEditor
+    ) {}
+
+    async show(): Promise<void> {
+        const quickPick = vscode.window.createQuickPick<ObjectPickItem>();
+        quickPick.placeholder = 'Go to table, view, function or sequence';
+        quickPick.matchOnDescription = true;
+        quickPick.buttons = [RELOAD_BUTTON];
+
+        const load = async () => {
+            quickPick.busy = true;
+            try {
+                const objects = await this.catalog.getObjects();
+                quickPick.items = objects.map(object => this.toPickItem(object));
+                if (objects.length === 0) {
+                    quickPick.placeholder = 'No objects found. Connect to a database first.';
+                }
+            } finally {
+                quickPick.busy = false;
+            }
+        };
+
+        quickPick.onDidTriggerButton(async (button) => {
+            if (button === RELOAD_BUTTON) {
+                this.catalog.invalidate();
+                await load();
+            }
+        });
+
+        quickPick.onDidTriggerItemButton(async (event) => {
+            quickPick.hide();
+            if (event.button === ALTER_TABLE_BUTTON) {
+                await this.schemaDesigner.openDesigner(this.toTreeItem(event.item.object));
+            }
+            await this.reveal(event.item.object, event.button === REVEAL_BUTTON);
+        });
+
+        quickPick.onDidAccept(async () => {
+            const selected = quickPick.selectedItems[0];
+            quickPick.hide();
+            if (selected) {
+                await this.open(selected.object);
+            }
+        });
+
+        quickPick.onDidHide(() => quickPick.dispose());
+        quickPick.show();
+        await load();
+    }
+
+    private async open(object: CatalogObject): Promise<void> {
+        const item = this.toTreeItem(object);
+        switch (object.kind) {
+            case 'table':
+            case 'view':
+            case 'materializedView':
+                await this.dataEditor.openTable(item);
+                break;
+            case 'function':
+                await this.functionEditor.openRoutine(item);
+                break;
+            case 'sequence':
+                // Sequences have no editor; their actions live on the tree node
+                await this.reveal(object, true);
+                return;
+        }
+        await this.reveal(object, false);
+    }
+
+    private async reveal(object: CatalogObject, focus: boolean): Promise<void> {
+        try {
+            await this.treeView.reveal(this.toTreeItem(object), { select: true, focus, expand: false });
+        } catch (err) {
+            // The tree may not show the object (e.g. a collapsed connection
+            // that failed to load); opening it still succeeded.
+            debug(`Could not reveal ${object.schemaName}.${object.name}: ${err}`);
+        }
+    }
+
+    private toPickItem(object: CatalogObject): ObjectPickItem {
+        const name = object.routine ? formatRoutineSignature(object.routine) : object.name;
+        return {
+            label: `$(${KIND_ICONS[object.kind]}) ${object.schemaName}.${name}`,
+            description: `${KIND_LABELS[object.kind]} · ${object.connectionName}/${object.databaseName}`,
+            buttons: object.kind === 'table' ? [ALTER_TABLE_BUTTON, REVEAL_BUTTON] : [REVEAL_BUTTON],
+            object
+        };
+    }
+
+    // Build the node the explorer shows for this object so reveal() can find it
+    private toTreeItem(object: CatalogObject): DatabaseTreeItem {
+        const { connectionId, databaseName, schemaName, name } = object;
+        switch (object.kind) {
+            case 'table': {
+                const item = new DatabaseTreeItem(name, vscode.TreeItemCollapsibleState.Collapsed, 'table', connectionId, databaseName, schemaName, name);
+                item.partitionParent = object.partitionParent;
+                return item;
+            }
+            case 'view':
+            case 'materializedView':
+                return new DatabaseTreeItem(name, vscode.TreeItemCollapsibleState.None, object.kind, connectionId, databaseName, schemaName, name);
+            case 'function': {
+                const item = new DatabaseTreeItem(
+                    formatRoutineSignature(object.routine!),
+                    vscode.TreeItemCollapsibleState.None,
+                    'function',
+                    connectionId,
+                    databaseName,
+                    schemaName
+                );
+                item.routine = object.routine;
+                return item;
+            }
+            case 'sequence':
+                return new DatabaseTreeItem(name, vscode.TreeItemCollapsibleState.None, 'sequence', connectionId, databaseName, schemaName);
+        }
+    }
+}
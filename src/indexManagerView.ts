@@ -80,6 +80,14 @@ export class IndexManagerView {
         schemaName: string,
         tableName: string
     ): Promise<void> {
+        if (['createIndex', 'dropIndex', 'reindex'].includes(message.command)) {
+            const readOnly = await this.connectionManager.getReadOnlyError(connectionId, 'changing indexes');
+            if (readOnly) {
+                vscode.window.showErrorMessage(readOnly);
+                return;
+            }
+        }
+
         switch (message.command) {
             case 'refresh':
                 await this.loadIndexes(panel, connectionId, schemaName, tableName);
@@ -0,0 +1,162 @@
+/**
+ * Object catalog for PostgreSQL Data Editor
+ * Caches the tables, views, functions and sequences of every connected
+ * database so they can be searched without walking the explorer tree
+ */
+
+import { ConnectionManager } from './connectionManager';
+import { RoutineInfo, routineKindFromProkind } from './routineSqlBuilder';
+import { debug } from './logger';
+
+export type CatalogObjectKind = 'table' | 'view' | 'materializedView' | 'function' | 'sequence';
+
+export interface CatalogObject {
+    connectionId: string;
+    connectionName: string;
+    databaseName: string;
+    schemaName: string;
+    name: string;
+    kind: CatalogObjectKind;
+    // Set for functions so the source editor can address a specific overload
+    routine?: RoutineInfo;
+    // Set for partitions, which the explorer lists under their parent table
+    partitionParent?: { schemaName: string; tableName: string };
+}
+
+const RELATION_KINDS: Record<string, CatalogObjectKind> = {
+    r: 'table',
+    p: 'table',
+    v: 'view',
+    m: 'materializedView',
+    S: 'sequence'
+};
+
+export class ObjectCatalog {
+    // Objects per connection id; dropped whenever the explorer refreshes
+    private readonly cache = new Map<string, CatalogObject[]>();
+
+    constructor(private connectionManager: ConnectionManager) {}
+
+    /**
+     * Get the objects of every connected database, loading connections that
+     * are not cached yet. Connections that fail to load are skipped.
+     */
+    async getObjects(): Promise<CatalogObject[]> {
+        const configs = await this.connectionManager.getConnections();
+        const connected = configs.filter(config => {
+            const status = this.connectionManager.getConnectionStatus(config.id);
+            return status === 'connected' || status === 'busy';
+        });
+
+        const objects: CatalogObject[] = [];
+        for (const config of connected) {
+            let cached = this.cache.get(config.id);
+            if (!cached) {
+                try {
+                    cached = await this.loadObjects(config.id, config.name, config.database);
+                    this.cache.set(config.id, cached);
+                } catch (err) {
+                    debug(`Error loading object catalog for ${config.name}: ${err}`);
+                    continue;
+                }
+            }
+            objects.push(...cached);
+        }
+        return objects;
+    }
+
+    invalidate(connectionId?: string): void {
+        if (connectionId) {
+            this.cache.delete(connectionId);
+        } else {
+            this.cache.clear();
+        }
+    }
+
+    private async loadObjects(connectionId: string, connectionName: string, databaseName: string): Promise<CatalogObject[]> {
+        const client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            throw new Error('Could not connect to database');
+        }
+
+        this.connectionManager.markBusy(connectionId);
+
+        try {
+            // Same visibility rules as the explorer: no system schemas and no
+            // routines owned by extensions.
+            const result = await client.query(`
+                SELECT n.nspname AS schema_name,
+                       c.relname AS name,
+                       c.relkind::text AS relkind,
+                       NULL::oid AS oid,
+                       NULL::text AS prokind,
+                       NULL::text AS identity_arguments,
+                       NULL::text AS result_type,
+                       pn.nspname AS parent_schema,
+                       p.relname AS parent_name
+                FROM pg_class c
+                JOIN pg_namespace n ON n.oid = c.relnamespace
+                LEFT JOIN pg_inherits i ON c.relispartition AND i.inhrelid = c.oid
+                LEFT JOIN pg_class p ON p.oid = i.inhparent
+                LEFT JOIN pg_namespace pn ON pn.oid = p.relnamespace
+                WHERE c.relkind IN ('r', 'p', 'v', 'm', 'S')
+                AND n.nspname NOT IN ('pg_catalog', 'information_schema')
+                AND n.nspname NOT LIKE 'pg\\_toast%'
+                AND n.nspname NOT LIKE 'pg\\_temp%'
+                UNION ALL
+                SELECT n.nspname,
+                       p.proname,
+                       NULL,
+                       p.oid,
+                       p.prokind::text,
+                       pg_catalog.pg_get_function_identity_arguments(p.oid),
+                       pg_catalog.pg_get_function_result(p.oid),
+                       NULL,
+                       NULL
+                FROM pg_proc p
+                JOIN pg_namespace n ON n.oid = p.pronamespace
+                WHERE n.nspname NOT IN ('pg_catalog', 'information_schema')
+                AND n.nspname NOT LIKE 'pg\\_toast%'
+                AND n.nspname NOT LIKE 'pg\\_temp%'
+                AND NOT EXISTS (
+                    SELECT 1 FROM pg_depend d
+                    WHERE d.classid = 'pg_proc'::regclass
+                    AND d.objid = p.oid
+                    AND d.deptype = 'e'
+                )
+                ORDER BY 1, 2
+            `);
+
+            return result.rows.map(row => {
+                const base = {
+                    connectionId,
+                    connectionName,
+                    databaseName,
+                    schemaName: row.schema_name,
+                    name: row.name
+                };
+                if (row.oid === null || row.oid === undefined) {
+                    return {
+                        ...base,
+                        kind: RELATION_KINDS[row.relkind] ?? 'table',
+                        ...(row.parent_name ? { partitionParent: { schemaName: row.parent_schema, tableName: row.parent_name } } : {})
+                    };
+                }
+                return {
+                    ...base,
+                    kind: 'function' as const,
+                    routine: {
+                        oid: Number(row.oid),
+                        schemaName: row.schema_name,
+                        name: row.name,
+                        kind: routineKindFromProkind(row.prokind),
+                        identityArguments: row.identity_arguments ?? '',
+                        resultType: row.result_type ?? null
+                    }
+                };
+            });
+        } finally {
+            this.connectionManager.markIdle(connectionId);
+        }
+    }
+}
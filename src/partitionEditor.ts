@@ -0,0 +1,169 @@
+// partitionEditor.ts - Prompts, previews and applies partition create/attach/detach
+
+import * as vscode from 'vscode';
+import { ConnectionManager } from './connectionManager';
+import { DatabaseTreeItem } from './databaseTreeProvider';
+import { PartitionKeyInfo, PartitionManager } from './partitionManager';
+import {
+    PartitionStrategy,
+    buildAttachPartitionSql,
+    buildCreatePartitionSql,
+    buildDetachPartitionSql
+} from './tableSqlBuilder';
+
+const BOUND_PLACEHOLDERS: Record<PartitionStrategy, string> = {
+    RANGE: "FROM ('2024-01-01') TO ('2025-01-01'), or DEFAULT",
+    LIST: "IN ('a', 'b'), or DEFAULT",
+    HASH: 'WITH (MODULUS 4, REMAINDER 0)'
+};
+
+interface PartitionedTable {
+    connectionId: string;
+    schemaName: string;
+    tableName: string;
+    key: PartitionKeyInfo;
+}
+
+export class PartitionEditor {
+    constructor(
+        private readonly partitionManager: PartitionManager,
+        private readonly connectionManager: ConnectionManager,
+        private readonly refreshTree: () => void
+    ) {}
+
+    async createPartition(item?: DatabaseTreeItem): Promise<void> {
+        const target = await this.resolvePartitionedTable(item, 'Create Partition');
+        if (!target) return;
+        const { connectionId, schemaName, tableName, key } = target;
+
+        const name = await vscode.window.showInputBox({
+            prompt: `Name of the new partition of ${schemaName}.${tableName}`,
+            value: `${tableName}_`,
+            validateInput: (input) => input.trim() ? null : 'Partition name is required'
+        });
+        if (name === undefined) return;
+
+        const bound = await this.promptBound(key, name.trim());
+        if (bound === undefined) return;
+
+        await this.previewAndApply(
+            connectionId,
+            `Create partition ${schemaName}.${name.trim()}?`,
+            buildCreatePartitionSql(schemaName, tableName, name.trim(), bound),
+            `Created partition ${schemaName}.${name.trim()}`
+        );
+    }
+
+    async attachPartition(item?: DatabaseTreeItem): Promise<void> {
+        const target = await this.resolvePartitionedTable(item, 'Attach Partition');
+        if (!target) return;
+        const { connectionId, schemaName, tableName, key } = target;
+
+        let candidates: string[];
+        try {
+            candidates = await this.partitionManager.getAttachCandidates(connectionId, schemaName, tableName);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to load tables: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+        if (candidates.length === 0) {
+            vscode.window.showInformationMessage(`Schema ${schemaName} has no tables that can be attached to ${tableName}.`);
+            return;
+        }
+
+        const partition = await vscode.window.showQuickPick(candidates, {
+            placeHolder: `Attach which table to ${schemaName}.${tableName}?`
+        });
+        if (!partition) return;
+
+        const bound = await this.promptBound(key, partition);
+        if (bound === undefined) return;
+
+        await this.previewAndApply(
+            connectionId,
+            `Attach ${schemaName}.${partition} as a partition of ${tableName}?`,
+            buildAttachPartitionSql(schemaName, tableName, schemaName, partition, bound),
+            `Attached ${schemaName}.${partition} to ${tableName}`,
+            'PostgreSQL scans the table to check every row fits the bound unless a matching CHECK constraint already exists.'
+        );
+    }
+
+    async detachPartition(item?: DatabaseTreeItem): Promise<void> {
+        const parent = item?.partitionParent;
+        if (!item || item.type !== 'table' || !item.connectionId || !item.schemaName || !item.tableName || !parent) {
+            vscode.window.showErrorMessage('Detach Partition must be invoked on a partition node.');
+            return;
+        }
+
+        await this.previewAndApply(
+            item.connectionId,
+            `Detach ${item.schemaName}.${item.tableName} from ${parent.tableName}?`,
+            buildDetachPartitionSql(parent.schemaName, parent.tableName, item.schemaName, item.tableName),
+            `Detached ${item.schemaName}.${item.tableName} from ${parent.tableName}`,
+            'The table and its rows are kept as a standalone table.'
+        );
+    }
+
+    private promptBound(key: PartitionKeyInfo, partition: string): Thenable<string | undefined> {
+        return vscode.window.showInputBox({
+            prompt: `Bound for ${partition} (partitioned by ${key.definition}); FOR VALUES is optional`,
+            placeHolder: BOUND_PLACEHOLDERS[key.strategy],
+            validateInput: (input) => {
+                const trimmed = input.trim();
+                if (!trimmed) {
+                    return 'Partition bound is required';
+                }
+                if (key.strategy === 'HASH' && /^default$/i.test(trimmed)) {
+                    return 'Hash partitioned tables cannot have a DEFAULT partition';
+                }
+                return null;
+            }
+        });
+    }
+
+    private async previewAndApply(connectionId: string, title: string, sql: string, success: string, note?: string): Promise<void> {
+        const confirmed = await vscode.window.showWarningMessage(
+            title,
+            { modal: true, detail: note ? `${sql}\n\n${note}` : sql },
+            'Apply'
+        );
+        if (confirmed !== 'Apply') return;
+
+        try {
+            await this.partitionManager.executePartitionDdl(connectionId, sql);
+            vscode.window.showInformationMessage(success);
+            this.refreshTree();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to update partitions: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Re-read the partition key so the bound prompt matches the table's
+     * current definition. Works from the table node or its Partitions folder.
+     */
+    private async resolvePartitionedTable(item: DatabaseTreeItem | undefined, action: string): Promise<PartitionedTable | null> {
+        if (!item || (item.type !== 'table' && item.type !== 'partitions') || !item.connectionId || !item.schemaName || !item.tableName) {
+            vscode.window.showErrorMessage(`${action} must be invoked on a partitioned table.`);
+            return null;
+        }
+
+        const readOnly = await this.connectionManager.getReadOnlyError(item.connectionId, 'changing partitions');
+        if (readOnly) {
+            vscode.window.showErrorMessage(readOnly);
+            return null;
+        }
+
+        try {
+            const key = await this.partitionManager.getPartitionKey(item.connectionId, item.schemaName, item.tableName);
+            if (!key) {
+                vscode.window.showErrorMessage(`${item.schemaName}.${item.tableName} is not a partitioned table.`);
+                return null;
+            }
+            return { connectionId: item.connectionId, schemaName: item.schemaName, tableName: item.tableName, key };
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to load partition key: ${error instanceof Error ? error.message : String(error)}`);
+            return null;
+        }
+    }
+}
@@ -0,0 +1,107 @@
+/**
+ * Partition Management for PostgreSQL Data Editor
+ * Provides operations for inspecting partitioned tables and creating,
+ * attaching and detaching their partitions
+ */
+
+import { ConnectionManager } from './connectionManager';
+import { PartitionStrategy } from './tableSqlBuilder';
+import { info, debug } from './logger';
+
+export interface PartitionKeyInfo {
+    strategy: PartitionStrategy;
+    // pg_get_partkeydef output, e.g. "RANGE (created_at)"
+    definition: string;
+}
+
+export class PartitionManager {
+    constructor(private connectionManager: ConnectionManager) {}
+
+    /**
+     * Get the partition key of a table, or null when it is not partitioned
+     */
+    async getPartitionKey(connectionId: string, schemaName: string, tableName: string): Promise<PartitionKeyInfo | null> {
+        const client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            throw new Error('Could not connect to database');
+        }
+
+        try {
+            const result = await client.query(`
+                SELECT pg_catalog.pg_get_partkeydef(c.oid) AS definition
+                FROM pg_class c
+                JOIN pg_namespace n ON n.oid = c.relnamespace
+                WHERE n.nspname = $1
+                AND c.relname = $2
+                AND c.relkind = 'p'
+            `, [schemaName, tableName]);
+
+            const definition: string | undefined = result.rows[0]?.definition;
+            if (!definition) {
+                return null;
+            }
+            const strategy = definition.split(/\s|\(/, 1)[0].toUpperCase() as PartitionStrategy;
+            return { strategy, definition };
+        } catch (err) {
+            debug(`Error fetching partition key: ${err}`);
+            throw err;
+        }
+    }
+
+    /**
+     * Get the tables of a schema that could be attached as a partition:
+     * ordinary or partitioned tables that are not already a partition
+     */
+    async getAttachCandidates(connectionId: string, schemaName: string, parentTableName: string): Promise<string[]> {
+        const client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            throw new Error('Could not connect to database');
+        }
+
+        try {
+            const result = await client.query(`
+                SELECT c.relname
+                FROM pg_class c
+                JOIN pg_namespace n ON n.oid = c.relnamespace
+                WHERE n.nspname = $1
+                AND c.relname <> $2
+                AND c.relkind IN ('r', 'p')
+                AND NOT c.relispartition
+                ORDER BY c.relname
+            `, [schemaName, parentTableName]);
+            return result.rows.map(row => row.relname);
+        } catch (err) {
+            debug(`Error fetching attachable tables: ${err}`);
+            throw err;
+        }
+    }
+
+    /**
+     * Run a partition DDL statement (CREATE ... PARTITION OF / ATTACH / DETACH) in a transaction
+     */
+    async executePartitionDdl(connectionId: string, sql: string): Promise<void> {
+        const client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            throw new Error('Could not connect to database');
+        }
+
+        this.connectionManager.markBusy(connectionId);
+
+        try {
+            await client.query('BEGIN');
+            await client.query(sql);
+            await client.query('COMMIT');
+            info('Partition DDL executed successfully');
+        } catch (err) {
+            try {
+                await client.query('ROLLBACK');
+            } catch {
+                // Ignore rollback failures; the original error is more useful.
+            }
+            debug(`Error executing partition DDL: ${err}`);
+            throw err;
+        } finally {
+            this.connectionManager.markIdle(connectionId);
+        }
+    }
+}
@@ -0,0 +1,101 @@
+// passwordCommand.ts - Fetches short-lived passwords (e.g. IAM or OAuth
+// tokens) from a CLI helper at connect time
+
+import { exec } from 'child_process';
+
+export interface PasswordToken {
+    value: string;
+    // Epoch milliseconds after which the token must not be reused
+    expiresAt: number;
+}
+
+// Plain-text output is reused for this long unless the connection says otherwise
+export const DEFAULT_TOKEN_LIFETIME_SECONDS = 600;
+
+// Refresh a little early so a token does not expire during the handshake
+const EXPIRY_MARGIN_MS = 30_000;
+
+const COMMAND_TIMEOUT_MS = 30_000;
+
+function parseExpiry(value: unknown): number | undefined {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        // Epoch seconds, as most token CLIs print them
+        return value * 1000;
+    }
+    if (typeof value === 'string' && value.trim()) {
+        const numeric = Number(value);
+        if (Number.isFinite(numeric)) {
+            return numeric * 1000;
+        }
+        const parsed = Date.parse(value);
+        return Number.isNaN(parsed) ? undefined : parsed;
+    }
+    return undefined;
+}
+
+/**
+ * Read the output of a password command. Plain text is the password and
+ * lives for `lifetimeSeconds`; a JSON object may carry the token as
+ * `password`, `token` or `accessToken` and its expiry as `expiresAt`
+ * (ISO date or epoch seconds) or `expiresIn` (seconds).
+ */
+export function parsePasswordCommandOutput(stdout: string, now: number, lifetimeSeconds: number = DEFAULT_TOKEN_LIFETIME_SECONDS): PasswordToken {
+    const text = stdout.trim();
+    if (!text) {
+        throw new Error('Password command printed nothing');
+    }
+
+    if (text.startsWith('{')) {
+        let data: Record<string, unknown>;
+        try {
+            data = JSON.parse(text);
+        } catch {
+            throw new Error('Password command printed invalid JSON');
+        }
+        const value = [data.password, data.token, data.accessToken].find((v): v is string => typeof v === 'string' && v.length > 0);
+        if (!value) {
+            throw new Error('Password command output has no "password", "token" or "accessToken" field');
+        }
+        const expiresAt = parseExpiry(data.expiresAt)
+            ?? (typeof data.expiresIn === 'number' ? now + data.expiresIn * 1000 : undefined)
+            ?? now + lifetimeSeconds * 1000;
+        return { value, expiresAt };
+    }
+
+    return { value: text, expiresAt: now + lifetimeSeconds * 1000 };
+}
+
+export function isTokenValid(token: PasswordToken | undefined, now: number): token is PasswordToken {
+    return token !== undefined && token.expiresAt - EXPIRY_MARGIN_MS > now;
+}
+
+/**
+ * Run a password command through the shell and return its stdout. The
+ * command sees PGHOST, PGPORT, PGDATABASE and PGUSER for the connection.
+ */
+export function runPasswordCommand(
+    command: string,
+    target: { host: string; port: number; database: string; username: string },
+    timeoutMs: number = COMMAND_TIMEOUT_MS
+): Promise<string> {
+    return new Promise((resolve, reject) => {
+        exec(command, {
+            timeout: timeoutMs,
+            windowsHide: true,
+            env: {
+                ...process.env,
+                PGHOST: target.host,
+                PGPORT: String(target.port),
+                PGDATABASE: target.database,
+                PGUSER: target.username
+            }
+        }, (error, stdout, stderr) => {
+            if (error) {
+                const detail = String(stderr).trim() || (error.killed ? `timed out after ${timeoutMs / 1000}s` : error.message);
+                reject(new Error(`Password command failed: ${detail}`));
+                return;
+            }
+            resolve(String(stdout));
+        });
+    });
+}
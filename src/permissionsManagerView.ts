@@ -80,6 +80,14 @@ export class PermissionsManagerView {
         schemaName: string,
         tableName: string
     ): Promise<void> {
+        if (message.command === 'grant' || message.command === 'revoke') {
+            const readOnly = await this.connectionManager.getReadOnlyError(connectionId, 'changing permissions');
+            if (readOnly) {
+                vscode.window.showErrorMessage(readOnly);
+                return;
+            }
+        }
+
         switch (message.command) {
             case 'refresh':
                 await this.loadPermissions(panel, connectionId, schemaName, tableName);
@@ -0,0 +1,226 @@
+// pgConfigFiles.ts - Reads the libpq client files (~/.pgpass, pg_service.conf)
+// and PG* environment variables
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ConnectionConfig } from './connectionManager';
+import { ConnectionStringFields, parametersToConnectionFields } from './connectionString';
+
+export interface PgpassEntry {
+    // Any field may be '*', which matches everything
+    host: string;
+    port: string;
+    database: string;
+    username: string;
+    password: string;
+}
+
+// Keys of one pg_service.conf section, e.g. { host: 'db1', dbname: 'app' }
+export type PgServiceEntry = Record<string, string>;
+
+export interface PgConfigEnvironment {
+    env: NodeJS.ProcessEnv;
+    platform: NodeJS.Platform;
+    homedir: string;
+    readFile: (filePath: string) => string | undefined;
+}
+
+export function defaultPgConfigEnvironment(): PgConfigEnvironment {
+    return {
+        env: process.env,
+        platform: process.platform,
+        homedir: os.homedir(),
+        readFile: (filePath) => {
+            try {
+                return fs.readFileSync(filePath, 'utf8');
+            } catch {
+                return undefined;
+            }
+        }
+    };
+}
+
+/**
+ * Parse a password file. Lines are host:port:database:username:password,
+ * with `\:` and `\\` escaping colons and backslashes; malformed lines are
+ * skipped like libpq does.
+ */
+export function parsePgpass(text: string): PgpassEntry[] {
+    const entries: PgpassEntry[] = [];
+    for (const line of text.split(/\r?\n/)) {
+        if (!line.trim() || line.trimStart().startsWith('#')) continue;
+
+        const fields: string[] = [];
+        let current = '';
+        for (let i = 0; i < line.length; i++) {
+            const ch = line[i];
+            if (ch === '\\' && i + 1 < line.length) {
+                current += line[++i];
+            } else if (ch === ':' && fields.length < 4) {
+                fields.push(current);
+                current = '';
+            } else {
+                current += ch;
+            }
+        }
+        fields.push(current);
+
+        if (fields.length === 5) {
+            const [host, port, database, username, password] = fields;
+            entries.push({ host, port, database, username, password });
+        }
+    }
+    return entries;
+}
+
+/**
+ * Parse a connection service file: `[name]` sections of key=value lines.
+ */
+export function parsePgServiceFile(text: string): Map<string, PgServiceEntry> {
+    const services = new Map<string, PgServiceEntry>();
+    let current: PgServiceEntry | undefined;
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) continue;
+
+        const section = /^\[(.+)\]$/.exec(line);
+        if (section) {
+            current = {};
+            services.set(section[1].trim(), current);
+            continue;
+        }
+
+        const eq = line.indexOf('=');
+        if (current && eq > 0) {
+            current[line.slice(0, eq).trim()] = line.slice(eq + 1).trim();
+        }
+    }
+    return services;
+}
+
+/**
+ * Look up the password libpq would use for a connection: the first
+ * matching line wins.
+ */
+export function findPgpassPassword(
+    entries: PgpassEntry[],
+    target: Pick<ConnectionConfig, 'host' | 'port' | 'database' | 'username'>
+): string | undefined {
+    const matches = (pattern: string, value: string) => pattern === '*' || pattern === value;
+    return entries.find(entry =>
+        matches(entry.host, target.host)
+        && matches(entry.port, String(target.port))
+        && matches(entry.database, target.database)
+        && matches(entry.username, target.username)
+    )?.password;
+}
+
+export function getPgpassPath(environment: PgConfigEnvironment): string {
+    if (environment.env.PGPASSFILE) {
+        return environment.env.PGPASSFILE;
+    }
+    return environment.platform === 'win32'
+        ? path.join(environment.env.APPDATA ?? environment.homedir, 'postgresql', 'pgpass.conf')
+        : path.join(environment.homedir, '.pgpass');
+}
+
+/**
+ * Service files in lookup order: the per-user file wins over the system
+ * file in PGSYSCONFDIR.
+ */
+export function getPgServiceFilePaths(environment: PgConfigEnvironment): string[] {
+    const userFile = environment.env.PGSERVICEFILE
+        ?? (environment.platform === 'win32'
+            ? path.join(environment.env.APPDATA ?? environment.homedir, 'postgresql', '.pg_service.conf')
+            : path.join(environment.homedir, '.pg_service.conf'));
+    const paths = [userFile];
+    if (environment.env.PGSYSCONFDIR) {
+        paths.push(path.join(environment.env.PGSYSCONFDIR, 'pg_service.conf'));
+    }
+    return paths;
+}
+
+export function readPgpass(environment: PgConfigEnvironment = defaultPgConfigEnvironment()): PgpassEntry[] {
+    const text = environment.readFile(getPgpassPath(environment));
+    return text ? parsePgpass(text) : [];
+}
+
+/**
+ * All services from every service file; a name defined in more than one
+ * file resolves to the first file, as in libpq.
+ */
+export function readPgServices(environment: PgConfigEnvironment = defaultPgConfigEnvironment()): Map<string, PgServiceEntry> {
+    const services = new Map<string, PgServiceEntry>();
+    for (const filePath of getPgServiceFilePaths(environment)) {
+        const text = environment.readFile(filePath);
+        if (!text) continue;
+        for (const [name, entry] of parsePgServiceFile(text)) {
+            if (!services.has(name)) {
+                services.set(name, entry);
+            }
+        }
+    }
+    return services;
+}
+
+/**
+ * Connection fields of a service entry (or of PG* variables, which use the
+ * same names in upper case). Service entries use the connection string
+ * keywords, so multi-host lists and target_session_attrs work there too.
+ */
+export function serviceToConnectionFields(entry: PgServiceEntry, defaultUser: string = os.userInfo().username): ConnectionStringFields {
+    return parametersToConnectionFields(entry, defaultUser);
+}
+
+/**
+ * The PG* variables as a service-style entry, or undefined when none of
+ * the connection variables are set.
+ */
+export function readPgEnvironment(env: NodeJS.ProcessEnv): PgServiceEntry | undefined {
+    const names: Record<string, string> = {
+        PGHOST: 'host',
+        PGHOSTADDR: 'hostaddr',
+        PGPORT: 'port',
+        PGDATABASE: 'dbname',
+        PGUSER: 'user',
+        PGPASSWORD: 'password',
+        PGSSLMODE: 'sslmode',
+        PGSSLROOTCERT: 'sslrootcert',
+        PGSSLCERT: 'sslcert',
+        PGSSLKEY: 'sslkey',
+        PGCONNECT_TIMEOUT: 'connect_timeout',
+        PGOPTIONS: 'options',
+        PGTARGETSESSIONATTRS: 'target_session_attrs'
+    };
+    const entry: PgServiceEntry = {};
+    for (const [variable, key] of Object.entries(names)) {
+        if (env[variable]) {
+            entry[key] = env[variable]!;
+        }
+    }
+    return entry.host || entry.hostaddr || entry.dbname || entry.user ? entry : undefined;
+}
+
+/**
+ * Resolve a connection that refers to a pg_service.conf entry. The service
+ * file is read on every call so edits to it apply on the next connect.
+ * The password comes from the service entry or ~/.pgpass.
+ */
+export function resolveServiceConnection(
+    config: ConnectionConfig,
+    environment: PgConfigEnvironment = defaultPgConfigEnvironment()
+): { config: ConnectionConfig; password?: string } {
+    if (!config.service) {
+        return { config };
+    }
+    const entry = readPgServices(environment).get(config.service);
+    if (!entry) {
+        throw new Error(`Service "${config.service}" was not found in ${getPgServiceFilePaths(environment).join(' or ')}`);
+    }
+    const resolved: ConnectionConfig = { ...config, ...serviceToConnectionFields(entry) };
+    return {
+        config: resolved,
+        password: entry.password || findPgpassPassword(readPgpass(environment), resolved)
+    };
+}
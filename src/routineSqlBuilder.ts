@@ -0,0 +1,162 @@
+// routineSqlBuilder.ts - Helpers for constructing function and procedure SQL statements
+
+import { quoteIdentifier } from './tableSqlBuilder';
+
+export type RoutineKind = 'function' | 'procedure' | 'aggregate' | 'window';
+
+export interface RoutineInfo {
+    oid: number;
+    schemaName: string;
+    name: string;
+    kind: RoutineKind;
+    identityArguments: string;
+    resultType: string | null;
+}
+
+export interface RoutineArgument {
+    name: string;
+    type: string;
+    // pg_proc.proargmodes: i = IN, o = OUT, b = INOUT, v = VARIADIC, t = TABLE
+    mode: 'i' | 'o' | 'b' | 'v' | 't';
+}
+
+export interface RoutineReplacementResult {
+    sql: string;
+    warnings: string[];
+}
+
+export function routineKindFromProkind(prokind: string | null | undefined): RoutineKind {
+    switch (prokind) {
+        case 'p':
+            return 'procedure';
+        case 'a':
+            return 'aggregate';
+        case 'w':
+            return 'window';
+        default:
+            return 'function';
+    }
+}
+
+export function formatRoutineSignature(routine: Pick<RoutineInfo, 'name' | 'identityArguments'>): string {
+    return `${routine.name}(${routine.identityArguments})`;
+}
+
+export function buildDropRoutineSql(routine: RoutineInfo, cascade: boolean = false): string {
+    const keyword = routine.kind === 'procedure'
+        ? 'PROCEDURE'
+        : routine.kind === 'aggregate'
+            ? 'AGGREGATE'
+            : 'FUNCTION';
+    const cascadeClause = cascade ? ' CASCADE' : '';
+    return `DROP ${keyword} ${quoteIdentifier(routine.schemaName)}.${quoteIdentifier(routine.name)}(${routine.identityArguments})${cascadeClause};`;
+}
+
+/**
+ * Build a CALL (procedures) or SELECT (everything else) statement with a
+ * typed NULL placeholder for every argument the caller has to supply.
+ */
+export function buildRoutineInvocationSql(routine: RoutineInfo, args: RoutineArgument[]): string {
+    const isProcedure = routine.kind === 'procedure';
+    // Procedures take OUT arguments as placeholders in CALL; functions never do.
+    const callArgs = args.filter(arg => arg.mode !== 't' && (isProcedure || arg.mode !== 'o'));
+    const placeholders = callArgs.map(arg => {
+        const variadic = arg.mode === 'v' ? 'VARIADIC ' : '';
+        const label = arg.name ? ` /* ${arg.name.replace(/\*\//g, '* /')} */` : '';
+        return `${variadic}NULL::${arg.type}${label}`;
+    });
+    const argumentList = placeholders.length > 0 ? `\n    ${placeholders.join(',\n    ')}\n` : '';
+    const target = `${quoteIdentifier(routine.schemaName)}.${quoteIdentifier(routine.name)}(${argumentList})`;
+
+    switch (routine.kind) {
+        case 'procedure':
+            return `CALL ${target};`;
+        case 'aggregate':
+            return `SELECT ${target};`;
+        case 'window':
+            return `SELECT ${target} OVER ();`;
+        default:
+            return `SELECT * FROM ${target};`;
+    }
+}
+
+const CREATE_ROUTINE_PATTERN = /^CREATE\s+(OR\s+REPLACE\s+)?(FUNCTION|PROCEDURE)\s+/i;
+
+/**
+ * Turn edited routine source into the CREATE OR REPLACE statement to run,
+ * warning when the edit would create a new overload instead of replacing
+ * the routine that was opened.
+ */
+export function buildRoutineReplacement(source: string, originalSource: string): RoutineReplacementResult {
+    const trimmed = source.trim();
+    if (!trimmed) {
+        throw new Error('Routine source cannot be empty');
+    }
+
+    const match = CREATE_ROUTINE_PATTERN.exec(trimmed);
+    if (!match) {
+        throw new Error('Routine source must start with CREATE FUNCTION or CREATE PROCEDURE');
+    }
+
+    const sql = match[1]
+        ? trimmed
+        : `CREATE OR REPLACE ${match[2].toUpperCase()} ${trimmed.slice(match[0].length)}`;
+
+    const warnings: string[] = [];
+    const edited = extractRoutineHeader(sql);
+    const original = extractRoutineHeader(originalSource.trim());
+    if (edited && original) {
+        if (edited.kind !== original.kind) {
+            warnings.push(`The statement now creates a ${edited.kind.toLowerCase()} instead of a ${original.kind.toLowerCase()}.`);
+        }
+        if (normalizeWhitespace(edited.name) !== normalizeWhitespace(original.name)) {
+            warnings.push(`The name changed from ${original.name} to ${edited.name}; the original routine will be kept.`);
+        } else if (normalizeWhitespace(edited.args) !== normalizeWhitespace(original.args)) {
+            warnings.push('The argument list changed, so this creates a new overload instead of replacing the original routine.');
+        }
+    }
+
+    return { sql, warnings };
+}
+
+function extractRoutineHeader(sql: string): { kind: string; name: string; args: string } | null {
+    const match = CREATE_ROUTINE_PATTERN.exec(sql);
+    if (!match) {
+        return null;
+    }
+    const rest = sql.slice(match[0].length);
+    const open = rest.indexOf('(');
+    if (open < 0) {
+        return null;
+    }
+    let depth = 0;
+    let inQuote: string | null = null;
+    for (let i = open; i < rest.length; i++) {
+        const ch = rest[i];
+        if (inQuote) {
+            if (ch === inQuote) {
+                inQuote = null;
+            }
+            continue;
+        }
+        if (ch === '"' || ch === "'") {
+            inQuote = ch;
+        } else if (ch === '(') {
+            depth++;
+        } else if (ch === ')') {
+            depth--;
+            if (depth === 0) {
+                return {
+                    kind: match[2].toUpperCase(),
+                    name: rest.slice(0, open).trim(),
+                    args: rest.slice(open + 1, i)
+                };
+            }
+        }
+    }
+    return null;
+}
+
+function normalizeWhitespace(value: string): string {
+    return value.replace(/\s+/g, ' ').trim().toLowerCase();
+}
@@ -860,6 +860,12 @@ export class SchemaDesigner {
         useManualSql: boolean,
         manualSql: string
     ): Promise<void> {
+        const readOnly = await this.connectionManager.getReadOnlyError(connectionId, 'altering tables');
+        if (readOnly) {
+            panel.webview.postMessage({ command: 'executionComplete', success: false, error: readOnly });
+            return;
+        }
+
         const client = await this.connectionManager.getClient(connectionId);
         if (!client) {
             panel.webview.postMessage({ command: 'executionComplete', success: false, error: 'No active connection.' });
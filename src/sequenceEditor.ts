@@ -0,0 +1,142 @@
+// sequenceEditor.ts - Prompts, previews and applies sequence value changes
+
+import * as vscode from 'vscode';
+import { ConnectionManager } from './connectionManager';
+import { DatabaseTreeItem } from './databaseTreeProvider';
+import { SequenceInfo, SequenceManager } from './sequenceManager';
+import { buildRestartSequenceSql, buildResyncSequenceSql, buildSetSequenceValueSql } from './tableSqlBuilder';
+
+export class SequenceEditor {
+    constructor(
+        private readonly sequenceManager: SequenceManager,
+        private readonly connectionManager: ConnectionManager,
+        private readonly refreshTree: () => void
+    ) {}
+
+    async setValue(item?: DatabaseTreeItem): Promise<void> {
+        const target = await this.resolveSequence(item, 'Set Sequence Value');
+        if (!target) return;
+        const { connectionId, sequence } = target;
+
+        const value = await vscode.window.showInputBox({
+            prompt: `New current value for ${sequence.schemaName}.${sequence.name}; the next nextval() returns this value plus ${sequence.incrementBy}`,
+            value: sequence.lastValue ?? sequence.startValue,
+            validateInput: (input) => this.validateValue(input, sequence)
+        });
+        if (value === undefined) return;
+
+        await this.previewAndApply(connectionId, sequence, buildSetSequenceValueSql(sequence.schemaName, sequence.name, value.trim()));
+    }
+
+    async restart(item?: DatabaseTreeItem): Promise<void> {
+        const target = await this.resolveSequence(item, 'Restart Sequence');
+        if (!target) return;
+        const { connectionId, sequence } = target;
+
+        const value = await vscode.window.showInputBox({
+            prompt: `Restart ${sequence.schemaName}.${sequence.name}; the next nextval() returns this value`,
+            value: sequence.startValue,
+            validateInput: (input) => this.validateValue(input, sequence)
+        });
+        if (value === undefined) return;
+
+        await this.previewAndApply(connectionId, sequence, buildRestartSequenceSql(sequence.schemaName, sequence.name, value.trim()));
+    }
+
+    async resync(item?: DatabaseTreeItem): Promise<void> {
+        const target = await this.resolveSequence(item, 'Resync Sequence');
+        if (!target) return;
+        const { connectionId, sequence } = target;
+
+        const owner = sequence.ownedBy;
+        if (!owner) {
+            vscode.window.showErrorMessage(`${sequence.schemaName}.${sequence.name} is not owned by a column, so there is nothing to resync it to.`);
+            return;
+        }
+
+        let range: { max: string | null; min: string | null };
+        try {
+            range = await this.sequenceManager.getOwningColumnRange(connectionId, owner);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to read ${owner.tableName}.${owner.columnName}: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+
+        const descending = sequence.incrementBy.startsWith('-');
+        const boundary = descending ? range.min : range.max;
+        const summary = boundary === null
+            ? `${owner.tableName} is empty; the sequence restarts at ${descending ? sequence.maxValue : sequence.minValue}.`
+            : `${descending ? 'MIN' : 'MAX'}(${owner.columnName}) is ${boundary}; the sequence's last value is ${sequence.lastValue ?? 'not set'}.`;
+
+        await this.previewAndApply(
+            connectionId,
+            sequence,
+            buildResyncSequenceSql(sequence.schemaName, sequence.name, owner, {
+                increment: sequence.incrementBy,
+                minValue: sequence.minValue,
+                maxValue: sequence.maxValue
+            }),
+            summary
+        );
+    }
+
+    private async previewAndApply(connectionId: string, sequence: SequenceInfo, sql: string, summary?: string): Promise<void> {
+        const detail = summary ? `${summary}\n\n${sql}` : sql;
+        const confirmed = await vscode.window.showWarningMessage(
+            `Update sequence ${sequence.schemaName}.${sequence.name}?`,
+            { modal: true, detail },
+            'Apply'
+        );
+        if (confirmed !== 'Apply') return;
+
+        try {
+            await this.sequenceManager.executeSequenceSql(connectionId, sql);
+            vscode.window.showInformationMessage(`Sequence ${sequence.schemaName}.${sequence.name} updated`);
+            this.refreshTree();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to update sequence: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private validateValue(input: string, sequence: SequenceInfo): string | null {
+        const trimmed = input.trim();
+        if (!/^-?\d+$/.test(trimmed)) {
+            return 'Enter a whole number';
+        }
+        const value = BigInt(trimmed);
+        if (value < BigInt(sequence.minValue) || value > BigInt(sequence.maxValue)) {
+            return `Value must be between ${sequence.minValue} and ${sequence.maxValue}`;
+        }
+        return null;
+    }
+
+    /**
+     * Re-read the sequence so prompts show current values rather than what
+     * the tree displayed when it was last expanded.
+     */
+    private async resolveSequence(item: DatabaseTreeItem | undefined, action: string): Promise<{ connectionId: string; sequence: SequenceInfo } | null> {
+        if (!item || item.type !== 'sequence' || !item.connectionId || !item.sequence) {
+            vscode.window.showErrorMessage(`${action} must be invoked on a sequence node.`);
+            return null;
+        }
+
+        const readOnly = await this.connectionManager.getReadOnlyError(item.connectionId, 'changing sequences');
+        if (readOnly) {
+            vscode.window.showErrorMessage(readOnly);
+            return null;
+        }
+
+        try {
+            const [sequence] = await this.sequenceManager.getSequences(item.connectionId, item.sequence.schemaName, item.sequence.name);
+            if (!sequence) {
+                vscode.window.showErrorMessage(`Sequence ${item.sequence.schemaName}.${item.sequence.name} no longer exists.`);
+                this.refreshTree();
+                return null;
+            }
+            return { connectionId: item.connectionId, sequence };
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to load sequence: ${error instanceof Error ? error.message : String(error)}`);
+            return null;
+        }
+    }
+}
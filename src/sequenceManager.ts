@@ -0,0 +1,131 @@
+/**
+ * Sequence Management for PostgreSQL Data Editor
+ * Provides operations for inspecting sequences and moving their current value
+ */
+
+import { ConnectionManager } from './connectionManager';
+import { SequenceOwner, quoteIdentifier } from './tableSqlBuilder';
+import { info, debug } from './logger';
+
+export interface SequenceInfo {
+    schemaName: string;
+    name: string;
+    dataType: string;
+    // Bigint values are kept as strings so they survive the trip through JSON intact
+    lastValue: string | null;
+    startValue: string;
+    incrementBy: string;
+    minValue: string;
+    maxValue: string;
+    cycle: boolean;
+    ownedBy: SequenceOwner | null;
+}
+
+export class SequenceManager {
+    constructor(private connectionManager: ConnectionManager) {}
+
+    /**
+     * Get all sequences in a schema together with the column that owns them
+     * (serial OWNED BY or identity columns)
+     */
+    async getSequences(connectionId: string, schemaName: string, sequenceName?: string): Promise<SequenceInfo[]> {
+        const client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            throw new Error('Could not connect to database');
+        }
+
+        try {
+            const result = await client.query(`
+                SELECT s.sequencename,
+                       s.data_type::text AS data_type,
+                       s.last_value::text AS last_value,
+                       s.start_value::text AS start_value,
+                       s.increment_by::text AS increment_by,
+                       s.min_value::text AS min_value,
+                       s.max_value::text AS max_value,
+                       s.cycle,
+                       tn.nspname AS owner_schema,
+                       t.relname AS owner_table,
+                       a.attname AS owner_column
+                FROM pg_sequences s
+                JOIN pg_namespace n ON n.nspname = s.schemaname
+                JOIN pg_class c ON c.relnamespace = n.oid AND c.relname = s.sequencename
+                LEFT JOIN pg_depend d ON d.classid = 'pg_class'::regclass
+                    AND d.objid = c.oid
+                    AND d.refclassid = 'pg_class'::regclass
+                    AND d.refobjsubid > 0
+                    AND d.deptype IN ('a', 'i')
+                LEFT JOIN pg_class t ON t.oid = d.refobjid
+                LEFT JOIN pg_namespace tn ON tn.oid = t.relnamespace
+                LEFT JOIN pg_attribute a ON a.attrelid = d.refobjid AND a.attnum = d.refobjsubid
+                WHERE s.schemaname = $1
+                  AND ($2::text IS NULL OR s.sequencename = $2)
+                ORDER BY s.sequencename
+            `, [schemaName, sequenceName ?? null]);
+
+            return result.rows.map(row => ({
+                schemaName,
+                name: row.sequencename,
+                dataType: row.data_type,
+                lastValue: row.last_value ?? null,
+                startValue: row.start_value,
+                incrementBy: row.increment_by,
+                minValue: row.min_value,
+                maxValue: row.max_value,
+                cycle: Boolean(row.cycle),
+                ownedBy: row.owner_table && row.owner_column
+                    ? { schemaName: row.owner_schema, tableName: row.owner_table, columnName: row.owner_column }
+                    : null
+            }));
+        } catch (err) {
+            debug(`Error fetching sequences: ${err}`);
+            throw err;
+        }
+    }
+
+    /**
+     * Get the current MAX() and MIN() of a sequence's owning column
+     */
+    async getOwningColumnRange(connectionId: string, owner: SequenceOwner): Promise<{ max: string | null; min: string | null }> {
+        const client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            throw new Error('Could not connect to database');
+        }
+
+        const column = quoteIdentifier(owner.columnName);
+        try {
+            const result = await client.query(
+                `SELECT MAX(${column})::text AS max_value, MIN(${column})::text AS min_value FROM ${quoteIdentifier(owner.schemaName)}.${quoteIdentifier(owner.tableName)}`
+            );
+            return {
+                max: result.rows[0]?.max_value ?? null,
+                min: result.rows[0]?.min_value ?? null
+            };
+        } catch (err) {
+            debug(`Error fetching owning column range: ${err}`);
+            throw err;
+        }
+    }
+
+    /**
+     * Run a setval() / ALTER SEQUENCE statement
+     */
+    async executeSequenceSql(connectionId: string, sql: string): Promise<void> {
+        const client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            throw new Error('Could not connect to database');
+        }
+
+        this.connectionManager.markBusy(connectionId);
+
+        try {
+            await client.query(sql);
+            info('Sequence statement executed successfully');
+        } catch (err) {
+            debug(`Error executing sequence statement: ${err}`);
+            throw err;
+        } finally {
+            this.connectionManager.markIdle(connectionId);
+        }
+    }
+}
@@ -0,0 +1,90 @@
+// sessionSettings.ts - Per-connection settings applied to every session the
+// extension opens (timeouts, role, search_path, application_name)
+
+/**
+ * Values are kept as the user typed them; timeouts accept PostgreSQL units
+ * such as "30s" or "5min" and a bare number means milliseconds.
+ */
+export interface SessionSettings {
+    statementTimeout?: string;
+    lockTimeout?: string;
+    idleInTransactionSessionTimeout?: string;
+    role?: string;
+    searchPath?: string;
+    applicationName?: string;
+}
+
+// Shown in pg_stat_activity when the connection does not set its own name
+export const DEFAULT_APPLICATION_NAME = 'PostgreSQL Data Editor';
+
+const SETTING_KEYS: readonly (keyof SessionSettings)[] = [
+    'statementTimeout', 'lockTimeout', 'idleInTransactionSessionTimeout', 'role', 'searchPath', 'applicationName'
+];
+
+const TIMEOUT_PATTERN = /^\d+\s*(us|ms|s|min|h|d)?$/;
+
+// Server parameter behind each setting; application_name is sent as its own
+// startup parameter instead
+export const SESSION_SETTING_PARAMETERS: Record<Exclude<keyof SessionSettings, 'applicationName'>, string> = {
+    statementTimeout: 'statement_timeout',
+    lockTimeout: 'lock_timeout',
+    idleInTransactionSessionTimeout: 'idle_in_transaction_session_timeout',
+    role: 'role',
+    searchPath: 'search_path'
+};
+
+const TIMEOUT_LABELS: Record<'statementTimeout' | 'lockTimeout' | 'idleInTransactionSessionTimeout', string> = {
+    statementTimeout: 'Statement timeout',
+    lockTimeout: 'Lock timeout',
+    idleInTransactionSessionTimeout: 'Idle in transaction timeout'
+};
+
+/**
+ * Trim the settings received from a form, dropping blank ones. Returns
+ * undefined when nothing is set and throws when a timeout is not a valid
+ * PostgreSQL duration.
+ */
+export function normalizeSessionSettings(input: { [K in keyof SessionSettings]?: unknown }): SessionSettings | undefined {
+    const settings: SessionSettings = {};
+    for (const key of SETTING_KEYS) {
+        const value = typeof input[key] === 'string' ? (input[key] as string).trim() : '';
+        if (value) {
+            settings[key] = value;
+        }
+    }
+    for (const [key, label] of Object.entries(TIMEOUT_LABELS) as Array<[keyof typeof TIMEOUT_LABELS, string]>) {
+        const value = settings[key];
+        if (value !== undefined && !TIMEOUT_PATTERN.test(value)) {
+            throw new Error(`${label} must be a number of milliseconds or a duration such as 30s or 5min`);
+        }
+    }
+    return Object.keys(settings).length > 0 ? settings : undefined;
+}
+
+// libpq splits the options string on spaces; backslash escapes them
+function escapeOptionValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/ /g, '\\ ');
+}
+
+/**
+ * The startup `options` string (e.g. "-c statement_timeout=30s") that
+ * applies the settings when a session starts, or undefined when there is
+ * nothing to send. `baseOptions` (from a connection string) go first, so
+ * the settings win when both set a parameter.
+ */
+export function buildStartupOptions(settings: SessionSettings | undefined, readOnly?: boolean, baseOptions?: string): string | undefined {
+    const parts: string[] = [];
+    if (baseOptions?.trim()) {
+        parts.push(baseOptions.trim());
+    }
+    if (readOnly) {
+        parts.push('-c default_transaction_read_only=on');
+    }
+    for (const [key, parameter] of Object.entries(SESSION_SETTING_PARAMETERS) as Array<[keyof typeof SESSION_SETTING_PARAMETERS, string]>) {
+        const value = settings?.[key];
+        if (value) {
+            parts.push(`-c ${parameter}=${escapeOptionValue(value)}`);
+        }
+    }
+    return parts.length > 0 ? parts.join(' ') : undefined;
+}
@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { ConnectionManager } from './connectionManager';
+import { ConnectionEnvironment, ConnectionManager, formatEnvironmentBadge, withEnvironmentBadge } from './connectionManager';
 import { SqlTerminalProvider } from './sqlTerminalProvider';
 import { QueryHistory } from './queryHistory';
 import { SqlEditorResultView } from './sqlEditorResultView';
@@ -27,6 +27,10 @@ export class SqlEditor {
     private failedDecorationType: vscode.TextEditorDecorationType;
     private skippedDecorationType: vscode.TextEditorDecorationType;
     private statementStatusByDocUri = new Map<string, StatementExecutionStatus>();
+    private documentConnectionEmitter = new vscode.EventEmitter<vscode.TextDocument>();
+
+    // Fired after a document was pointed at another connection or cleared
+    readonly onDidChangeDocumentConnection = this.documentConnectionEmitter.event;
 
     constructor(
         private readonly context: vscode.ExtensionContext,
@@ -138,16 +142,20 @@ export class SqlEditor {
 
     async setConnectionForDocument(doc: vscode.TextDocument, connectionId: string, schema: string = 'public') {
         const key = this.getDocumentKey(doc);
+        await this.releaseDocumentSession(doc);
         await this.context.workspaceState.update(key, { connectionId, schema });
         this.updateStatusBar();
+        this.documentConnectionEmitter.fire(doc);
         // refresh code lenses
         vscode.commands.executeCommand('editor.action.codelens.refresh');
     }
 
     async clearConnectionForDocument(doc: vscode.TextDocument) {
         const key = this.getDocumentKey(doc);
+        await this.releaseDocumentSession(doc);
         await this.context.workspaceState.update(key, undefined);
         this.updateStatusBar();
+        this.documentConnectionEmitter.fire(doc);
         vscode.commands.executeCommand('editor.action.codelens.refresh');
     }
 
@@ -155,6 +163,16 @@ export class SqlEditor {
         // If document is untitled and closed, clear workspace state mapping
         if (doc.isUntitled) {
             this.clearConnectionForDocument(doc).catch(() => {});
+        } else {
+            this.releaseDocumentSession(doc).catch(() => {});
+        }
+    }
+
+    // Each SQL document runs on its own session, keyed by its URI
+    private async releaseDocumentSession(doc: vscode.TextDocument) {
+        const mapping = this.getSavedConnectionForDocument(doc);
+        if (mapping.connectionId) {
+            await this.connectionManager.releaseSession(mapping.connectionId, doc.uri.toString());
         }
     }
 
@@ -171,15 +189,30 @@ export class SqlEditor {
                 const configs = await this.connectionManager.getConnections();
                 const cfg = configs.find(c => c.id === mapping.connectionId);
                 const name = cfg ? cfg.name : 'Unknown';
-                this.statusBarItem.text = `$(database) SQL: ${name}`;
+                const badge = formatEnvironmentBadge(cfg?.environment);
+                this.statusBarItem.text = badge ? `$(database) SQL: ${name} [${badge}]` : `$(database) SQL: ${name}`;
+                this.statusBarItem.backgroundColor = this.getEnvironmentBackground(cfg?.environment);
                 this.statusBarItem.show();
             })();
         } else {
             this.statusBarItem.text = '$(database) SQL: (Choose Connection)';
+            this.statusBarItem.backgroundColor = undefined;
             this.statusBarItem.show();
         }
     }
 
+    // Status bar items only support the warning and error background colors
+    private getEnvironmentBackground(environment: ConnectionEnvironment | undefined): vscode.ThemeColor | undefined {
+        switch (environment) {
+            case 'prod':
+                return new vscode.ThemeColor('statusBarItem.errorBackground');
+            case 'staging':
+                return new vscode.ThemeColor('statusBarItem.warningBackground');
+            default:
+                return undefined;
+        }
+    }
+
     async selectDocumentConnection() {
         const editor = vscode.window.activeTextEditor;
         if (!editor || !isSqlLikeLanguage(editor.document.languageId)) {
@@ -459,7 +492,8 @@ export class SqlEditor {
                 mapping.connectionId!,
                 databaseName,
                 mapping.schema || 'public',
-                statement.sql
+                statement.sql,
+                doc.uri.toString()
             );
 
             totalExecutionTime += r.executionTime;
@@ -487,7 +521,7 @@ export class SqlEditor {
         this.applyStatementDecorations(doc, status);
 
         if (selectResults.length > 0) {
-            this.resultView.showMultipleQueryResults(`SQL Result - ${doc.fileName}`, selectResults);
+            this.resultView.showMultipleQueryResults(withEnvironmentBadge(`SQL Result - ${doc.fileName}`, cfg?.environment), selectResults);
         }
 
         if (errorMessage) {
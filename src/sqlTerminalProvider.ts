@@ -4,14 +4,111 @@
  */
 
 import * as vscode from 'vscode';
-import { ConnectionManager } from './connectionManager';
+import { ConnectionColor, ConnectionManager, describeQueryError, formatEnvironmentBadge, readOnlyError, withEnvironmentBadge } from './connectionManager';
 import { QueryHistory } from './queryHistory';
+import { quoteLiteral } from './tableSqlBuilder';
+
+// Terminal tab colors must come from the terminal's ANSI palette
+const TERMINAL_COLORS: Record<ConnectionColor, string> = {
+    red: 'terminal.ansiRed',
+    orange: 'terminal.ansiBrightRed',
+    yellow: 'terminal.ansiYellow',
+    green: 'terminal.ansiGreen',
+    blue: 'terminal.ansiBlue',
+    purple: 'terminal.ansiMagenta'
+};
+
+// Statements that would switch a read-only session back to read-write,
+// matched at the start of each statement
+const READ_WRITE_PATTERNS = [
+    /^SET\s+((SESSION|LOCAL)\s+)?(default_)?transaction_read_only\b/i,
+    /^SET\s+(SESSION\s+CHARACTERISTICS\s+AS\s+)?TRANSACTION\b[^;]*\bREAD\s+WRITE\b/i,
+    /^(BEGIN|START\s+TRANSACTION)\b[^;]*\bREAD\s+WRITE\b/i
+];
+// set_config() does the same as SET from inside any statement
+const SET_CONFIG_PATTERN = /\bset_config\s*\(\s*'(default_)?transaction_read_only'/i;
+
+/**
+ * The statements of a script with comments removed, split on semicolons
+ * outside string literals, quoted identifiers and dollar quotes.
+ */
+function splitStatements(sql: string): string[] {
+    const statements: string[] = [];
+    let current = '';
+    let i = 0;
+    while (i < sql.length) {
+        const ch = sql[i];
+        const rest = sql.slice(i);
+        if (rest.startsWith('--')) {
+            const end = sql.indexOf('\n', i);
+            i = end === -1 ? sql.length : end;
+            current += ' ';
+            continue;
+        }
+        if (rest.startsWith('/*')) {
+            // Block comments nest in PostgreSQL
+            let depth = 0;
+            while (i < sql.length) {
+                if (sql.startsWith('/*', i)) { depth++; i += 2; }
+                else if (sql.startsWith('*/', i)) { depth--; i += 2; if (depth === 0) break; }
+                else { i++; }
+            }
+            current += ' ';
+            continue;
+        }
+        const dollar = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(rest);
+        if (dollar && !/[A-Za-z0-9_]/.test(sql[i - 1] ?? '')) {
+            const end = sql.indexOf(dollar[0], i + dollar[0].length);
+            const stop = end === -1 ? sql.length : end + dollar[0].length;
+            current += sql.slice(i, stop);
+            i = stop;
+            continue;
+        }
+        if (ch === '\'' || ch === '"') {
+            // E'' strings escape quotes with a backslash as well as by doubling
+            const backslashEscapes = ch === '\'' && /[Ee]/.test(sql[i - 1] ?? '') && !/[A-Za-z0-9_]/.test(sql[i - 2] ?? '');
+            let j = i + 1;
+            while (j < sql.length) {
+                if (backslashEscapes && sql[j] === '\\') { j += 2; continue; }
+                if (sql[j] === ch) {
+                    if (sql[j + 1] === ch) { j += 2; continue; }
+                    break;
+                }
+                j++;
+            }
+            current += sql.slice(i, j + 1);
+            i = j + 1;
+            continue;
+        }
+        if (ch === ';') {
+            statements.push(current.trim());
+            current = '';
+        } else {
+            current += ch;
+        }
+        i++;
+    }
+    statements.push(current.trim());
+    return statements.filter(statement => statement.length > 0);
+}
+
+function switchesToReadWrite(sql: string): boolean {
+    return splitStatements(sql).some(statement =>
+        READ_WRITE_PATTERNS.some(pattern => pattern.test(statement)) || SET_CONFIG_PATTERN.test(statement)
+    );
+}
+
+function searchPathStatement(schema: string): string {
+    return `SET search_path TO "${schema}", public`;
+}
 
 interface TerminalState {
     connectionId: string;
     connectionName: string;
     database: string;
     schema: string;
+    // Owner key of the terminal's dedicated database session
+    sessionOwner: string;
 }
 
 /**
@@ -201,6 +298,7 @@ export class HistoryNavigator {
 
 export class SqlTerminalProvider {
     private terminals: Map<vscode.Terminal, TerminalState> = new Map();
+    private nextTerminalId = 1;
     private readonly connectionManager: ConnectionManager;
     private readonly queryHistory: QueryHistory;
 
@@ -273,6 +371,15 @@ export class SqlTerminalProvider {
         const lineEditor = new LineEditor();
         const escapeParser = new EscapeSequenceParser();
         const historyNavigator = new HistoryNavigator(this.queryHistory, selectedConnection.id);
+        // Each terminal runs on its own session so a BEGIN or a long query
+        // here doesn't affect the explorer or the data editors
+        const sessionOwner = `terminal:${this.nextTerminalId++}`;
+        // Applied whenever the session opens, including after a reconnect;
+        // executeQuery replaces it when the user changes the search_path
+        this.connectionManager.setSessionSetup(selectedConnection.id, sessionOwner, [searchPathStatement(schema)]);
+        closeEmitter.event(() => {
+            void this.connectionManager.releaseSession(selectedConnection!.id, sessionOwner);
+        });
         let commandBuffer = '';
         let inMultiLine = false;
         let simpleMode = false; // fallback mode if advanced editing fails
@@ -303,7 +410,15 @@ export class SqlTerminalProvider {
                 const prompt = `\x1b[32m${selectedConnection!.username}@${selectedConnection!.name}/${selectedConnection!.database}/${schema}\x1b[0m > `;
                 writeEmitter.fire(`\x1b[1mPostgreSQL SQL Terminal\x1b[0m\r\n`);
                 writeEmitter.fire(`Connected to: ${selectedConnection!.name} (${selectedConnection!.host}:${selectedConnection!.port})\r\n`);
+                const badge = formatEnvironmentBadge(selectedConnection!.environment);
+                if (badge) {
+                    // Red for production, yellow for everything else
+                    writeEmitter.fire(`Environment: \x1b[1;${selectedConnection!.environment === 'prod' ? '41' : '43'}m ${badge} \x1b[0m\r\n`);
+                }
                 writeEmitter.fire(`Database: ${selectedConnection!.database}\r\n`);
+                if (selectedConnection!.readOnly) {
+                    writeEmitter.fire(`Mode: \x1b[1mread-only\x1b[0m (writes are rejected by the server)\r\n`);
+                }
                 writeEmitter.fire(`Schema: ${schema}\r\n`);
                 writeEmitter.fire(`\r\nType SQL commands and press Enter. Use ; to execute. Type \\q to quit.\r\n\r\n`);
                 writeEmitter.fire(prompt);
@@ -356,7 +471,8 @@ export class SqlTerminalProvider {
                                     selectedConnection!.name,
                                     selectedConnection!.database,
                                     schema,
-                                    sql
+                                    sql,
+                                    sessionOwner
                                 );
                                 commandBuffer = '';
                                 inMultiLine = false;
@@ -403,7 +519,8 @@ export class SqlTerminalProvider {
                                 selectedConnection!.name,
                                 selectedConnection!.database,
                                 schema,
-                                sql
+                                sql,
+                                sessionOwner
                             );
                             commandBuffer = '';
                             inMultiLine = false;
@@ -507,7 +624,8 @@ export class SqlTerminalProvider {
 
         if (vscode.window && typeof vscode.window.createTerminal === 'function') {
             const terminal = vscode.window.createTerminal({
-                name: `SQL: ${selectedConnection.name}/${selectedConnection.database}`,
+                name: withEnvironmentBadge(`SQL: ${selectedConnection.name}/${selectedConnection.database}`, selectedConnection.environment),
+                color: selectedConnection.color ? new vscode.ThemeColor(TERMINAL_COLORS[selectedConnection.color]) : undefined,
                 pty
             });
 
@@ -515,7 +633,8 @@ export class SqlTerminalProvider {
                 connectionId: selectedConnection.id,
                 connectionName: selectedConnection.name,
                 database: selectedConnection.database,
-                schema: schema
+                schema: schema,
+                sessionOwner
             });
 
             terminal.show();
@@ -542,20 +661,25 @@ export class SqlTerminalProvider {
         connectionName: string,
         database: string,
         schema: string,
-        sql: string
+        sql: string,
+        sessionOwner: string
     ): Promise<void> {
         const startTime = Date.now();
 
+        this.connectionManager.markBusy(connectionId);
         try {
-            const client = await this.connectionManager.getClient(connectionId);
+            const blocked = await this.checkReadOnlyOverride(connectionId, sql);
+            if (blocked) {
+                writeEmitter.fire(`\x1b[31mERROR: ${blocked}\x1b[0m\r\n`);
+                return;
+            }
+
+            const client = await this.connectionManager.getSession(connectionId, sessionOwner);
             if (!client) {
                 writeEmitter.fire(`\x1b[31mError: Not connected to database\x1b[0m\r\n`);
                 return;
             }
 
-            // Set search path to the specified schema
-            await client.query(`SET search_path TO "${schema}", public`);
-
             // Warn for very large SQL strings
             if (sql.length > MAX_LINE_LENGTH) {
                 writeEmitter.fire(`\x1b[33mWarning: executing very large SQL (${Math.round(sql.length/1024)} KB). This may take a while.\x1b[0m\r\n`);
@@ -564,6 +688,7 @@ export class SqlTerminalProvider {
             // Execute the query
             const result = await client.query(sql);
             const executionTime = Date.now() - startTime;
+            await this.rememberSearchPath(client, connectionId, sessionOwner, sql);
 
             // Log to query history
             console.log(`[SqlTerminal] Adding query to history: ${sql.substring(0, 50)}...`);
@@ -623,34 +748,48 @@ export class SqlTerminalProvider {
 
         } catch (error) {
             const executionTime = Date.now() - startTime;
-            const errorMsg = error instanceof Error ? error.message : String(error);
+            const errorMsg = describeQueryError(error, connectionName);
             writeEmitter.fire(`\x1b[31mERROR: ${errorMsg}\x1b[0m\r\n`);
             writeEmitter.fire(`\x1b[90m(${executionTime}ms)\x1b[0m\r\n`);
+        } finally {
+            this.connectionManager.markIdle(connectionId);
         }
     }
 
     /**
      * Execute SQL and return raw results (no terminal output). Logs to query history and
      * triggers query history refresh. Returns the `pg` result and executionTime.
+     * With a `sessionOwner` (e.g. a document URI) the SQL runs on that owner's
+     * dedicated session instead of the shared client.
      */
     public async executeSqlSilent(
         connectionId: string,
         database: string,
         schema: string,
-        sql: string
+        sql: string,
+        sessionOwner?: string
     ): Promise<{ result?: any; executionTime: number; error?: string }> {
         const startTime = Date.now();
+        this.connectionManager.markBusy(connectionId);
         try {
+            const blocked = await this.checkReadOnlyOverride(connectionId, sql);
+            if (blocked) {
+                return { executionTime: Date.now() - startTime, error: blocked };
+            }
+
             let client = await this.connectionManager.getClient(connectionId);
             if (!client) {
                 // Try to connect if not already connected
                 client = await this.connectionManager.connect(connectionId);
-                if (!client) {
-                    return { executionTime: Date.now() - startTime, error: 'Not connected' };
-                }
+            }
+            if (client && sessionOwner) {
+                client = await this.connectionManager.getSession(connectionId, sessionOwner);
+            }
+            if (!client) {
+                return { executionTime: Date.now() - startTime, error: 'Not connected' };
             }
 
-            await client.query(`SET search_path TO "${schema}", public`);
+            await client.query(searchPathStatement(schema));
 
             if (sql.length > MAX_LINE_LENGTH) {
                 // Keep the same warning behavior as the terminal (but don't write to Terminal)
@@ -680,8 +819,46 @@ export class SqlTerminalProvider {
             return { result, executionTime };
         } catch (err) {
             const executionTime = Date.now() - startTime;
-            return { executionTime, error: err instanceof Error ? err.message : String(err) };
+            const conn = (await this.connectionManager.getConnections()).find(c => c.id === connectionId);
+            return { executionTime, error: describeQueryError(err, conn?.name ?? connectionId) };
+        } finally {
+            this.connectionManager.markIdle(connectionId);
+        }
+    }
+
+    /**
+     * After a statement that may have changed the search_path, make the
+     * session's current one what a reconnect restores instead of the schema
+     * the terminal was opened with.
+     */
+    private async rememberSearchPath(client: { query(sql: string): Promise<any> }, connectionId: string, sessionOwner: string, sql: string): Promise<void> {
+        if (!/\bsearch_path\b/i.test(sql)) {
+            return;
+        }
+        try {
+            const result = await client.query(`SELECT current_setting('search_path') AS search_path`);
+            const searchPath = result.rows?.[0]?.search_path;
+            if (typeof searchPath === 'string') {
+                this.connectionManager.setSessionSetup(connectionId, sessionOwner, [
+                    `SELECT pg_catalog.set_config('search_path', ${quoteLiteral(searchPath)}, false)`
+                ]);
+            }
+        } catch (error) {
+            // e.g. the statement left the transaction aborted; keep the previous setup
+            console.log('[SqlTerminal] Failed to read the search_path', error);
+        }
+    }
+
+    /**
+     * The server enforces read-only connections, but a session can opt back
+     * into writes with SET or BEGIN READ WRITE; refuse those up front.
+     */
+    private async checkReadOnlyOverride(connectionId: string, sql: string): Promise<string | undefined> {
+        if (!switchesToReadWrite(sql)) {
+            return undefined;
         }
+        const conn = (await this.connectionManager.getConnections()).find(c => c.id === connectionId);
+        return readOnlyError(conn, 'switching the session to read-write');
     }
 }
 
@@ -0,0 +1,138 @@
+// sshTunnel.ts - Forwards a local port to a database host through an SSH bastion
+
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import type { ConnectConfig } from 'ssh2';
+import { debug } from './logger';
+
+export type SshAuthMethod = 'privateKey' | 'agent';
+
+export const SSH_AUTH_METHODS: readonly SshAuthMethod[] = ['privateKey', 'agent'];
+
+export interface SshTunnelConfig {
+    host: string;
+    port: number;
+    username: string;
+    authMethod: SshAuthMethod;
+    // Only used with the privateKey method. The key passphrase lives in SecretStorage.
+    privateKeyPath?: string;
+}
+
+export interface SshTunnel {
+    // Address node-postgres connects to instead of the database host
+    readonly localHost: string;
+    readonly localPort: number;
+    close(): Promise<void>;
+}
+
+/**
+ * ssh2 authentication options for a tunnel. The agent socket comes from
+ * SSH_AUTH_SOCK, or the OpenSSH agent pipe on Windows.
+ */
+export function buildSshAuth(
+    settings: SshTunnelConfig,
+    passphrase?: string,
+    readFile: (path: string) => string = (path) => fs.readFileSync(path, 'utf8'),
+    env: NodeJS.ProcessEnv = process.env,
+    platform: NodeJS.Platform = process.platform
+): Pick<ConnectConfig, 'privateKey' | 'passphrase' | 'agent'> {
+    if (settings.authMethod === 'agent') {
+        const agent = env.SSH_AUTH_SOCK || (platform === 'win32' ? '\\\\.\\pipe\\openssh-ssh-agent' : undefined);
+        if (!agent) {
+            throw new Error('No SSH agent is running (SSH_AUTH_SOCK is not set); use a private key instead');
+        }
+        return { agent };
+    }
+
+    if (!settings.privateKeyPath) {
+        throw new Error('SSH tunnel needs a private key file');
+    }
+    // Expand ~ the way ssh does so paths can be copied from ~/.ssh/config
+    const keyPath = settings.privateKeyPath.replace(/^~(?=$|[\\/])/, os.homedir());
+    return passphrase
+        ? { privateKey: readFile(keyPath), passphrase }
+        : { privateKey: readFile(keyPath) };
+}
+
+/**
+ * Connect to the bastion and listen on a random loopback port; every socket
+ * accepted there is forwarded to `target` over the SSH connection.
+ * The tunnel closes itself when the SSH connection drops.
+ */
+export async function openSshTunnel(
+    settings: SshTunnelConfig,
+    target: { host: string; port: number },
+    passphrase?: string,
+    readFile?: (path: string) => string
+): Promise<SshTunnel> {
+    const auth = buildSshAuth(settings, passphrase, readFile);
+
+    // Imported at call-time like 'pg' so connections without a tunnel never
+    // load ssh2. The CommonJS exports are read through `default` because
+    // Jest's ESM loader cannot see ssh2's named exports.
+    const { Client } = (await import('ssh2')).default;
+    const ssh = new Client();
+
+    await new Promise<void>((resolve, reject) => {
+        ssh.once('ready', () => resolve());
+        ssh.once('error', reject);
+        ssh.connect({
+            host: settings.host,
+            port: settings.port,
+            username: settings.username,
+            readyTimeout: 20000,
+            keepaliveInterval: 15000,
+            ...auth
+        });
+    });
+
+    const sockets = new Set<net.Socket>();
+    const server = net.createServer((socket) => {
+        sockets.add(socket);
+        socket.on('close', () => sockets.delete(socket));
+        socket.on('error', (err) => debug(`SSH tunnel socket error: ${err}`));
+
+        ssh.forwardOut(socket.remoteAddress ?? '127.0.0.1', socket.remotePort ?? 0, target.host, target.port, (err, stream) => {
+            if (err) {
+                debug(`SSH tunnel could not reach ${target.host}:${target.port}: ${err}`);
+                socket.destroy();
+                return;
+            }
+            stream.on('error', (streamErr: Error) => debug(`SSH tunnel stream error: ${streamErr}`));
+            stream.on('close', () => socket.destroy());
+            socket.on('close', () => stream.destroy());
+            socket.pipe(stream).pipe(socket);
+        });
+    });
+
+    try {
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(0, '127.0.0.1', () => resolve());
+        });
+    } catch (err) {
+        ssh.end();
+        throw err;
+    }
+
+    let closed = false;
+    const close = async (): Promise<void> => {
+        if (closed) return;
+        closed = true;
+        for (const socket of sockets) {
+            socket.destroy();
+        }
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+        ssh.end();
+    };
+
+    ssh.on('error', (err) => debug(`SSH tunnel error: ${err}`));
+    ssh.on('close', () => { void close(); });
+
+    return {
+        localHost: '127.0.0.1',
+        localPort: (server.address() as net.AddressInfo).port,
+        close
+    };
+}
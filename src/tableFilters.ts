@@ -0,0 +1,158 @@
+// tableFilters.ts - Turns the data editor's column filters into parameterized
+// conditions that compare in the column's own type
+
+import { quoteIdentifier } from './tableSqlBuilder';
+import type { ColumnFilter, ColumnInfo, FilterOperator } from './types';
+
+export type FilterTypeCategory = 'number' | 'temporal' | 'boolean' | 'text' | 'enum' | 'other';
+
+// Kept in step with webview/src/lib/filterOperators.ts, which offers them in the grid
+const OPERATORS_BY_CATEGORY: Record<FilterTypeCategory, FilterOperator[]> = {
+    number: ['equals', 'notEquals', 'lessThan', 'lessOrEqual', 'greaterThan', 'greaterOrEqual', 'between', 'in', 'isNull', 'isNotNull'],
+    temporal: ['equals', 'notEquals', 'lessThan', 'lessOrEqual', 'greaterThan', 'greaterOrEqual', 'between', 'isNull', 'isNotNull'],
+    boolean: ['isTrue', 'isFalse', 'isNull', 'isNotNull'],
+    text: ['contains', 'startsWith', 'equals', 'notEquals', 'in', 'isNull', 'isNotNull'],
+    enum: ['equals', 'notEquals', 'in', 'isNull', 'isNotNull'],
+    other: ['contains', 'isNull', 'isNotNull']
+};
+
+const ALL_OPERATORS = new Set<FilterOperator>(Object.values(OPERATORS_BY_CATEGORY).flat());
+
+const COMPARISONS: Partial<Record<FilterOperator, string>> = {
+    equals: '=',
+    notEquals: '<>',
+    lessThan: '<',
+    lessOrEqual: '<=',
+    greaterThan: '>',
+    greaterOrEqual: '>='
+};
+
+export function filterTypeCategory(column: Pick<ColumnInfo, 'type' | 'enumValues'>): FilterTypeCategory {
+    const type = String(column.type).toLowerCase();
+    if (type.endsWith('[]')) {
+        return 'other';
+    }
+    if (column.enumValues && column.enumValues.length > 0) {
+        return 'enum';
+    }
+    if (type === 'boolean' || type === 'bool') {
+        return 'boolean';
+    }
+    if (/^(smallint|integer|bigint|int[248]?|numeric|decimal|real|double precision|float[48]?|money)\b/.test(type)) {
+        return 'number';
+    }
+    if (/^(date|time|timestamp|interval)\b/.test(type)) {
+        return 'temporal';
+    }
+    if (/^(text|character|char|varchar|bpchar|citext|name|uuid|inet|cidr|macaddr)\b/.test(type)) {
+        return 'text';
+    }
+    return 'other';
+}
+
+export function operatorsForColumn(column: Pick<ColumnInfo, 'type' | 'enumValues'>): FilterOperator[] {
+    return OPERATORS_BY_CATEGORY[filterTypeCategory(column)];
+}
+
+/**
+ * Filters from a webview message, with anything malformed dropped. Whether
+ * the operator suits the column is checked when the SQL is built.
+ */
+export function normalizeFilters(incoming: unknown): ColumnFilter[] {
+    if (!Array.isArray(incoming)) {
+        return [];
+    }
+    const filters: ColumnFilter[] = [];
+    for (const entry of incoming) {
+        if (!entry || typeof entry !== 'object') continue;
+        const { column, operator, values } = entry as Record<string, unknown>;
+        if (typeof column !== 'string' || !ALL_OPERATORS.has(operator as FilterOperator)) continue;
+        filters.push({
+            column,
+            operator: operator as FilterOperator,
+            values: Array.isArray(values) ? values.filter((value): value is string => typeof value === 'string') : []
+        });
+    }
+    return filters;
+}
+
+/**
+ * The type parameters are cast to: the column's type without its modifier,
+ * so that e.g. a varchar(3) filter value isn't truncated before comparing.
+ */
+export function filterParameterType(type: string): string {
+    const base = type.replace(/\(\s*\d+(?:\s*,\s*-?\d+)?\s*\)/g, '').replace(/\s+/g, ' ').trim();
+    // Without a length, character means character(1)
+    return /^(character|char)$/i.test(base) ? 'bpchar' : base;
+}
+
+function escapeLikePattern(value: string): string {
+    return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+/**
+ * One condition per usable filter, in order. `parameter` turns a value into
+ * SQL (a $n placeholder, or a literal); filters on unknown columns, with an
+ * operator the column's type doesn't offer, or missing values are skipped.
+ */
+export function buildFilterConditions(
+    filters: ColumnFilter[],
+    columns: ColumnInfo[],
+    parameter: (value: string) => string
+): string[] {
+    const conditions: string[] = [];
+    for (const filter of Array.isArray(filters) ? filters : []) {
+        const column = columns.find(c => c.name === filter.column);
+        if (!column || !operatorsForColumn(column).includes(filter.operator)) {
+            continue;
+        }
+        const values = (filter.values ?? []).map(value => value.trim());
+        const [first, second] = values;
+        const quoted = quoteIdentifier(column.name);
+        const cast = (value: string) => `CAST(${parameter(value)} AS ${filterParameterType(column.type)})`;
+
+        switch (filter.operator) {
+            case 'isNull':
+                conditions.push(`${quoted} IS NULL`);
+                break;
+            case 'isNotNull':
+                conditions.push(`${quoted} IS NOT NULL`);
+                break;
+            case 'isTrue':
+                conditions.push(`${quoted} = TRUE`);
+                break;
+            case 'isFalse':
+                conditions.push(`${quoted} = FALSE`);
+                break;
+            case 'contains':
+                if (first) {
+                    conditions.push(`CAST(${quoted} AS TEXT) ILIKE ${parameter(`%${escapeLikePattern(first)}%`)}`);
+                }
+                break;
+            case 'startsWith':
+                if (first) {
+                    conditions.push(`CAST(${quoted} AS TEXT) ILIKE ${parameter(`${escapeLikePattern(first)}%`)}`);
+                }
+                break;
+            case 'between':
+                if (first && second) {
+                    conditions.push(`${quoted} BETWEEN ${cast(first)} AND ${cast(second)}`);
+                }
+                break;
+            case 'in': {
+                const listed = values.filter(value => value.length > 0);
+                if (listed.length > 0) {
+                    conditions.push(`${quoted} IN (${listed.map(cast).join(', ')})`);
+                }
+                break;
+            }
+            default: {
+                const comparison = COMPARISONS[filter.operator];
+                if (comparison && first) {
+                    conditions.push(`${quoted} ${comparison} ${cast(first)}`);
+                }
+            }
+        }
+    }
+    return conditions;
+}
@@ -0,0 +1,264 @@
+// tablePagination.ts - Builds the data editor's page queries, seeking past the
+// previous page's last row (keyset pagination) when the ordering allows it
+
+import * as vscode from 'vscode';
+import { quoteIdentifier } from './tableSqlBuilder';
+import type { ColumnInfo, SortDescriptor } from './types';
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 10_000;
+
+// Key columns are also selected as text under these aliases, so that the next
+// page can start after them without losing precision (e.g. microseconds)
+const KEY_ALIAS_PREFIX = '__keyset_';
+
+export function clampPageSize(value: unknown): number | undefined {
+    const size = Number(value);
+    return Number.isFinite(size) && size >= 1 ? Math.min(Math.floor(size), MAX_PAGE_SIZE) : undefined;
+}
+
+export function getPageSize(): number {
+    const configured = vscode.workspace.getConfiguration('postgresDataEditor').get<number>('paginationSize', DEFAULT_PAGE_SIZE);
+    return clampPageSize(configured) ?? DEFAULT_PAGE_SIZE;
+}
+
+export function lastPageIndex(totalRows: number, pageSize: number): number {
+    return Math.max(0, Math.ceil(totalRows / pageSize) - 1);
+}
+
+// Below this many estimated rows the exact count is cheap enough to run
+export const EXACT_COUNT_LIMIT = 100_000;
+
+/**
+ * The planner's estimate of the rows matching a filter, which costs no scan.
+ * Reads the first row of `EXPLAIN (FORMAT JSON)`.
+ */
+export function buildRowEstimateQuery(table: string, whereClause: string): string {
+    return `EXPLAIN (FORMAT JSON) SELECT 1 FROM ${table}${whereClause ? ` ${whereClause}` : ''}`;
+}
+
+export function readRowEstimate(rows: Array<Record<string, unknown>>): number | undefined {
+    const plans = rows[0]?.['QUERY PLAN'];
+    const plan = Array.isArray(plans) ? plans[0]?.Plan : undefined;
+    const estimate = Number(plan?.['Plan Rows']);
+    return Number.isFinite(estimate) && estimate >= 0 ? Math.round(estimate) : undefined;
+}
+
+export interface SeekOrder {
+    columns: string[];
+    descending: boolean;
+}
+
+/**
+ * Columns that order the rows uniquely and without NULLs: the sort column
+ * followed by the primary key, or the primary key alone. Null when the
+ * relation has no primary key (among its columns) or the sort column allows
+ * NULLs, in which case pages are read with OFFSET.
+ */
+export function seekOrder(columns: ColumnInfo[], primaryKey: string[], sort: SortDescriptor | null): SeekOrder | null {
+    const names = new Set(columns.map(c => c.name));
+    if (primaryKey.length === 0 || !primaryKey.every(name => names.has(name))) {
+        return null;
+    }
+    if (!sort) {
+        return { columns: [...primaryKey], descending: false };
+    }
+    const column = columns.find(c => c.name === sort.column);
+    if (!column || (column.nullable && !primaryKey.includes(column.name))) {
+        return null;
+    }
+    return {
+        columns: [sort.column, ...primaryKey.filter(name => name !== sort.column)],
+        descending: sort.direction === 'desc'
+    };
+}
+
+/**
+ * Where the page on screen starts and ends. Only valid for the query it was
+ * read with: same order, filters and page size.
+ */
+export interface KeysetCursor {
+    scope: string;
+    page: number;
+    // Key columns of the first and last row, as text
+    first: string[];
+    last: string[];
+}
+
+export interface PageQueryInput {
+    // Quoted schema-qualified relation
+    table: string;
+    // "WHERE ..." or empty, with $1..$n placeholders for `values`
+    whereClause: string;
+    values: unknown[];
+    sort: SortDescriptor | null;
+    order: SeekOrder | null;
+    page: number;
+    pageSize: number;
+    // Only used to tell which page is the last one and how many rows it holds
+    totalRows: number;
+    // totalRows is the planner's estimate: the last page then holds the last
+    // `pageSize` rows, since how many rows are left for it is unknown
+    totalRowsEstimated?: boolean;
+    cursor?: KeysetCursor;
+}
+
+export interface PageQuery {
+    text: string;
+    values: unknown[];
+    // Read from the end; the rows must be reversed for display
+    reversed: boolean;
+    // The page was located with the keys of a neighbouring page or from the end
+    seek: boolean;
+    scope?: string;
+    // Rows of the page; a forward read asks for one more to learn whether a next page exists
+    limit: number;
+    // Known from where the page was read: false for the last page, true before the page on screen
+    hasNextPage?: boolean;
+}
+
+export function pageQueryScope(input: Pick<PageQueryInput, 'order' | 'pageSize' | 'whereClause' | 'values'>): string {
+    return JSON.stringify([input.order, input.pageSize, input.whereClause, input.values]);
+}
+
+/**
+ * SELECT for one page. With a seek order the first page, the pages next to
+ * the one on screen and the last page are found through the order's index
+ * instead of counting past every earlier row; other pages fall back to
+ * OFFSET in the same order. With an estimated total the last page holds
+ * the last `pageSize` rows, so it needs no exact row count.
+ */
+export function buildPageQuery(input: PageQueryInput): PageQuery {
+    const { table, whereClause, values, order, page, pageSize } = input;
+    const where = whereClause ? ` ${whereClause}` : '';
+
+    if (!order) {
+        const orderClause = input.sort
+            ? ` ORDER BY ${quoteIdentifier(input.sort.column)} ${input.sort.direction === 'desc' ? 'DESC' : 'ASC'}`
+            : '';
+        return {
+            text: `SELECT * FROM ${table}${where}${orderClause} LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+            values: [...values, pageSize, page * pageSize],
+            reversed: false,
+            seek: false,
+            limit: pageSize
+        };
+    }
+
+    const scope = pageQueryScope(input);
+    const cursor = input.cursor?.scope === scope ? input.cursor : undefined;
+    const lastPage = lastPageIndex(input.totalRows, pageSize);
+
+    let keys: string[] | undefined;
+    // Comparison in ascending terms; flipped below for descending orders
+    let comparison: '>' | '>=' | '<' | undefined;
+    let reversed = false;
+    let hasNextPage: boolean | undefined;
+    let limit = pageSize;
+    let offset = 0;
+    if (page === 0) {
+        // From the start
+    } else if (cursor && page === cursor.page + 1) {
+        keys = cursor.last;
+        comparison = '>';
+    } else if (cursor && page === cursor.page) {
+        keys = cursor.first;
+        comparison = '>=';
+    } else if (cursor && page === cursor.page - 1) {
+        keys = cursor.first;
+        comparison = '<';
+        reversed = true;
+        hasNextPage = true;
+    } else if (page >= lastPage) {
+        // Read the rows of the last page backwards from the end
+        reversed = true;
+        hasNextPage = false;
+        if (!input.totalRowsEstimated) {
+            limit = Math.max(1, input.totalRows - lastPage * pageSize);
+        }
+    } else {
+        offset = page * pageSize;
+    }
+
+    const quoted = order.columns.map(quoteIdentifier);
+    const params = [...values];
+    const conditions: string[] = [];
+    if (keys && comparison) {
+        const operator = order.descending ? flipComparison(comparison) : comparison;
+        const placeholders = keys.map(key => {
+            params.push(key);
+            return `$${params.length}`;
+        });
+        conditions.push(`(${quoted.join(', ')}) ${operator} (${placeholders.join(', ')})`);
+    }
+    const filtered = whereClause
+        ? `${where}${conditions.length > 0 ? ` AND ${conditions.join(' AND ')}` : ''}`
+        : conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+
+    const descending = order.descending !== reversed;
+    const orderClause = ` ORDER BY ${quoted.map(column => `${column} ${descending ? 'DESC' : 'ASC'}`).join(', ')}`;
+    const keyColumns = quoted.map((column, index) => `${column}::text AS ${quoteIdentifier(`${KEY_ALIAS_PREFIX}${index}`)}`).join(', ');
+
+    params.push(reversed ? limit : limit + 1);
+    let text = `SELECT *, ${keyColumns} FROM ${table}${filtered}${orderClause} LIMIT $${params.length}`;
+    if (offset > 0) {
+        params.push(offset);
+        text += ` OFFSET $${params.length}`;
+    }
+    return { text, values: params, reversed, seek: keys !== undefined || reversed, scope, limit: pageSize, hasNextPage };
+}
+
+/**
+ * The cursor for the same first row under another page size, so that the
+ * page holding it is read with its keys instead of an OFFSET.
+ */
+export function rebaseCursor(cursor: KeysetCursor, pageSize: number, page: number): KeysetCursor {
+    const [order, , whereClause, values] = JSON.parse(cursor.scope);
+    return {
+        scope: pageQueryScope({ order, pageSize, whereClause, values }),
+        page,
+        first: cursor.first,
+        last: cursor.first
+    };
+}
+
+function flipComparison(comparison: '>' | '>=' | '<'): string {
+    switch (comparison) {
+        case '>':
+            return '<';
+        case '>=':
+            return '<=';
+        case '<':
+            return '>';
+    }
+}
+
+/**
+ * Put the rows of a page query in display order, remove the key columns it
+ * selected and return the cursor for the page.
+ */
+export function readPageRows<T extends Record<string, unknown>>(
+    query: PageQuery,
+    rows: T[],
+    page: number,
+    keyCount: number
+): { rows: T[]; cursor?: KeysetCursor; hasNextPage?: boolean } {
+    if (query.scope === undefined) {
+        return { rows };
+    }
+    const hasNextPage = query.hasNextPage ?? rows.length > query.limit;
+    const ordered = query.reversed ? [...rows].reverse() : rows.slice(0, query.limit);
+
+    const keysOf = (row: T) => Array.from({ length: keyCount }, (_, index) => String(row[`${KEY_ALIAS_PREFIX}${index}`]));
+    const cursor = ordered.length > 0
+        ? { scope: query.scope, page, first: keysOf(ordered[0]), last: keysOf(ordered[ordered.length - 1]) }
+        : undefined;
+    const stripped = ordered.map(row => {
+        const copy: Record<string, unknown> = { ...row };
+        for (let index = 0; index < keyCount; index++) {
+            delete copy[`${KEY_ALIAS_PREFIX}${index}`];
+        }
+        return copy as T;
+    });
+    return { rows: stripped, cursor, hasNextPage };
+}
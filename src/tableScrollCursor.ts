@@ -0,0 +1,89 @@
+// tableScrollCursor.ts - Server-side cursor that streams rows to the data
+// editor's infinite scroll mode
+
+import type { Client } from 'pg';
+import { quoteIdentifier } from './tableSqlBuilder';
+import { debug } from './logger';
+import type { PageQueryInput } from './tablePagination';
+
+export const MAX_RANGE_SIZE = 1000;
+
+// The cursor's transaction holds back vacuum, so it is closed once no range
+// was read for this long and opened again by the next one
+export const SCROLL_CURSOR_IDLE_MS = 30_000;
+
+const CURSOR_NAME = 'data_editor_rows';
+
+export interface ScrollQuery {
+    text: string;
+    values: unknown[];
+}
+
+export function clampRangeSize(value: unknown): number | undefined {
+    const size = Number(value);
+    return Number.isFinite(size) && size >= 1 ? Math.min(Math.floor(size), MAX_RANGE_SIZE) : undefined;
+}
+
+/**
+ * SELECT for every row of the table in the order the pages use: the seek
+ * order when there is one, the sort column alone otherwise.
+ */
+export function buildScrollQuery(input: Pick<PageQueryInput, 'table' | 'whereClause' | 'values' | 'sort' | 'order'>): ScrollQuery {
+    const { table, whereClause, values, sort, order } = input;
+    const where = whereClause ? ` ${whereClause}` : '';
+    let orderClause = '';
+    if (order) {
+        const direction = order.descending ? 'DESC' : 'ASC';
+        orderClause = ` ORDER BY ${order.columns.map(column => `${quoteIdentifier(column)} ${direction}`).join(', ')}`;
+    } else if (sort) {
+        orderClause = ` ORDER BY ${quoteIdentifier(sort.column)} ${sort.direction === 'desc' ? 'DESC' : 'ASC'}`;
+    }
+    return { text: `SELECT * FROM ${table}${where}${orderClause}`, values: [...values] };
+}
+
+export function scrollQueryScope(query: ScrollQuery): string {
+    return JSON.stringify([query.text, query.values]);
+}
+
+/**
+ * A SCROLL cursor declared in a read-only REPEATABLE READ transaction, so
+ * row positions stay put for as long as the cursor is open even if other
+ * sessions insert or delete rows. The transaction holds its snapshot until
+ * close(), which the data editor calls after SCROLL_CURSOR_IDLE_MS without
+ * reads; a cursor declared again reads a newer snapshot.
+ */
+export class TableScrollCursor {
+    private constructor(readonly client: Client, readonly scope: string) {}
+
+    static async open(client: Client, query: ScrollQuery): Promise<TableScrollCursor> {
+        await client.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+        try {
+            await client.query(`DECLARE ${CURSOR_NAME} SCROLL CURSOR FOR ${query.text}`, query.values);
+        } catch (error) {
+            try {
+                await client.query('ROLLBACK');
+            } catch (rollbackError) {
+                debug(`Failed to roll back the data editor cursor: ${rollbackError}`);
+            }
+            throw error;
+        }
+        return new TableScrollCursor(client, scrollQueryScope(query));
+    }
+
+    /** Rows `offset` (0-based) to `offset + limit - 1`; fewer at the end. */
+    async fetch(offset: number, limit: number): Promise<Record<string, unknown>[]> {
+        // MOVE ABSOLUTE n leaves the cursor on row n, so FETCH starts at n + 1
+        await this.client.query(`MOVE ABSOLUTE ${Math.max(0, Math.floor(offset))} IN ${CURSOR_NAME}`);
+        const result = await this.client.query(`FETCH FORWARD ${Math.max(1, Math.floor(limit))} FROM ${CURSOR_NAME}`);
+        return result.rows;
+    }
+
+    async close(): Promise<void> {
+        try {
+            // Ending the transaction closes the cursor
+            await this.client.query('ROLLBACK');
+        } catch (error) {
+            debug(`Failed to close the data editor cursor: ${error}`);
+        }
+    }
+}
@@ -0,0 +1,91 @@
+/**
+ * Favorite and recently opened tables for the explorer
+ * Entries are keyed by connection id so they survive connection renames
+ */
+
+import * as vscode from 'vscode';
+
+export type TableShortcutKind = 'table' | 'view' | 'materializedView';
+
+export interface TableShortcut {
+    connectionId: string;
+    databaseName: string;
+    schemaName: string;
+    tableName: string;
+    kind: TableShortcutKind;
+    // When the table was pinned (favorites) or last opened (recents)
+    timestamp: number;
+}
+
+type TableShortcutKey = Pick<TableShortcut, 'connectionId' | 'schemaName' | 'tableName'>;
+
+export class TableShortcuts {
+    private static readonly FAVORITES_KEY = 'postgres-editor.favoriteTables';
+    private static readonly RECENTS_KEY = 'postgres-editor.recentTables';
+    private static readonly MAX_RECENTS = 10;
+
+    private readonly changeEmitter = new vscode.EventEmitter<'favorites' | 'recents'>();
+    readonly onDidChange = this.changeEmitter.event;
+
+    constructor(private readonly context: vscode.ExtensionContext) {}
+
+    /**
+     * Get favorites in the order they were pinned
+     */
+    getFavorites(): TableShortcut[] {
+        return [...this.context.globalState.get<TableShortcut[]>(TableShortcuts.FAVORITES_KEY, [])];
+    }
+
+    /**
+     * Get recently opened tables, most recent first
+     */
+    getRecents(): TableShortcut[] {
+        return [...this.context.globalState.get<TableShortcut[]>(TableShortcuts.RECENTS_KEY, [])];
+    }
+
+    isFavorite(key: TableShortcutKey): boolean {
+        return this.getFavorites().some(entry => TableShortcuts.matches(entry, key));
+    }
+
+    async addFavorite(entry: Omit<TableShortcut, 'timestamp'>): Promise<void> {
+        if (this.isFavorite(entry)) {
+            return;
+        }
+        await this.update('favorites', [...this.getFavorites(), { ...entry, timestamp: Date.now() }]);
+    }
+
+    async removeFavorite(key: TableShortcutKey): Promise<void> {
+        await this.update('favorites', this.getFavorites().filter(entry => !TableShortcuts.matches(entry, key)));
+    }
+
+    /**
+     * Move a table to the top of the recents, dropping the oldest entry once
+     * the list is full
+     */
+    async recordOpened(entry: Omit<TableShortcut, 'timestamp'>): Promise<void> {
+        const recents = this.getRecents().filter(recent => !TableShortcuts.matches(recent, entry));
+        recents.unshift({ ...entry, timestamp: Date.now() });
+        await this.update('recents', recents.slice(0, TableShortcuts.MAX_RECENTS));
+    }
+
+    async clearRecents(): Promise<void> {
+        await this.update('recents', []);
+    }
+
+    /**
+     * Forget every favorite and recent of a deleted connection
+     */
+    async removeConnection(connectionId: string): Promise<void> {
+        await this.update('favorites', this.getFavorites().filter(entry => entry.connectionId !== connectionId));
+        await this.update('recents', this.getRecents().filter(entry => entry.connectionId !== connectionId));
+    }
+
+    private async update(list: 'favorites' | 'recents', entries: TableShortcut[]): Promise<void> {
+        await this.context.globalState.update(list === 'favorites' ? TableShortcuts.FAVORITES_KEY : TableShortcuts.RECENTS_KEY, entries);
+        this.changeEmitter.fire(list);
+    }
+
+    private static matches(entry: TableShortcutKey, key: TableShortcutKey): boolean {
+        return entry.connectionId === key.connectionId && entry.schemaName === key.schemaName && entry.tableName === key.tableName;
+    }
+}
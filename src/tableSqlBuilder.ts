@@ -9,6 +9,20 @@ export interface CreateTableColumnDefinition {
     isPrimaryKey: boolean;
 }
 
+export type PartitionStrategy = 'RANGE' | 'LIST' | 'HASH';
+
+export interface CreateTablePartitionDefinition {
+    name: string;
+    // FOR VALUES body, e.g. "FROM ('2024-01-01') TO ('2025-01-01')", or DEFAULT
+    bound: string;
+}
+
+export interface CreateTablePartitioning {
+    strategy: PartitionStrategy;
+    columns: string[];
+    partitions: CreateTablePartitionDefinition[];
+}
+
 export function quoteIdentifier(name: string): string {
     if (!name || name.trim().length === 0) {
         throw new Error('Identifier is required');
@@ -44,7 +58,8 @@ export function buildCreateTableStatements(
         onUpdate?: string | null;
         onDelete?: string | null;
         method?: string | null;
-    }[]
+    }[],
+    partitioning?: CreateTablePartitioning | null
 ): CreateTableBuildResult {
     if (!schema || !table) {
         throw new Error('Schema and table name are required');
@@ -106,11 +121,35 @@ export function buildCreateTableStatements(
     }
 
     const tableIdentifier = `${quoteIdentifier(schema)}.${quoteIdentifier(table)}`;
-    const statements = [`CREATE TABLE ${tableIdentifier} (${definitionFragments.join(', ')});`];
+    const partitionClause = partitioning
+        ? ` ${buildPartitionByClause(partitioning, normalizedColumns)}`
+        : '';
+    const statements = [`CREATE TABLE ${tableIdentifier} (${definitionFragments.join(', ')})${partitionClause};`];
     if (comments.length > 0) {
         statements.push(...comments);
     }
 
+    if (partitioning) {
+        const partitionNames = new Set<string>();
+        for (const partition of partitioning.partitions) {
+            const name = partition.name?.trim();
+            if (!name) {
+                throw new Error('Partition name cannot be empty');
+            }
+            if (partitionNames.has(name)) {
+                throw new Error(`Partition "${name}" is defined more than once`);
+            }
+            partitionNames.add(name);
+            if (partitioning.strategy === 'HASH' && /^default$/i.test(partition.bound.trim())) {
+                throw new Error('Hash partitioned tables cannot have a DEFAULT partition');
+            }
+            statements.push(buildCreatePartitionSql(schema, table, name, partition.bound));
+        }
+        if (partitioning.partitions.length === 0) {
+            warnings.push('The partitioned table has no partitions yet; inserts will fail until one is created.');
+        }
+    }
+
     // add any additional constraint creation statements after the table creation
     if (Array.isArray(constraints) && constraints.length > 0) {
         for (const constraint of constraints) {
@@ -164,6 +203,55 @@ export function buildCreateTableStatements(
     };
 }
 
+function buildPartitionByClause(
+    partitioning: CreateTablePartitioning,
+    columns: { name: string; isPrimaryKey: boolean }[]
+): string {
+    const keyColumns = partitioning.columns.map(column => column.trim()).filter(column => column.length > 0);
+    if (keyColumns.length === 0) {
+        throw new Error('Partitioned tables need at least one partition key column');
+    }
+    if (partitioning.strategy === 'LIST' && keyColumns.length > 1) {
+        throw new Error('LIST partitioning takes exactly one partition key column');
+    }
+    for (const keyColumn of keyColumns) {
+        if (!columns.some(column => column.name === keyColumn)) {
+            throw new Error(`Partition key column "${keyColumn}" is not defined`);
+        }
+    }
+    // PostgreSQL requires unique constraints on partitioned tables to cover the partition key
+    const primaryKeys = columns.filter(column => column.isPrimaryKey).map(column => column.name);
+    const missing = keyColumns.filter(keyColumn => !primaryKeys.includes(keyColumn));
+    if (primaryKeys.length > 0 && missing.length > 0) {
+        throw new Error(`The primary key must include the partition key column(s): ${missing.join(', ')}`);
+    }
+    return `PARTITION BY ${partitioning.strategy} (${keyColumns.map(column => quoteIdentifier(column)).join(', ')})`;
+}
+
+function buildPartitionBoundClause(bound: string): string {
+    const trimmed = bound.trim().replace(/;+$/, '').trim();
+    if (/^default$/i.test(trimmed)) {
+        return 'DEFAULT';
+    }
+    const values = trimmed.replace(/^FOR\s+VALUES\s+/i, '').trim();
+    if (!values) {
+        throw new Error('Partition bound is required');
+    }
+    return `FOR VALUES ${values}`;
+}
+
+export function buildCreatePartitionSql(schema: string, parent: string, partition: string, bound: string): string {
+    return `CREATE TABLE ${quoteIdentifier(schema)}.${quoteIdentifier(partition)} PARTITION OF ${quoteIdentifier(schema)}.${quoteIdentifier(parent)} ${buildPartitionBoundClause(bound)};`;
+}
+
+export function buildAttachPartitionSql(schema: string, parent: string, partitionSchema: string, partition: string, bound: string): string {
+    return `ALTER TABLE ${quoteIdentifier(schema)}.${quoteIdentifier(parent)} ATTACH PARTITION ${quoteIdentifier(partitionSchema)}.${quoteIdentifier(partition)} ${buildPartitionBoundClause(bound)};`;
+}
+
+export function buildDetachPartitionSql(schema: string, parent: string, partitionSchema: string, partition: string): string {
+    return `ALTER TABLE ${quoteIdentifier(schema)}.${quoteIdentifier(parent)} DETACH PARTITION ${quoteIdentifier(partitionSchema)}.${quoteIdentifier(partition)};`;
+}
+
 export function buildAlterTableSql(schema: string, table: string, clause: string): string {
     const trimmed = clause.trim();
     if (!trimmed) {
@@ -177,8 +265,110 @@ export function buildDropTableSql(schema: string, table: string, cascade: boolea
     return `DROP TABLE ${quoteIdentifier(schema)}.${quoteIdentifier(table)}${cascadeClause};`;
 }
 
+export function buildSetTriggerEnabledSql(schema: string, table: string, trigger: string, enabled: boolean): string {
+    const action = enabled ? 'ENABLE' : 'DISABLE';
+    return `ALTER TABLE ${quoteIdentifier(schema)}.${quoteIdentifier(table)} ${action} TRIGGER ${quoteIdentifier(trigger)};`;
+}
+
 export function buildColumnCommentStatement(schema: string, table: string, column: string, comment: string | null): string {
     const literal = comment == null ? 'NULL' : `'${comment.replace(/'/g, "''")}'`;
     return `COMMENT ON COLUMN ${quoteIdentifier(schema)}.${quoteIdentifier(table)}.${quoteIdentifier(column)} IS ${literal};`;
 }
 
+
+export function buildRefreshMaterializedViewSql(schema: string, view: string, concurrently: boolean = false): string {
+    const concurrentlyClause = concurrently ? ' CONCURRENTLY' : '';
+    return `REFRESH MATERIALIZED VIEW${concurrentlyClause} ${quoteIdentifier(schema)}.${quoteIdentifier(view)};`;
+}
+
+function sequenceRegclassLiteral(schema: string, sequence: string): string {
+    const qualified = `${quoteIdentifier(schema)}.${quoteIdentifier(sequence)}`;
+    return `'${qualified.replace(/'/g, "''")}'`;
+}
+
+function assertIntegerLiteral(value: string, label: string): string {
+    const trimmed = String(value).trim();
+    if (!/^-?\d+$/.test(trimmed)) {
+        throw new Error(`${label} must be an integer`);
+    }
+    return trimmed;
+}
+
+export function buildSetSequenceValueSql(schema: string, sequence: string, value: string, isCalled: boolean = true): string {
+    const literal = assertIntegerLiteral(value, 'Sequence value');
+    return `SELECT setval(${sequenceRegclassLiteral(schema, sequence)}, ${literal}, ${isCalled ? 'true' : 'false'});`;
+}
+
+export function buildRestartSequenceSql(schema: string, sequence: string, restartWith?: string): string {
+    const withClause = restartWith === undefined || restartWith.trim() === ''
+        ? ''
+        : ` WITH ${assertIntegerLiteral(restartWith, 'Restart value')}`;
+    return `ALTER SEQUENCE ${quoteIdentifier(schema)}.${quoteIdentifier(sequence)} RESTART${withClause};`;
+}
+
+export interface SequenceOwner {
+    schemaName: string;
+    tableName: string;
+    columnName: string;
+}
+
+/**
+ * Point a sequence past the values already stored in its owning column so the
+ * next nextval() cannot collide. Descending sequences resync to MIN() instead.
+ * An empty table restarts the sequence at its configured bound.
+ */
+export function buildResyncSequenceSql(
+    schema: string,
+    sequence: string,
+    owner: SequenceOwner,
+    options: { increment: string; minValue: string; maxValue: string }
+): string {
+    const descending = assertIntegerLiteral(options.increment, 'Sequence increment').startsWith('-');
+    const column = quoteIdentifier(owner.columnName);
+    const table = `${quoteIdentifier(owner.schemaName)}.${quoteIdentifier(owner.tableName)}`;
+    const nextValue = descending
+        ? `COALESCE(MIN(${column}) - 1, ${assertIntegerLiteral(options.maxValue, 'Sequence max value')})`
+        : `COALESCE(MAX(${column}) + 1, ${assertIntegerLiteral(options.minValue, 'Sequence min value')})`;
+    return `SELECT setval(${sequenceRegclassLiteral(schema, sequence)}, ${nextValue}, false) FROM ${table};`;
+}
+
+export function quoteLiteral(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+}
+
+export interface EnumValuePosition {
+    placement: 'BEFORE' | 'AFTER';
+    neighbor: string;
+}
+
+export function buildAddEnumValueSql(schema: string, typeName: string, value: string, position?: EnumValuePosition): string {
+    const positionClause = position ? ` ${position.placement} ${quoteLiteral(position.neighbor)}` : '';
+    return `ALTER TYPE ${quoteIdentifier(schema)}.${quoteIdentifier(typeName)} ADD VALUE ${quoteLiteral(value)}${positionClause};`;
+}
+
+export function buildRenameEnumValueSql(schema: string, typeName: string, from: string, to: string): string {
+    return `ALTER TYPE ${quoteIdentifier(schema)}.${quoteIdentifier(typeName)} RENAME VALUE ${quoteLiteral(from)} TO ${quoteLiteral(to)};`;
+}
+
+export interface CreateExtensionOptions {
+    schema?: string;
+    version?: string;
+    cascade?: boolean;
+}
+
+export function buildCreateExtensionSql(name: string, options: CreateExtensionOptions = {}): string {
+    const schemaClause = options.schema ? ` SCHEMA ${quoteIdentifier(options.schema)}` : '';
+    const versionClause = options.version ? ` VERSION ${quoteLiteral(options.version)}` : '';
+    const cascadeClause = options.cascade ? ' CASCADE' : '';
+    return `CREATE EXTENSION ${quoteIdentifier(name)}${schemaClause}${versionClause}${cascadeClause};`;
+}
+
+export function buildUpdateExtensionSql(name: string, version?: string): string {
+    const versionClause = version ? ` TO ${quoteLiteral(version)}` : '';
+    return `ALTER EXTENSION ${quoteIdentifier(name)} UPDATE${versionClause};`;
+}
+
+export function buildDropExtensionSql(name: string, cascade: boolean = false): string {
+    const cascadeClause = cascade ? ' CASCADE' : '';
+    return `DROP EXTENSION ${quoteIdentifier(name)}${cascadeClause};`;
+}
@@ -0,0 +1,40 @@
+/**
+ * Trigger Management for PostgreSQL Data Editor
+ * Provides operations for enabling and disabling table triggers
+ */
+
+import { ConnectionManager } from './connectionManager';
+import { buildSetTriggerEnabledSql } from './tableSqlBuilder';
+import { info, debug } from './logger';
+
+export class TriggerManager {
+    constructor(private connectionManager: ConnectionManager) {}
+
+    /**
+     * Enable or disable a trigger on a table
+     */
+    async setTriggerEnabled(
+        connectionId: string,
+        schemaName: string,
+        tableName: string,
+        triggerName: string,
+        enabled: boolean
+    ): Promise<void> {
+        const client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            throw new Error('Could not connect to database');
+        }
+
+        this.connectionManager.markBusy(connectionId);
+
+        try {
+            await client.query(buildSetTriggerEnabledSql(schemaName, tableName, triggerName, enabled));
+            info(`Trigger ${triggerName} ${enabled ? 'enabled' : 'disabled'} successfully`);
+        } catch (err) {
+            debug(`Error changing trigger state: ${err}`);
+            throw err;
+        } finally {
+            this.connectionManager.markIdle(connectionId);
+        }
+    }
+}
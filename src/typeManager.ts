@@ -0,0 +1,117 @@
+/**
+ * Type Management for PostgreSQL Data Editor
+ * Provides operations for inspecting user-defined types and editing enum labels
+ */
+
+import { ConnectionManager } from './connectionManager';
+import { info, debug } from './logger';
+
+export type UserTypeKind = 'enum' | 'composite' | 'domain' | 'range';
+
+export interface UserTypeInfo {
+    schemaName: string;
+    name: string;
+    kind: UserTypeKind;
+    // Enum labels in sort order
+    enumValues: string[];
+    // Composite attributes as "name type"
+    attributes: string[];
+    // Domain base type or range subtype
+    baseType: string | null;
+    notNull: boolean;
+}
+
+const TYPE_KINDS: Record<string, UserTypeKind> = {
+    e: 'enum',
+    c: 'composite',
+    d: 'domain',
+    r: 'range'
+};
+
+export class TypeManager {
+    constructor(private connectionManager: ConnectionManager) {}
+
+    /**
+     * Get the enums, standalone composite types, domains and range types in a schema
+     */
+    async getTypes(connectionId: string, schemaName: string, typeName?: string): Promise<UserTypeInfo[]> {
+        const client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            throw new Error('Could not connect to database');
+        }
+
+        try {
+            // Table row types are composites too; only list CREATE TYPE ... AS (...) ones.
+            const result = await client.query(`
+                SELECT t.typname,
+                       t.typtype,
+                       t.typnotnull,
+                       CASE t.typtype
+                           WHEN 'd' THEN pg_catalog.format_type(t.typbasetype, t.typtypmod)
+                           WHEN 'r' THEN pg_catalog.format_type(r.rngsubtype, NULL)
+                       END AS base_type,
+                       COALESCE((
+                           SELECT array_agg(e.enumlabel::text ORDER BY e.enumsortorder)
+                           FROM pg_enum e
+                           WHERE e.enumtypid = t.oid
+                       ), '{}') AS enum_values,
+                       COALESCE((
+                           SELECT array_agg(quote_ident(a.attname) || ' ' || pg_catalog.format_type(a.atttypid, a.atttypmod) ORDER BY a.attnum)
+                           FROM pg_attribute a
+                           WHERE a.attrelid = t.typrelid AND a.attnum > 0 AND NOT a.attisdropped
+                       ), '{}') AS attributes
+                FROM pg_type t
+                JOIN pg_namespace n ON n.oid = t.typnamespace
+                LEFT JOIN pg_class c ON c.oid = t.typrelid
+                LEFT JOIN pg_range r ON r.rngtypid = t.oid
+                WHERE n.nspname = $1
+                  AND ($2::text IS NULL OR t.typname = $2)
+                  AND t.typtype IN ('e', 'c', 'd', 'r')
+                  AND (t.typtype <> 'c' OR c.relkind = 'c')
+                  AND NOT EXISTS (
+                      SELECT 1 FROM pg_depend d
+                      WHERE d.classid = 'pg_type'::regclass
+                      AND d.objid = t.oid
+                      AND d.deptype = 'e'
+                  )
+                ORDER BY t.typname
+            `, [schemaName, typeName ?? null]);
+
+            return result.rows.map(row => ({
+                schemaName,
+                name: row.typname,
+                kind: TYPE_KINDS[row.typtype] ?? 'composite',
+                enumValues: row.enum_values ?? [],
+                attributes: row.attributes ?? [],
+                baseType: row.base_type ?? null,
+                notNull: Boolean(row.typnotnull)
+            }));
+        } catch (err) {
+            debug(`Error fetching types: ${err}`);
+            throw err;
+        }
+    }
+
+    /**
+     * Run an ALTER TYPE statement. ADD VALUE cannot run inside a transaction
+     * block on PostgreSQL 11 and older, so this does not open one.
+     */
+    async executeTypeSql(connectionId: string, sql: string): Promise<void> {
+        const client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            throw new Error('Could not connect to database');
+        }
+
+        this.connectionManager.markBusy(connectionId);
+
+        try {
+            await client.query(sql);
+            info('Type statement executed successfully');
+        } catch (err) {
+            debug(`Error executing type statement: ${err}`);
+            throw err;
+        } finally {
+            this.connectionManager.markIdle(connectionId);
+        }
+    }
+}
@@ -5,6 +5,8 @@
  * sent between the Extension and Webview layers, eliminating the need for unsafe `any` types.
  */
 
+import type { ConnectionEnvironment } from './connectionManager';
+
 /**
  * Column metadata including type information and enum values for dropdowns
  */
@@ -38,15 +40,46 @@ export interface SortDescriptor {
 }
 
 /**
- * Filter map for column filters (column name -> filter value)
+ * Comparison applied by a column filter. Which ones a column offers depends
+ * on its type (see tableFilters.ts)
  */
-export type FilterMap = Record<string, string>;
+export type FilterOperator =
+    | 'contains'
+    | 'startsWith'
+    | 'equals'
+    | 'notEquals'
+    | 'lessThan'
+    | 'lessOrEqual'
+    | 'greaterThan'
+    | 'greaterOrEqual'
+    | 'between'
+    | 'in'
+    | 'isNull'
+    | 'isNotNull'
+    | 'isTrue'
+    | 'isFalse';
+
+/**
+ * Filter on one column of the grid. Values are passed as query parameters,
+ * cast to the column's type: none for IS NULL and friends, two for between,
+ * one or more for in, one otherwise
+ */
+export interface ColumnFilter {
+    column: string;
+    operator: FilterOperator;
+    values: string[];
+}
 
 /**
  * Row data for display in the grid
  */
 export type RowData = Record<string, unknown>;
 
+/**
+ * Kind of relation opened in the data editor
+ */
+export type RelationKind = 'table' | 'view' | 'materializedView';
+
 /**
  * Change operations for grid editing
  */
@@ -79,12 +112,24 @@ export interface TableStatePayload {
     rows: RowData[];
     currentPage: number;
     totalRows: number;
+    // totalRows is the planner's estimate rather than a count
+    totalRowsEstimated?: boolean;
+    // Known when pages are located by key
+    hasNextPage?: boolean;
     paginationSize: number;
+    // Pages are located by their key columns instead of OFFSET
+    keysetPagination?: boolean;
     sort: SortDescriptor | null;
-    filters: FilterMap;
+    filters: ColumnFilter[];
     searchTerm: string;
     customWhereClause?: string;
     tablePreferences?: TablePreferences;
+    relationKind?: RelationKind;
+    readOnly?: boolean;
+    // The connection is read-only, so no relation can be edited
+    connectionReadOnly?: boolean;
+    // Environment label of the connection, shown as a badge in the header
+    environment?: ConnectionEnvironment;
 }
 
 /**
@@ -112,10 +157,14 @@ export interface ErrorInfo {
 export type WebviewToExtensionMessage =
     | { command: 'executeChanges'; changes: GridChange[]; batchMode: boolean; bypassValidation?: boolean }
     | { command: 'loadPage'; pageNumber: number }
+    | { command: 'setPageSize'; pageSize: number }
+    // Infinite scroll: rows offset..offset+limit-1 read from a server-side cursor
+    | { command: 'loadRange'; offset: number; limit: number; requestId?: number }
+    | { command: 'setInfiniteScroll'; enabled: boolean }
     | { command: 'previewChanges'; changes: GridChange[] }
     | { command: 'search'; term: string }
     | { command: 'applySort'; sort: SortDescriptor | null }
-    | { command: 'applyFilters'; filters: FilterMap }
+    | { command: 'applyFilters'; filters: ColumnFilter[] }
     | { command: 'applyCustomWhere'; whereClause: string }
     | { command: 'convertFiltersToWhere' }
     | { command: 'refresh' }
@@ -139,6 +188,9 @@ export type ExtensionToWebviewMessage =
     | { command: 'showError'; error: ErrorInfo }
     | { command: 'webviewError'; error: ErrorInfo }
     | { command: 'foreignKeyRows'; rows: RowData[]; pkColumn: string }
+    // totalRows is only set once the cursor ran out of rows; snapshotChanged
+    // when the cursor was declared again, so rows read before may have moved
+    | { command: 'rangeData'; offset: number; rows: RowData[]; requestId?: number; totalRows?: number; snapshotChanged?: boolean; error?: string }
     | { command: 'loadData'; payload: TableStatePayload };
 
 /**
@@ -153,6 +205,9 @@ export function isWebviewToExtension(msg: any): msg is WebviewToExtensionMessage
     return msg && typeof msg === 'object' && typeof msg.command === 'string' && (
         msg.command === 'executeChanges' ||
         msg.command === 'loadPage' ||
+        msg.command === 'setPageSize' ||
+        msg.command === 'loadRange' ||
+        msg.command === 'setInfiniteScroll' ||
         msg.command === 'previewChanges' ||
         msg.command === 'search' ||
         msg.command === 'applySort' ||
@@ -182,6 +237,7 @@ export function isExtensionToWebview(msg: any): msg is ExtensionToWebviewMessage
         msg.command === 'showError' ||
         msg.command === 'webviewError' ||
         msg.command === 'foreignKeyRows' ||
+        msg.command === 'rangeData' ||
         msg.command === 'loadData'
     );
 }
@@ -0,0 +1,110 @@
+/**
+ * View Management for PostgreSQL Data Editor
+ * Provides operations for refreshing materialized views and tracking when
+ * they were last refreshed from this extension
+ */
+
+import * as vscode from 'vscode';
+import { ConnectionManager } from './connectionManager';
+import { buildRefreshMaterializedViewSql } from './tableSqlBuilder';
+import { info, debug } from './logger';
+
+// Bits returned by pg_relation_is_updatable() for UPDATE, INSERT and DELETE.
+// The grid needs all three to edit a view like a table.
+export const VIEW_EDITABLE_MASK = 4 | 8 | 16;
+
+export class ViewManager {
+    constructor(
+        private context: vscode.ExtensionContext,
+        private connectionManager: ConnectionManager
+    ) {}
+
+    /**
+     * Refresh a materialized view, optionally without locking out readers
+     */
+    async refreshMaterializedView(
+        connectionId: string,
+        schemaName: string,
+        viewName: string,
+        concurrently: boolean = false
+    ): Promise<void> {
+        const client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            throw new Error('Could not connect to database');
+        }
+
+        this.connectionManager.markBusy(connectionId);
+
+        try {
+            await client.query(buildRefreshMaterializedViewSql(schemaName, viewName, concurrently));
+            await this.context.globalState.update(
+                this.buildRefreshKey(connectionId, schemaName, viewName),
+                new Date().toISOString()
+            );
+            info(`Materialized view ${schemaName}.${viewName} refreshed successfully`);
+        } catch (err) {
+            debug(`Error refreshing materialized view: ${err}`);
+            throw err;
+        } finally {
+            this.connectionManager.markIdle(connectionId);
+        }
+    }
+
+    /**
+     * Check whether a materialized view can be refreshed CONCURRENTLY.
+     * PostgreSQL requires the view to be populated and to have at least one
+     * unique index covering all rows.
+     */
+    async canRefreshConcurrently(
+        connectionId: string,
+        schemaName: string,
+        viewName: string
+    ): Promise<boolean> {
+        const client = await this.connectionManager.getClient(connectionId);
+        if (!client) {
+            throw new Error('Could not connect to database');
+        }
+
+        try {
+            const result = await client.query(`
+                SELECT m.ispopulated,
+                       EXISTS (
+                           SELECT 1
+                           FROM pg_index i
+                           JOIN pg_class c ON c.oid = i.indrelid
+                           JOIN pg_namespace n ON n.oid = c.relnamespace
+                           WHERE n.nspname = m.schemaname
+                             AND c.relname = m.matviewname
+                             AND i.indisunique
+                             AND i.indpred IS NULL
+                       ) AS has_unique_index
+                FROM pg_matviews m
+                WHERE m.schemaname = $1 AND m.matviewname = $2
+            `, [schemaName, viewName]);
+
+            const row = result.rows[0];
+            return Boolean(row?.ispopulated && row?.has_unique_index);
+        } catch (err) {
+            debug(`Error inspecting materialized view: ${err}`);
+            throw err;
+        }
+    }
+
+    /**
+     * When the materialized view was last refreshed from this extension.
+     * PostgreSQL does not record refresh times itself, so refreshes run
+     * elsewhere are not reflected here.
+     */
+    getLastRefreshed(connectionId: string, schemaName: string, viewName: string): Date | undefined {
+        const stored = this.context.globalState.get<string>(this.buildRefreshKey(connectionId, schemaName, viewName));
+        if (!stored) {
+            return undefined;
+        }
+        const parsed = new Date(stored);
+        return Number.isNaN(parsed.getTime()) ? undefined : parsed;
+    }
+
+    private buildRefreshKey(connectionId: string, schemaName: string, viewName: string): string {
+        return `matviewRefreshed:${connectionId}:${schemaName}.${viewName}`;
+    }
+}
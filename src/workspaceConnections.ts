@@ -0,0 +1,368 @@
+// workspaceConnections.ts - Connections shared with the team through
+// .vscode/postgresheets.json; passwords never go into the file
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ConnectionConfig, ConnectionManager, normalizeConnectionAppearance, normalizeSslSettings } from './connectionManager';
+import { resolveSslMode } from './connectionSsl';
+import { ConnectionHost, isTargetSessionAttrs } from './connectionString';
+import { normalizeSessionSettings } from './sessionSettings';
+import { SSH_AUTH_METHODS, SshAuthMethod, SshTunnelConfig } from './sshTunnel';
+
+export const WORKSPACE_CONNECTIONS_FILE = '.vscode/postgresheets.json';
+
+/**
+ * One connection as written in the file: a ConnectionConfig without the
+ * id, which is derived from the folder and name.
+ */
+export type WorkspaceConnectionEntry = Omit<Partial<ConnectionConfig>, 'id' | 'workspaceFolder'> & { name: string };
+
+export interface WorkspaceConnectionsFile {
+    connections: WorkspaceConnectionEntry[];
+}
+
+export function workspaceConnectionId(folderName: string, name: string): string {
+    return `workspace:${folderName}:${name}`;
+}
+
+function parseSshTunnel(value: unknown): SshTunnelConfig | undefined {
+    if (!value || typeof value !== 'object') return undefined;
+    const ssh = value as Record<string, unknown>;
+    if (typeof ssh.host !== 'string' || !ssh.host.trim()) {
+        throw new Error('ssh.host is required');
+    }
+    const port = Number(ssh.port ?? 22);
+    const authMethod = SSH_AUTH_METHODS.includes(ssh.authMethod as SshAuthMethod) ? ssh.authMethod as SshAuthMethod : 'privateKey';
+    return {
+        host: ssh.host.trim(),
+        port: Number.isInteger(port) && port > 0 && port <= 65535 ? port : 22,
+        username: typeof ssh.username === 'string' ? ssh.username.trim() : '',
+        authMethod,
+        privateKeyPath: authMethod === 'privateKey' && typeof ssh.privateKeyPath === 'string' && ssh.privateKeyPath.trim()
+            ? ssh.privateKeyPath.trim()
+            : undefined
+    };
+}
+
+function parseFallbackHosts(value: unknown): ConnectionHost[] | undefined {
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value)) {
+        throw new Error('fallbackHosts must be a list of { host, port }');
+    }
+    const hosts = value.map((raw): ConnectionHost => {
+        const host = raw && typeof raw === 'object' && typeof raw.host === 'string' ? raw.host.trim() : '';
+        const port = Number(raw?.port ?? 5432);
+        if (!host || !Number.isInteger(port) || port <= 0 || port > 65535) {
+            throw new Error('fallbackHosts must be a list of { host, port }');
+        }
+        return { host, port };
+    });
+    return hosts.length > 0 ? hosts : undefined;
+}
+
+function parseEntry(raw: unknown, folderName: string): ConnectionConfig {
+    if (!raw || typeof raw !== 'object') {
+        throw new Error('expected an object');
+    }
+    const entry = raw as Record<string, unknown>;
+    const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+    const name = text(entry.name);
+    if (!name) {
+        throw new Error('"name" is required');
+    }
+    const service = text(entry.service) || undefined;
+    const host = text(entry.host);
+    if (!host && !service) {
+        throw new Error(`"${name}" needs a host or a service`);
+    }
+    const port = Number(entry.port ?? 5432);
+    if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+        throw new Error(`"${name}" has an invalid port`);
+    }
+
+    if (entry.targetSessionAttrs !== undefined && !isTargetSessionAttrs(entry.targetSessionAttrs)) {
+        throw new Error(`"${name}" has an invalid targetSessionAttrs`);
+    }
+
+    let ssh: SshTunnelConfig | undefined;
+    let sessionSettings: ConnectionConfig['sessionSettings'];
+    let fallbackHosts: ConnectionHost[] | undefined;
+    try {
+        ssh = parseSshTunnel(entry.ssh);
+        fallbackHosts = parseFallbackHosts(entry.fallbackHosts);
+        sessionSettings = entry.sessionSettings && typeof entry.sessionSettings === 'object'
+            ? normalizeSessionSettings(entry.sessionSettings as Record<string, unknown>)
+            : undefined;
+    } catch (error) {
+        throw new Error(`"${name}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return {
+        id: workspaceConnectionId(folderName, name),
+        name,
+        host: host || 'localhost',
+        port,
+        database: text(entry.database),
+        // Left blank to have every teammate enter their own on first connect
+        username: text(entry.username),
+        ...normalizeSslSettings(entry),
+        ssh,
+        service,
+        ...normalizeConnectionAppearance(entry),
+        readOnly: entry.readOnly === true ? true : undefined,
+        sessionSettings,
+        // Only run in a trusted workspace, after the user accepts the command
+        passwordCommand: text(entry.passwordCommand) || undefined,
+        passwordCommandTtl: typeof entry.passwordCommandTtl === 'number' && entry.passwordCommandTtl > 0 ? entry.passwordCommandTtl : undefined,
+        fallbackHosts,
+        connectTimeout: typeof entry.connectTimeout === 'number' && entry.connectTimeout > 0 ? entry.connectTimeout : undefined,
+        startupOptions: text(entry.startupOptions) || undefined,
+        targetSessionAttrs: entry.targetSessionAttrs === 'any' ? undefined : entry.targetSessionAttrs as ConnectionConfig['targetSessionAttrs'],
+        workspaceFolder: folderName
+    };
+}
+
+/**
+ * Parse a workspace connections file. Invalid entries are skipped and
+ * reported; a name used twice keeps its first entry.
+ */
+export function parseWorkspaceConnections(text: string, folderName: string): { connections: ConnectionConfig[]; errors: string[] } {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        return { connections: [], errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+    const list = (data as Partial<WorkspaceConnectionsFile> | null)?.connections;
+    if (!Array.isArray(list)) {
+        return { connections: [], errors: ['Expected a "connections" array'] };
+    }
+
+    const connections: ConnectionConfig[] = [];
+    const errors: string[] = [];
+    for (const raw of list) {
+        try {
+            const config = parseEntry(raw, folderName);
+            if (connections.some(c => c.name === config.name)) {
+                errors.push(`"${config.name}" is defined more than once`);
+                continue;
+            }
+            connections.push(config);
+        } catch (error) {
+            errors.push(error instanceof Error ? error.message : String(error));
+        }
+    }
+    return { connections, errors };
+}
+
+/**
+ * The file form of a connection: no id, no secrets and no unset fields.
+ */
+export function toWorkspaceConnectionEntry(config: ConnectionConfig): WorkspaceConnectionEntry {
+    const entry: WorkspaceConnectionEntry = {
+        name: config.name,
+        host: config.host,
+        port: config.port,
+        database: config.database,
+        username: config.username,
+        sslMode: config.sslMode || config.ssl ? resolveSslMode(config) : undefined,
+        sslRootCertPath: config.sslRootCertPath,
+        sslCertPath: config.sslCertPath,
+        sslKeyPath: config.sslKeyPath,
+        ssh: config.ssh,
+        service: config.service,
+        group: config.group,
+        color: config.color,
+        environment: config.environment,
+        readOnly: config.readOnly,
+        sessionSettings: config.sessionSettings,
+        passwordCommand: config.passwordCommand,
+        passwordCommandTtl: config.passwordCommandTtl,
+        fallbackHosts: config.fallbackHosts,
+        connectTimeout: config.connectTimeout,
+        startupOptions: config.startupOptions,
+        targetSessionAttrs: config.targetSessionAttrs
+    };
+    return JSON.parse(JSON.stringify(entry));
+}
+
+/**
+ * Add connections to the text of an existing file (or start a new one),
+ * replacing entries with the same name and keeping any other keys.
+ */
+export function mergeWorkspaceConnections(existingText: string | undefined, configs: ConnectionConfig[]): string {
+    let data: Record<string, unknown> = {};
+    if (existingText?.trim()) {
+        const parsed = JSON.parse(existingText);
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+            data = parsed;
+        }
+    }
+    const entries: WorkspaceConnectionEntry[] = Array.isArray(data.connections) ? [...data.connections] : [];
+    for (const config of configs) {
+        const entry = toWorkspaceConnectionEntry(config);
+        const index = entries.findIndex(existing => existing?.name === entry.name);
+        if (index === -1) {
+            entries.push(entry);
+        } else {
+            entries[index] = entry;
+        }
+    }
+    return `${JSON.stringify({ ...data, connections: entries }, null, 2)}\n`;
+}
+
+type ConnectionPickItem = vscode.QuickPickItem & { config: ConnectionConfig };
+
+export class WorkspaceConnections {
+    constructor(
+        private readonly connectionManager: ConnectionManager,
+        private readonly refreshTree: () => void,
+        private readonly readFile: (filePath: string) => string | undefined = readFileIfExists
+    ) {}
+
+    /**
+     * Read the file of every workspace folder and hand the connections to
+     * the connection manager. Problems are reported once per load.
+     */
+    async load(): Promise<void> {
+        const connections: ConnectionConfig[] = [];
+        const errors: string[] = [];
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const text = this.readFile(path.join(folder.uri.fsPath, WORKSPACE_CONNECTIONS_FILE));
+            if (text === undefined) continue;
+            const parsed = parseWorkspaceConnections(text, folder.name);
+            connections.push(...parsed.connections);
+            errors.push(...parsed.errors.map(error => `${folder.name}/${WORKSPACE_CONNECTIONS_FILE}: ${error}`));
+        }
+        await this.connectionManager.setWorkspaceConnections(connections);
+        if (errors.length > 0) {
+            vscode.window.showWarningMessage(`Skipped workspace connections: ${errors.join('; ')}`);
+        }
+    }
+
+    /**
+     * Reload (and refresh the explorer) whenever a workspace connections
+     * file is created, edited or deleted.
+     */
+    watch(): vscode.Disposable {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${WORKSPACE_CONNECTIONS_FILE}`);
+        const reload = async () => {
+            await this.load();
+            this.refreshTree();
+        };
+        watcher.onDidCreate(reload);
+        watcher.onDidChange(reload);
+        watcher.onDidDelete(reload);
+        return watcher;
+    }
+
+    /**
+     * Write personal connections to a workspace folder's file so the team
+     * can commit them. Passwords stay in each user's secret storage.
+     */
+    async exportConnections(): Promise<void> {
+        const personal = (await this.connectionManager.getConnections()).filter(config => !config.workspaceFolder);
+        if (personal.length === 0) {
+            vscode.window.showInformationMessage('No personal connections to export.');
+            return;
+        }
+        const folder = await this.pickWorkspaceFolder();
+        if (!folder) return;
+
+        const picks = await vscode.window.showQuickPick<ConnectionPickItem>(
+            personal.map(config => ({ label: config.name, description: `${config.host}:${config.port}/${config.database}`, picked: true, config })),
+            { title: `Export to ${WORKSPACE_CONNECTIONS_FILE}`, placeHolder: 'Select the connections to share', canPickMany: true }
+        );
+        if (!picks || picks.length === 0) return;
+
+        const filePath = path.join(folder.uri.fsPath, WORKSPACE_CONNECTIONS_FILE);
+        try {
+            const text = mergeWorkspaceConnections(this.readFile(filePath), picks.map(pick => pick.config));
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, text, 'utf8');
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to export connections: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+
+        vscode.window.showInformationMessage(`Exported ${picks.length} connection${picks.length === 1 ? '' : 's'} to ${WORKSPACE_CONNECTIONS_FILE}. Passwords were not written.`);
+        await vscode.window.showTextDocument(vscode.Uri.file(filePath));
+    }
+
+    /**
+     * Copy the connections of a workspace connections file into the
+     * personal list, e.g. to keep using them outside that workspace.
+     */
+    async importConnections(): Promise<void> {
+        const uris = await vscode.window.showOpenDialog({
+            title: 'Import Connections from File',
+            canSelectMany: false,
+            filters: { 'Connection definitions': ['json'] },
+            defaultUri: vscode.workspace.workspaceFolders?.[0]
+                ? vscode.Uri.file(path.join(vscode.workspace.workspaceFolders[0].uri.fsPath, WORKSPACE_CONNECTIONS_FILE))
+                : undefined
+        });
+        if (!uris || uris.length === 0) return;
+
+        const text = this.readFile(uris[0].fsPath);
+        const { connections, errors } = parseWorkspaceConnections(text ?? '', 'import');
+        if (errors.length > 0) {
+            vscode.window.showWarningMessage(`Skipped entries: ${errors.join('; ')}`);
+        }
+        const existing = new Set((await this.connectionManager.getConnections()).filter(c => !c.workspaceFolder).map(c => c.name));
+        const candidates = connections.filter(config => !existing.has(config.name));
+        if (candidates.length === 0) {
+            vscode.window.showInformationMessage('No new connections found in the file.');
+            return;
+        }
+
+        const picks = await vscode.window.showQuickPick<ConnectionPickItem>(
+            candidates.map(config => ({
+                label: config.name,
+                description: `${config.host}:${config.port}/${config.database}`,
+                // Imported connections are personal: their commands run without asking again
+                detail: config.passwordCommand ? `Password command: ${config.passwordCommand}` : undefined,
+                picked: true,
+                config
+            })),
+            { title: 'Import Connections', placeHolder: 'Select the connections to import', canPickMany: true }
+        );
+        if (!picks || picks.length === 0) return;
+
+        let imported = 0;
+        for (const { config } of picks) {
+            const { id: _id, workspaceFolder: _folder, ...fields } = config;
+            try {
+                await this.connectionManager.saveNewConnection(fields);
+                imported++;
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to import ${config.name}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+        if (imported > 0) {
+            vscode.window.showInformationMessage(`Imported ${imported} connection${imported === 1 ? '' : 's'}. You will be asked for credentials on first connect.`);
+            this.refreshTree();
+        }
+    }
+
+    private async pickWorkspaceFolder(): Promise<vscode.WorkspaceFolder | undefined> {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        if (folders.length === 0) {
+            vscode.window.showErrorMessage('Open a folder to share connections with a workspace file.');
+            return undefined;
+        }
+        if (folders.length === 1) {
+            return folders[0];
+        }
+        return vscode.window.showWorkspaceFolderPick({ placeHolder: `Folder to write ${WORKSPACE_CONNECTIONS_FILE} into` });
+    }
+}
+
+function readFileIfExists(filePath: string): string | undefined {
+    try {
+        return fs.readFileSync(filePath, 'utf8');
+    } catch {
+        return undefined;
+    }
+}
@@ -18,13 +18,40 @@ export const window = {
     showWarningMessage: (_msg?: string, ...items: string[]) => Promise.resolve(undefined as string | undefined),
     showErrorMessage: (_msg?: string) => undefined,
     showQuickPick: (_items?: any) => Promise.resolve(undefined),
-    withProgress: async (_opts: any, cb: any) => cb({ report: () => {} }, { onCancellationRequested: (_: any) => {} })
+    withProgress: async (_opts: any, cb: any) => cb({ report: () => {} }, { onCancellationRequested: (_: any) => {} }),
+    activeTextEditor: undefined as any,
+    onDidChangeActiveTextEditor: new EventEmitter<any>().event,
+    createStatusBarItem: (_alignment?: number, _priority?: number) => ({
+        text: '',
+        tooltip: undefined as string | undefined,
+        command: undefined as string | undefined,
+        backgroundColor: undefined as unknown,
+        visible: false,
+        show() { this.visible = true; },
+        hide() { this.visible = false; },
+        dispose() {}
+    })
 };
 
-export const commands = { executeCommand: (_cmd: string, ..._args: any[]) => undefined };
+// Settings resolve to their defaults unless a test overrides getConfiguration
+export const workspace = {
+    isTrusted: true,
+    getConfiguration: (_section?: string) => ({ get: <T>(_key: string, defaultValue?: T) => defaultValue })
+};
+
+export const commands = {
+    executeCommand: (_cmd: string, ..._args: any[]) => undefined,
+    registerCommand: (_cmd: string, _callback: (...args: any[]) => any) => ({ dispose: () => {} })
+};
 
 export class ThemeIcon {}
 
+export class ThemeColor {
+    constructor(public id: string) {}
+}
+
+export const StatusBarAlignment = { Left: 1, Right: 2 };
+
 export const ProgressLocation = { Notification: 15 };
 
 // Minimal ViewColumn enum for webview panel creation
@@ -112,4 +112,109 @@ describe('AddConnectionWizard', () => {
             throw new Error('refreshTree was not called');
         }
     });
+
+    test('saveConnection stores folder, color and environment', async () => {
+        const mockConnMgr: any = {
+            testConnection: jest.fn(),
+            parseConnectionString: jest.fn(),
+            saveNewConnection: (jest.fn() as any).mockResolvedValue({ id: 'new-id' })
+        };
+        const mockPanel: any = {
+            webview: {
+                cspSource: 'vscode-resource:',
+                postMessage: jest.fn(),
+                onDidReceiveMessage: () => ({ dispose: jest.fn() })
+            },
+            dispose: jest.fn(),
+            onDidDispose: jest.fn()
+        };
+        const panelFactory = jest.fn().mockReturnValue(mockPanel as any);
+        const w = new AddConnectionWizard({} as any, mockConnMgr, jest.fn(), panelFactory as any);
+        await w.openWizard();
+
+        await (w as any).lastMessageHandler({
+            command: 'saveConnection',
+            payload: { mode: 'manual', name: 'Orders', host: 'db.internal', port: '5432', database: 'orders', username: 'app', group: ' Production ', color: 'red', environment: 'prod' }
+        });
+
+        expect(mockConnMgr.saveNewConnection).toHaveBeenCalledWith(
+            expect.objectContaining({ name: 'Orders', group: 'Production', color: 'red', environment: 'prod' }),
+            undefined,
+            false
+        );
+    });
+
+    test('saveConnection stores session settings and rejects invalid timeouts', async () => {
+        const mockConnMgr: any = {
+            testConnection: jest.fn(),
+            parseConnectionString: jest.fn(),
+            saveNewConnection: (jest.fn() as any).mockResolvedValue({ id: 'new-id' })
+        };
+        const mockPanel: any = {
+            webview: {
+                cspSource: 'vscode-resource:',
+                postMessage: jest.fn(),
+                onDidReceiveMessage: () => ({ dispose: jest.fn() })
+            },
+            dispose: jest.fn(),
+            onDidDispose: jest.fn()
+        };
+        const panelFactory = jest.fn().mockReturnValue(mockPanel as any);
+        const w = new AddConnectionWizard({} as any, mockConnMgr, jest.fn(), panelFactory as any);
+        await w.openWizard();
+
+        const payload = { mode: 'manual', name: 'Orders', host: 'db.internal', port: '5432', database: 'orders', username: 'app' };
+        await (w as any).lastMessageHandler({
+            command: 'saveConnection',
+            payload: { ...payload, statementTimeout: '30s', searchPath: ' sales, public ', role: '' }
+        });
+        expect(mockConnMgr.saveNewConnection.mock.calls[0][0].sessionSettings).toEqual({ statementTimeout: '30s', searchPath: 'sales, public' });
+
+        await (w as any).lastMessageHandler({ command: 'saveConnection', payload: { ...payload, lockTimeout: 'soon' } });
+        expect(mockConnMgr.saveNewConnection).toHaveBeenCalledTimes(1);
+        expect(mockPanel.webview.postMessage).toHaveBeenCalledWith({
+            command: 'saveResult',
+            payload: { success: false, error: expect.stringContaining('Lock timeout must be') }
+        });
+    });
+
+    test('saveConnection stores SSL settings and keeps the key passphrase secret', async () => {
+        const mockConnMgr: any = {
+            testConnection: jest.fn(),
+            parseConnectionString: jest.fn().mockReturnValue({ host: 'h', port: 5432, database: 'db', username: 'u', ssl: true, sslMode: 'require' }),
+            saveNewConnection: (jest.fn() as any).mockResolvedValue({ id: 'new-id' }),
+            storeSslPassphrase: (jest.fn() as any).mockResolvedValue(undefined)
+        };
+        const mockPanel: any = {
+            webview: {
+                cspSource: 'vscode-resource:',
+                postMessage: jest.fn(),
+                onDidReceiveMessage: () => ({ dispose: jest.fn() })
+            },
+            dispose: jest.fn(),
+            onDidDispose: jest.fn()
+        };
+        const panelFactory = jest.fn().mockReturnValue(mockPanel as any);
+        const w = new AddConnectionWizard({} as any, mockConnMgr, jest.fn(), panelFactory as any);
+        await w.openWizard();
+
+        await (w as any).lastMessageHandler({
+            command: 'saveConnection',
+            payload: {
+                mode: 'connectionString',
+                connStr: 'postgres://u@h:5432/db?sslmode=require',
+                name: 'Secure',
+                sslMode: 'verify-full',
+                sslRootCertPath: '/certs/root.crt',
+                sslCertPath: '/certs/client.crt',
+                sslKeyPath: '/certs/client.key',
+                sslPassphrase: 'hunter2'
+            }
+        });
+
+        const saved = mockConnMgr.saveNewConnection.mock.calls[0][0];
+        expect(saved).toMatchObject({ ssl: true, sslMode: 'verify-full', sslRootCertPath: '/certs/root.crt', sslKeyPath: '/certs/client.key' });
+        expect(saved).not.toHaveProperty('sslPassphrase');
+        expect(mockConnMgr.storeSslPassphrase).toHaveBeenCalledWith('new-id', 'hunter2');
+    });
 });
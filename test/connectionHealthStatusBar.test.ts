@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+
+import { jest } from '@jest/globals';
+import { Duplex } from 'stream';
+import * as vscode from 'vscode';
+import { ConnectionHealthStatusBar, describeTransactionStatus, formatConnectionHealth, shortServerVersion } from '../src/connectionHealthStatusBar';
+import { ConnectionManager, parseTransactionStatus, protocolConnection } from '../src/connectionManager';
+
+// One backend message: type byte, length, body
+function backendMessage(type: string, body: Buffer): Buffer {
+    const length = Buffer.alloc(4);
+    length.writeInt32BE(body.length + 4);
+    return Buffer.concat([Buffer.from(type), length, body]);
+}
+
+/**
+ * A socket that plays the server: trusts the startup message and answers
+ * every simple query with the given transaction status.
+ */
+class FakeServerSocket extends Duplex {
+    nextStatus = 'I';
+    setNoDelay() { return this; }
+    setKeepAlive() { return this; }
+    connect() {
+        setImmediate(() => this.emit('connect'));
+        return this;
+    }
+    _read() {}
+    _write(chunk: Buffer, _encoding: string, callback: () => void) {
+        if (chunk[0] === 'Q'.charCodeAt(0)) {
+            this.push(backendMessage('C', Buffer.from('BEGIN\0')));
+        } else {
+            const authenticationOk = Buffer.alloc(4);
+            this.push(backendMessage('R', authenticationOk));
+        }
+        this.push(backendMessage('Z', Buffer.from(this.nextStatus)));
+        callback();
+    }
+}
+
+describe('Connection health status bar', () => {
+    test('maps the ReadyForQuery status byte', () => {
+        expect(parseTransactionStatus('I')).toBe('idle');
+        expect(parseTransactionStatus('T')).toBe('inTransaction');
+        expect(parseTransactionStatus('E')).toBe('failed');
+        expect(parseTransactionStatus(undefined)).toBe('idle');
+    });
+
+    test('drops build details from the server version', () => {
+        expect(shortServerVersion('16.2 (Debian 16.2-1.pgdg120+2)')).toBe('16.2');
+        expect(shortServerVersion('15.4')).toBe('15.4');
+        expect(shortServerVersion('  ')).toBeUndefined();
+        expect(shortServerVersion(undefined)).toBeUndefined();
+    });
+
+    test('describes open transactions like pg_stat_activity', () => {
+        expect(describeTransactionStatus('idle', 'connected')).toBeUndefined();
+        expect(describeTransactionStatus('inTransaction', 'connected')).toBe('idle in transaction');
+        expect(describeTransactionStatus('inTransaction', 'busy')).toBe('in transaction');
+        expect(describeTransactionStatus('failed', 'connected')).toBe('idle in transaction (aborted)');
+    });
+
+    test('shows version and latency of an idle connection', () => {
+        const display = formatConnectionHealth({ name: 'prod', status: 'connected', serverVersion: '16.2', latencyMs: 3, transactionStatus: 'idle' });
+        expect(display.text).toBe('$(pulse) PG 16.2 · 3 ms');
+        expect(display.tooltip).toContain('Server: PostgreSQL 16.2');
+        expect(display.tooltip).toContain('Transaction: none');
+        expect(display.warning).toBe(false);
+    });
+
+    test('warns while a transaction is open', () => {
+        const idle = formatConnectionHealth({ name: 'prod', status: 'connected', serverVersion: '16.2', latencyMs: 3, transactionStatus: 'inTransaction' });
+        expect(idle.text).toBe('$(pulse) PG 16.2 · 3 ms · idle in transaction');
+        expect(idle.warning).toBe(true);
+
+        const running = formatConnectionHealth({ name: 'prod', status: 'busy', transactionStatus: 'inTransaction' });
+        expect(running.text).toBe('$(sync~spin) PG · in transaction');
+    });
+
+    test('reports closed and failing connections', () => {
+        expect(formatConnectionHealth({ name: 'prod', status: 'disconnected' }).text).toBe('$(debug-disconnect) Disconnected');
+        expect(formatConnectionHealth({ name: 'prod', status: 'error' }).text).toBe('$(error) Connection failed');
+        expect(formatConnectionHealth({ name: 'prod', status: 'connecting' }).text).toBe('$(sync~spin) Connecting...');
+    });
+
+    test('follows the transaction status a real pg client receives', async () => {
+        // 'pg' itself maps to a stub in the jest config
+        const { default: { Client } } = await import('pg/lib/index.js' as string) as { default: typeof import('pg') };
+        const socket = new FakeServerSocket();
+        const client = new Client({ stream: socket as any, user: 'app', database: 'app' });
+        client.on('error', () => undefined);
+        expect(protocolConnection(client)).toBeDefined();
+
+        const mgr = new ConnectionManager({ globalState: { get: (_key: string, fallback?: unknown) => fallback }, secrets: {} } as any);
+        (mgr as any).trackTransactionStatus(client);
+        const status = () => (mgr as any).transactionStatuses.get(client);
+
+        await client.connect();
+        expect(status()).toBe('idle');
+        socket.nextStatus = 'T';
+        await client.query('BEGIN');
+        expect(status()).toBe('inTransaction');
+        socket.destroy();
+    });
+
+    test('shows the active document\'s connection in the status bar', async () => {
+        const item = { text: '', show: jest.fn(), hide: jest.fn() } as any;
+        const originalCreate = vscode.window.createStatusBarItem;
+        (vscode.window as any).createStatusBarItem = () => item;
+        (vscode.window as any).activeTextEditor = { document: { uri: { toString: () => 'file:///q.sql' } } };
+        const connectionManager: any = {
+            onStatusChange: new vscode.EventEmitter<any>().event,
+            getConnectionStatus: () => 'connected',
+            getClient: async () => ({ query: async () => ({ rows: [{ server_version: '16.2 (Debian)' }] }) }),
+            getConnections: async () => [{ id: 'c1', name: 'prod' }],
+            getTransactionStatus: () => 'idle'
+        };
+        const sqlEditor: any = {
+            onDidChangeDocumentConnection: new vscode.EventEmitter<any>().event,
+            getSavedConnectionForDocument: () => ({ connectionId: 'c1' })
+        };
+        const statusBar = new ConnectionHealthStatusBar({ subscriptions: [] } as any, connectionManager, sqlEditor);
+        try {
+            for (let i = 0; i < 20 && !item.text.includes('16.2'); i++) {
+                await new Promise(resolve => setTimeout(resolve, 0));
+            }
+            expect(item.text).toMatch(/^\$\(pulse\) PG 16\.2 · \d+ ms$/);
+            expect(item.show).toHaveBeenCalled();
+        } finally {
+            statusBar.dispose();
+            (vscode.window as any).createStatusBarItem = originalCreate;
+            (vscode.window as any).activeTextEditor = undefined;
+        }
+    });
+});
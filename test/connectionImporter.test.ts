@@ -0,0 +1,67 @@
+import { jest } from '@jest/globals';
+jest.mock('vscode');
+
+import * as vscode from 'vscode';
+import { ConnectionImporter, discoverImportCandidates } from '../src/connectionImporter';
+import { PgConfigEnvironment } from '../src/pgConfigFiles';
+
+describe('Connection Importer Tests', () => {
+    const environment: PgConfigEnvironment = {
+        env: { PGHOST: 'localhost', PGUSER: 'dev', PGDATABASE: 'app' },
+        platform: 'linux',
+        homedir: '/home/dev',
+        readFile: (filePath) => ({
+            '/home/dev/.pg_service.conf': '[billing]\nhost=db.internal\ndbname=billing\nuser=billing_app\npassword=svc-secret\n',
+            '/home/dev/.pgpass': [
+                'localhost:5432:app:dev:dev-secret',
+                'reports.internal:*:*:analyst:analyst-secret',
+                '*:*:*:postgres:superuser'
+            ].join('\n')
+        } as Record<string, string>)[filePath]
+    };
+
+    test('discovers services, PG* variables and pgpass lines without duplicates', () => {
+        const candidates = discoverImportCandidates([], environment);
+
+        expect(candidates.map(c => [c.source, c.config.name])).toEqual([
+            ['service', 'billing'],
+            ['environment', 'dev@localhost:5432/app'],
+            ['pgpass', 'analyst@reports.internal:5432/analyst']
+        ]);
+        // Service connections keep following the file rather than copying its password
+        expect(candidates[0].config.service).toBe('billing');
+        expect(candidates[0].password).toBeUndefined();
+        // PG* variables without PGPASSWORD pick the password up from pgpass
+        expect(candidates[1].password).toBe('dev-secret');
+        expect(candidates[2].password).toBe('analyst-secret');
+    });
+
+    test('skips connections that are already saved', () => {
+        const existing: any[] = [
+            { id: '1', name: 'Billing', host: 'x', port: 5432, database: 'billing', username: 'billing_app', service: 'billing' },
+            { id: '2', name: 'Local', host: 'localhost', port: 5432, database: 'app', username: 'dev' }
+        ];
+        expect(discoverImportCandidates(existing, environment).map(c => c.config.name)).toEqual(['analyst@reports.internal:5432/analyst']);
+    });
+
+    test('saves the picked connections with their passwords', async () => {
+        const connectionManager: any = {
+            getConnections: (jest.fn() as any).mockResolvedValue([]),
+            saveNewConnection: (jest.fn() as any).mockResolvedValue({ id: 'new' })
+        };
+        const refreshTree = jest.fn();
+        const quickPick = jest.spyOn(vscode.window, 'showQuickPick').mockImplementation((async (items: any[]) =>
+            items.filter((item: any) => item.candidate.source !== 'service')) as any);
+
+        await new ConnectionImporter(connectionManager, refreshTree, environment).importConnections();
+
+        expect(quickPick).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({ canPickMany: true }));
+        expect(connectionManager.saveNewConnection).toHaveBeenCalledTimes(2);
+        expect(connectionManager.saveNewConnection).toHaveBeenCalledWith(
+            expect.objectContaining({ host: 'localhost', database: 'app', username: 'dev' }),
+            'dev-secret'
+        );
+        expect(refreshTree).toHaveBeenCalled();
+        quickPick.mockRestore();
+    });
+});
@@ -0,0 +1,181 @@
+import { jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+jest.mock('vscode');
+
+class FakeClient {
+    static instances: FakeClient[] = [];
+    private handlers: Record<string, Array<(...args: any[]) => void>> = {};
+    password?: string;
+    constructor(public options: any) { FakeClient.instances.push(this); }
+    // Resolve the password like pg does during authentication
+    async connect() {
+        this.password = typeof this.options.password === 'function' ? await this.options.password() : this.options.password;
+    }
+    async end() { return; }
+    on(event: string, handler: (...args: any[]) => void) {
+        (this.handlers[event] ??= []).push(handler);
+    }
+    emit(event: string, ...args: any[]) {
+        (this.handlers[event] ?? []).forEach(handler => handler(...args));
+    }
+    async query() { return { rows: [] }; }
+}
+
+describe('ConnectionManager password command', () => {
+    let ConnectionManager: typeof import('../src/connectionManager').ConnectionManager;
+    let dir: string;
+    let counterFile: string;
+    let tokenCommand: string;
+    let failingCommand: string;
+    const originalShowError = vscode.window.showErrorMessage;
+    let errorMessages: string[];
+
+    beforeAll(async () => {
+        await jest.unstable_mockModule('pg', () => ({ Client: FakeClient }));
+        ({ ConnectionManager } = await import('../src/connectionManager'));
+
+        // Stand-in for a token CLI: prints token-N, counting its runs
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pg-token-'));
+        counterFile = path.join(dir, 'runs');
+        const tokenScript = path.join(dir, 'token.js');
+        fs.writeFileSync(tokenScript, [
+            'const fs = require("fs");',
+            `const file = ${JSON.stringify(counterFile)};`,
+            'const runs = (fs.existsSync(file) ? Number(fs.readFileSync(file, "utf8")) : 0) + 1;',
+            'fs.writeFileSync(file, String(runs));',
+            'console.log(JSON.stringify({ token: "token-" + runs, expiresIn: Number(process.env.TOKEN_TTL || 900) }));'
+        ].join('\n'));
+        tokenCommand = `"${process.execPath}" "${tokenScript}"`;
+        const failScript = path.join(dir, 'fail.js');
+        fs.writeFileSync(failScript, 'console.error("not logged in"); process.exit(1);');
+        failingCommand = `"${process.execPath}" "${failScript}"`;
+    });
+
+    afterAll(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const runs = () => fs.existsSync(counterFile) ? Number(fs.readFileSync(counterFile, 'utf8')) : 0;
+
+    const makeManager = (passwordCommand: string) => new ConnectionManager({
+        globalState: {
+            get: () => [{ id: 'iam', name: 'iam', host: 'db.internal', port: 5432, database: 'app', username: 'app', passwordCommand }],
+            update: jest.fn()
+        },
+        secrets: { get: async () => undefined, store: jest.fn(), delete: jest.fn() }
+    } as any);
+
+    beforeEach(() => {
+        FakeClient.instances = [];
+        fs.rmSync(counterFile, { force: true });
+        delete process.env.TOKEN_TTL;
+        errorMessages = [];
+        (vscode.window as any).showErrorMessage = (msg: string) => { errorMessages.push(msg); };
+    });
+
+    afterEach(() => {
+        (vscode.window as any).showErrorMessage = originalShowError;
+    });
+
+    test('connects with the token and reuses it for new sessions until it expires', async () => {
+        const mgr = makeManager(tokenCommand);
+        const shared = await mgr.connect('iam') as unknown as FakeClient;
+        const session = await mgr.getSession('iam', 'terminal:1') as unknown as FakeClient;
+
+        expect(shared.password).toBe('token-1');
+        expect(session.password).toBe('token-1');
+        expect(runs()).toBe(1);
+    });
+
+    test('runs the command again once the token has expired', async () => {
+        // Tokens inside the refresh margin count as expired
+        process.env.TOKEN_TTL = '10';
+        const mgr = makeManager(tokenCommand);
+        const shared = await mgr.connect('iam') as unknown as FakeClient;
+        const runsAfterConnect = runs();
+        const session = await mgr.getSession('iam', 'terminal:1') as unknown as FakeClient;
+
+        expect(session.password).toBe(`token-${runsAfterConnect + 1}`);
+        expect(session.password).not.toBe(shared.password);
+    });
+
+    test('fetches a fresh token when reconnecting after a drop', async () => {
+        jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+        try {
+            const mgr = makeManager(tokenCommand);
+            const first = await mgr.connect('iam') as unknown as FakeClient;
+            first.emit('end');
+            await jest.advanceTimersByTimeAsync(1000);
+            jest.useRealTimers();
+            // The reconnect's command runs in a child process
+            for (let i = 0; i < 100 && mgr.getConnectionStatus('iam') !== 'connected'; i++) {
+                await new Promise(resolve => setTimeout(resolve, 50));
+            }
+
+            expect(mgr.getConnectionStatus('iam')).toBe('connected');
+            expect((FakeClient.instances[FakeClient.instances.length - 1]).password).toBe('token-2');
+        } finally {
+            jest.useRealTimers();
+        }
+    });
+
+    test('reports command failures in the connect progress and as an error', async () => {
+        const mgr = makeManager(failingCommand);
+        const messages: Array<string | undefined> = [];
+
+        expect(await mgr.connect('iam', false, { report: ({ message }) => messages.push(message) })).toBeNull();
+        expect(messages).toEqual(['Running password command...', 'Password command failed: not logged in']);
+        expect(errorMessages).toEqual(['Failed to connect: Password command failed: not logged in']);
+        expect(mgr.getConnectionStatus('iam')).toBe('error');
+        expect(FakeClient.instances).toHaveLength(0);
+    });
+
+    test('runs a shared connection\'s command only in a trusted workspace and once the user accepts it', async () => {
+        const stored = new Map<string, unknown>();
+        const makeSharedManager = async () => {
+            const mgr = new ConnectionManager({
+                globalState: {
+                    get: (key: string, fallback?: unknown) => stored.has(key) ? stored.get(key) : fallback,
+                    update: async (key: string, value: unknown) => { stored.set(key, value); }
+                },
+                secrets: { get: async () => undefined, store: jest.fn(), delete: jest.fn() }
+            } as any);
+            await mgr.setWorkspaceConnections([{
+                id: 'workspace:shop:iam', name: 'iam', host: 'db.internal', port: 5432, database: 'app', username: 'app',
+                passwordCommand: tokenCommand, workspaceFolder: 'shop'
+            }]);
+            return mgr;
+        };
+        const prompts: Array<string | undefined> = [];
+        let answer: string | undefined;
+        const originalShowWarning = vscode.window.showWarningMessage;
+        (vscode.window as any).showWarningMessage = async (_msg: string, options: any) => { prompts.push(options?.detail); return answer; };
+        try {
+            (vscode.workspace as any).isTrusted = false;
+            expect(await (await makeSharedManager()).connect('workspace:shop:iam')).toBeNull();
+            expect(errorMessages).toEqual(['Failed to connect: Password commands from .vscode/postgresheets.json only run in a trusted workspace']);
+            expect(prompts).toEqual([]);
+
+            (vscode.workspace as any).isTrusted = true;
+            expect(await (await makeSharedManager()).connect('workspace:shop:iam')).toBeNull();
+            expect(prompts).toEqual([tokenCommand]);
+            expect(runs()).toBe(0);
+
+            answer = 'Run Command';
+            const approved = await (await makeSharedManager()).connect('workspace:shop:iam') as unknown as FakeClient;
+            expect(approved.password).toBe('token-1');
+
+            // The accepted command is remembered until the file changes it
+            answer = undefined;
+            const again = await (await makeSharedManager()).connect('workspace:shop:iam') as unknown as FakeClient;
+            expect(again.password).toBe('token-2');
+            expect(prompts).toHaveLength(2);
+        } finally {
+            (vscode.workspace as any).isTrusted = true;
+            (vscode.window as any).showWarningMessage = originalShowWarning;
+        }
+    });
+});
@@ -0,0 +1,214 @@
+import { jest } from '@jest/globals';
+import * as vscode from 'vscode';
+jest.mock('vscode');
+
+class FakeClient {
+    static instances: FakeClient[] = [];
+    ended = false;
+    private handlers: Record<string, Array<(...args: any[]) => void>> = {};
+    // Stands in for pg's protocol connection, which reports ReadyForQuery
+    connection = {
+        handlers: [] as Array<(message: { status: string }) => void>,
+        on(event: string, handler: (message: { status: string }) => void) {
+            if (event === 'readyForQuery') this.handlers.push(handler);
+        },
+        readyForQuery(status: string) { this.handlers.forEach(handler => handler({ status })); }
+    };
+    constructor(public options: any) { FakeClient.instances.push(this); }
+    async connect() { return; }
+    async end() {
+        if (this.ended) return;
+        this.ended = true;
+        (this.handlers.end ?? []).forEach(handler => handler());
+    }
+    on(event: string, handler: (...args: any[]) => void) {
+        (this.handlers[event] ??= []).push(handler);
+    }
+    async query() { return { rows: [] }; }
+}
+
+describe('ConnectionManager session pool', () => {
+    let ConnectionManager: typeof import('../src/connectionManager').ConnectionManager;
+    const originalGetConfiguration = vscode.workspace.getConfiguration;
+
+    beforeAll(async () => {
+        await jest.unstable_mockModule('pg', () => ({ Client: FakeClient }));
+        ({ ConnectionManager } = await import('../src/connectionManager'));
+    });
+
+    const config = { id: 'local', name: 'local', host: 'localhost', port: 5432, database: 'app', username: 'app' };
+    const makeManager = () => new ConnectionManager({
+        globalState: { get: () => [config], update: jest.fn() },
+        secrets: { get: async () => 'pass', store: jest.fn(), delete: jest.fn() }
+    } as any);
+
+    const setPoolSize = (size: number) => {
+        (vscode.workspace as any).getConfiguration = () => ({
+            get: (key: string, defaultValue: unknown) => key === 'connectionPoolSize' ? size : defaultValue
+        });
+    };
+
+    beforeEach(() => {
+        FakeClient.instances = [];
+        (vscode.workspace as any).getConfiguration = originalGetConfiguration;
+    });
+
+    test('returns null while the connection is closed', async () => {
+        const mgr = makeManager();
+        expect(await mgr.getSession('local', 'terminal:1')).toBeNull();
+        expect(FakeClient.instances).toHaveLength(0);
+    });
+
+    test('gives each owner its own session next to the shared client', async () => {
+        const mgr = makeManager();
+        const shared = await mgr.connect('local');
+
+        const terminal = await mgr.getSession('local', 'terminal:1');
+        const document = await mgr.getSession('local', 'file:///q.sql');
+        expect(terminal).not.toBe(shared);
+        expect(document).not.toBe(terminal);
+        expect(await mgr.getSession('local', 'terminal:1')).toBe(terminal);
+        expect((terminal as any).options).toEqual((shared as any).options);
+        expect(mgr.getPoolUsage('local')).toEqual({ open: 3, max: 5 });
+    });
+
+    test('refuses new sessions once the pool is full', async () => {
+        setPoolSize(2);
+        const mgr = makeManager();
+        await mgr.connect('local');
+
+        await mgr.getSession('local', 'terminal:1');
+        await expect(mgr.getSession('local', 'terminal:2')).rejects.toThrow('All 2 sessions of this connection are in use');
+
+        await mgr.releaseSession('local', 'terminal:1');
+        expect(mgr.getPoolUsage('local')).toEqual({ open: 1, max: 2 });
+        await expect(mgr.getSession('local', 'terminal:2')).resolves.not.toBeNull();
+    });
+
+    test('never goes below the shared client plus one session', async () => {
+        setPoolSize(0);
+        const mgr = makeManager();
+        await mgr.connect('local');
+        expect(mgr.getPoolUsage('local').max).toBe(2);
+    });
+
+    test('closes dedicated sessions on disconnect and reports pool changes', async () => {
+        const mgr = makeManager();
+        const usages: number[] = [];
+        mgr.onPoolChange(event => usages.push(event.usage.open));
+        await mgr.connect('local');
+        const session = await mgr.getSession('local', 'terminal:1');
+
+        await mgr.disconnect('local');
+        expect((session as any).ended).toBe(true);
+        expect(mgr.getPoolUsage('local').open).toBe(0);
+        expect(usages[usages.length - 1]).toBe(0);
+        expect(Math.max(...usages)).toBe(2);
+    });
+
+    test('tracks the transaction status of the shared client and each session', async () => {
+        const mgr = makeManager();
+        expect(mgr.getTransactionStatus('local')).toBeUndefined();
+        const shared = await mgr.connect('local');
+        const document = await mgr.getSession('local', 'file:///q.sql');
+        expect(mgr.getTransactionStatus('local')).toBe('idle');
+        expect(mgr.getTransactionStatus('local', 'terminal:1')).toBeUndefined();
+
+        (document as any).connection.readyForQuery('T');
+        expect(mgr.getTransactionStatus('local', 'file:///q.sql')).toBe('inTransaction');
+        expect(mgr.getTransactionStatus('local')).toBe('idle');
+
+        (document as any).connection.readyForQuery('E');
+        expect(mgr.getTransactionStatus('local', 'file:///q.sql')).toBe('failed');
+        (shared as any).connection.readyForQuery('T');
+        expect(mgr.getTransactionStatus('local')).toBe('inTransaction');
+        (document as any).connection.readyForQuery('I');
+        expect(mgr.getTransactionStatus('local', 'file:///q.sql')).toBe('idle');
+    });
+
+    test('forgets a session that ended on its own', async () => {
+        const mgr = makeManager();
+        await mgr.connect('local');
+        const session = await mgr.getSession('local', 'terminal:1');
+
+        await session!.end();
+        expect(mgr.getPoolUsage('local').open).toBe(1);
+        expect(await mgr.getSession('local', 'terminal:1')).not.toBe(session);
+    });
+
+    test('starts the shared client and dedicated sessions read-only for read-only connections', async () => {
+        const mgr = new ConnectionManager({
+            globalState: { get: () => [{ ...config, readOnly: true }], update: jest.fn() },
+            secrets: { get: async () => 'pass', store: jest.fn(), delete: jest.fn() }
+        } as any);
+        const shared = await mgr.connect('local');
+        const session = await mgr.getSession('local', 'terminal:1');
+
+        expect((shared as any).options.options).toBe('-c default_transaction_read_only=on');
+        expect((session as any).options.options).toBe('-c default_transaction_read_only=on');
+    });
+
+    test('applies the session settings to every session it opens', async () => {
+        const mgr = new ConnectionManager({
+            globalState: {
+                get: () => [{ ...config, sessionSettings: { statementTimeout: '30s', role: 'reporting', applicationName: 'reports' } }],
+                update: jest.fn()
+            },
+            secrets: { get: async () => 'pass', store: jest.fn(), delete: jest.fn() }
+        } as any);
+        const shared = await mgr.connect('local');
+        const session = await mgr.getSession('local', 'terminal:1');
+
+        for (const client of [shared, session]) {
+            expect((client as any).options).toMatchObject({
+                application_name: 'reports',
+                options: '-c statement_timeout=30s -c role=reporting'
+            });
+        }
+    });
+
+    test('queries the connected database on the shared client', async () => {
+        const mgr = makeManager();
+        expect(await mgr.getDatabaseClient('local', 'reports')).toBeNull();
+        const shared = await mgr.connect('local');
+
+        expect(await mgr.getDatabaseClient('local', 'app')).toBe(shared);
+        expect(await mgr.getDatabaseClient('local', undefined)).toBe(shared);
+        expect(mgr.getPoolUsage('local').open).toBe(1);
+    });
+
+    test('opens one session per other database with the same credentials', async () => {
+        const mgr = makeManager();
+        const shared = await mgr.connect('local');
+
+        const reports = await mgr.getDatabaseClient('local', 'reports');
+        expect(reports).not.toBe(shared);
+        expect((reports as any).options).toEqual({ ...(shared as any).options, database: 'reports' });
+        expect(await mgr.getDatabaseClient('local', 'reports')).toBe(reports);
+        expect(await mgr.getDatabaseClient('local', 'archive')).not.toBe(reports);
+        expect(mgr.getPoolUsage('local').open).toBe(3);
+    });
+
+    test('closes the sessions of other databases together with the connection', async () => {
+        const mgr = makeManager();
+        await mgr.connect('local');
+        const reports = await mgr.getDatabaseClient('local', 'reports');
+        await mgr.disconnect('local');
+        expect((reports as any).ended).toBe(true);
+
+        const shared = await mgr.connect('local');
+        const archive = await mgr.getDatabaseClient('local', 'archive');
+        // A dropped shared client takes them down too
+        await shared!.end();
+        expect((archive as any).ended).toBe(true);
+        expect(mgr.getPoolUsage('local').open).toBe(0);
+        await mgr.disconnect('local');
+    });
+
+    test('names sessions after the extension by default', async () => {
+        const mgr = makeManager();
+        const shared = await mgr.connect('local');
+        expect((shared as any).options.application_name).toBe('PostgreSQL Data Editor');
+        expect((shared as any).options.options).toBeUndefined();
+    });
+});
@@ -0,0 +1,138 @@
+import { jest } from '@jest/globals';
+import * as vscode from 'vscode';
+jest.mock('vscode');
+
+let failConnects = 0;
+
+class FakeClient {
+    static instances: FakeClient[] = [];
+    queries: string[] = [];
+    private handlers: Record<string, Array<(...args: any[]) => void>> = {};
+    constructor(public options: any) { FakeClient.instances.push(this); }
+    async connect() {
+        if (failConnects > 0) {
+            failConnects--;
+            throw new Error('ECONNREFUSED');
+        }
+    }
+    async end() { this.emit('end'); }
+    on(event: string, handler: (...args: any[]) => void) {
+        (this.handlers[event] ??= []).push(handler);
+    }
+    emit(event: string, ...args: any[]) {
+        (this.handlers[event] ?? []).forEach(handler => handler(...args));
+    }
+    async query(sql: string) { this.queries.push(sql); return { rows: [] }; }
+}
+
+describe('ConnectionManager automatic reconnect', () => {
+    let ConnectionManager: typeof import('../src/connectionManager').ConnectionManager;
+    let reconnectDelay: typeof import('../src/connectionManager').reconnectDelay;
+    let RECONNECT_ATTEMPTS: number;
+
+    beforeAll(async () => {
+        await jest.unstable_mockModule('pg', () => ({ Client: FakeClient }));
+        ({ ConnectionManager, reconnectDelay, RECONNECT_ATTEMPTS } = await import('../src/connectionManager'));
+    });
+
+    const config = { id: 'local', name: 'local', host: 'localhost', port: 5432, database: 'app', username: 'app' };
+    const makeManager = () => new ConnectionManager({
+        globalState: { get: () => [config], update: jest.fn() },
+        secrets: { get: async () => 'pass', store: jest.fn(), delete: jest.fn() }
+    } as any);
+
+    let errorMessages: string[];
+    const originalShowError = vscode.window.showErrorMessage;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        FakeClient.instances = [];
+        failConnects = 0;
+        errorMessages = [];
+        (vscode.window as any).showErrorMessage = (msg: string) => { errorMessages.push(msg); };
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        (vscode.window as any).showErrorMessage = originalShowError;
+    });
+
+    test('backs off exponentially up to 30 seconds', () => {
+        expect([0, 1, 2, 3, 4, 5, 6].map(reconnectDelay)).toEqual([1000, 2000, 4000, 8000, 16000, 30000, 30000]);
+    });
+
+    test('connects with TCP keepalive', async () => {
+        const mgr = makeManager();
+        await mgr.connect('local');
+        expect(FakeClient.instances[0].options).toMatchObject({ keepAlive: true, keepAliveInitialDelayMillis: 10000 });
+    });
+
+    test('reconnects quietly after the connection drops', async () => {
+        const mgr = makeManager();
+        const reconnected: string[] = [];
+        mgr.onReconnect(({ id }) => reconnected.push(id));
+        const first = await mgr.connect('local') as unknown as FakeClient;
+
+        failConnects = 2;
+        first.emit('error', new Error('terminating connection due to administrator command'));
+        expect(mgr.getConnectionStatus('local')).toBe('connecting');
+        expect(mgr.isReconnecting('local')).toBe(true);
+        expect(await mgr.getClient('local')).toBeNull();
+
+        await jest.advanceTimersByTimeAsync(1000 + 2000 + 4000);
+        expect(mgr.getConnectionStatus('local')).toBe('connected');
+        expect(await mgr.getClient('local')).not.toBe(first);
+        expect(reconnected).toEqual(['local']);
+        expect(errorMessages).toEqual([]);
+    });
+
+    test('reopens dedicated sessions with their setup statements', async () => {
+        const mgr = makeManager();
+        const first = await mgr.connect('local') as unknown as FakeClient;
+        mgr.setSessionSetup('local', 'terminal:1', ['SET search_path TO "sales", public']);
+        const before = await mgr.getSession('local', 'terminal:1') as unknown as FakeClient;
+        expect(before.queries).toEqual(['SET search_path TO "sales", public']);
+
+        first.emit('end');
+        await jest.advanceTimersByTimeAsync(1000);
+
+        const after = await mgr.getSession('local', 'terminal:1') as unknown as FakeClient;
+        expect(after).not.toBe(before);
+        expect(after.queries).toEqual(['SET search_path TO "sales", public']);
+    });
+
+    test('gives up after the last attempt and reports it once', async () => {
+        const mgr = makeManager();
+        const first = await mgr.connect('local') as unknown as FakeClient;
+
+        failConnects = RECONNECT_ATTEMPTS;
+        first.emit('end');
+        await jest.advanceTimersByTimeAsync(120000);
+
+        expect(mgr.getConnectionStatus('local')).toBe('error');
+        expect(mgr.isReconnecting('local')).toBe(false);
+        expect(errorMessages).toHaveLength(1);
+        expect(errorMessages[0]).toMatch(/could not reconnect after 6 attempts/);
+    });
+
+    test('does not reconnect after a manual disconnect', async () => {
+        const mgr = makeManager();
+        await mgr.connect('local');
+
+        await mgr.disconnect('local');
+        await jest.advanceTimersByTimeAsync(60000);
+        expect(FakeClient.instances).toHaveLength(1);
+        expect(mgr.getConnectionStatus('local')).toBe('disconnected');
+    });
+
+    test('cancelling stops a pending reconnect', async () => {
+        const mgr = makeManager();
+        const first = await mgr.connect('local') as unknown as FakeClient;
+
+        first.emit('end');
+        expect(await mgr.cancelConnect('local')).toBe(true);
+        await jest.advanceTimersByTimeAsync(60000);
+        expect(FakeClient.instances).toHaveLength(1);
+        expect(mgr.getConnectionStatus('local')).toBe('disconnected');
+    });
+});
@@ -0,0 +1,69 @@
+import { jest } from '@jest/globals';
+jest.mock('vscode');
+
+const clientOptions: any[] = [];
+let connectError: Error | undefined;
+const closeTunnel = jest.fn(async () => undefined);
+const openSshTunnel = jest.fn(async () => ({ localHost: '127.0.0.1', localPort: 61000, close: closeTunnel }));
+
+describe('ConnectionManager SSH tunnel', () => {
+    let ConnectionManager: typeof import('../src/connectionManager').ConnectionManager;
+
+    beforeAll(async () => {
+        await jest.unstable_mockModule('pg', () => ({
+            Client: class {
+                constructor(options: any) { clientOptions.push(options); }
+                async connect() { if (connectError) throw connectError; }
+                async end() { return; }
+                on() {}
+            }
+        }));
+        await jest.unstable_mockModule('../src/sshTunnel', () => ({
+            SSH_AUTH_METHODS: ['privateKey', 'agent'],
+            openSshTunnel
+        }));
+        ({ ConnectionManager } = await import('../src/connectionManager'));
+    });
+
+    const config = {
+        id: 'staging', name: 'staging', host: 'db.internal', port: 5432, database: 'app', username: 'app',
+        ssh: { host: 'bastion.example.com', port: 22, username: 'deploy', authMethod: 'privateKey', privateKeyPath: '/keys/id_ed25519' }
+    };
+    const secrets: Record<string, string> = {
+        'postgres-password-staging': 'pass',
+        'postgres-ssh-passphrase-staging': 'hunter2'
+    };
+    const makeManager = () => new ConnectionManager({
+        globalState: { get: () => [config], update: jest.fn() },
+        secrets: { get: async (key: string) => secrets[key], store: jest.fn(), delete: jest.fn() }
+    } as any);
+
+    beforeEach(() => {
+        clientOptions.length = 0;
+        connectError = undefined;
+        openSshTunnel.mockClear();
+        closeTunnel.mockClear();
+    });
+
+    test('connects through the tunnel and closes it on disconnect', async () => {
+        const mgr = makeManager();
+
+        const client = await mgr.connect('staging');
+        expect(client).not.toBeNull();
+        expect(openSshTunnel).toHaveBeenCalledWith(config.ssh, { host: 'db.internal', port: 5432 }, 'hunter2');
+        expect(clientOptions[0]).toMatchObject({ host: '127.0.0.1', port: 61000, database: 'app' });
+        expect(closeTunnel).not.toHaveBeenCalled();
+
+        await mgr.disconnect('staging');
+        expect(closeTunnel).toHaveBeenCalledTimes(1);
+    });
+
+    test('closes the tunnel when the database connection fails', async () => {
+        connectError = new Error('password authentication failed');
+        const mgr = makeManager();
+
+        expect(await mgr.connect('staging')).toBeNull();
+        expect(closeTunnel).toHaveBeenCalledTimes(1);
+        expect(mgr.getConnectionStatus('staging')).toBe('error');
+    });
+});
@@ -1,7 +1,7 @@
 import { jest } from '@jest/globals';
 jest.mock('vscode');
 
-import { ConnectionManager } from '../src/connectionManager';
+import { ConnectionManager, describeQueryError, normalizeConnectionAppearance, normalizeSshTunnel, normalizeSslSettings, readOnlyError, withEnvironmentBadge } from '../src/connectionManager';
 import * as vscode from 'vscode';
 
 describe('ConnectionManager.testConnection', () => {
@@ -40,4 +40,96 @@ describe('ConnectionManager.testConnection', () => {
         expect(res.success).toBe(false);
         expect(res.error).toMatch(/network error/);
     });
+
+    test('sslmode=prefer retries without SSL when the TLS attempt fails', async () => {
+        const attempts: unknown[] = [];
+        await jest.unstable_mockModule('pg', () => ({
+            Client: class {
+                constructor(private readonly options: { ssl: unknown }) { attempts.push(options.ssl); }
+                async connect() { if (this.options.ssl) throw new Error('The server does not support SSL connections'); }
+                async end() { return; }
+            }
+        }));
+
+        const { ConnectionManager: CM } = await import('../src/connectionManager');
+        const ctx = { globalState: { get: () => [] }, secrets: { get: async () => undefined } } as any;
+        const mgr = new CM(ctx);
+
+        const res = await mgr.testConnection({ connStr: 'postgres://u:p@localhost:5432/db?sslmode=prefer' });
+        expect(res.success).toBe(true);
+        expect(attempts).toHaveLength(2);
+        expect(attempts[1]).toBe(false);
+    });
+});
+
+describe('Connection SSL settings', () => {
+    const mgr = new ConnectionManager({ globalState: { get: () => [] }, secrets: {} } as any);
+
+    test('parses sslmode and certificate paths from a connection string', () => {
+        const parsed = mgr.parseConnectionString('postgres://u@db.local/app?sslmode=verify-full&sslrootcert=/certs/root.crt&sslcert=/certs/c.crt&sslkey=/certs/c.key');
+        expect(parsed).toMatchObject({
+            ssl: true,
+            sslMode: 'verify-full',
+            sslRootCertPath: '/certs/root.crt',
+            sslCertPath: '/certs/c.crt',
+            sslKeyPath: '/certs/c.key'
+        });
+        expect(mgr.parseConnectionString('postgres://u@db.local/app?ssl=true')).toMatchObject({ sslMode: 'require' });
+        expect(mgr.parseConnectionString('postgres://u@db.local/app')?.sslMode).toBeUndefined();
+    });
+
+    test('form fields override connection string values', () => {
+        expect(normalizeSslSettings({ sslMode: 'verify-ca', sslRootCertPath: ' /certs/ca.crt ' }, { sslMode: 'require', sslKeyPath: '/certs/c.key' }))
+            .toEqual({ ssl: true, sslMode: 'verify-ca', sslRootCertPath: '/certs/ca.crt', sslCertPath: undefined, sslKeyPath: '/certs/c.key' });
+        expect(normalizeSslSettings({ sslMode: '' }, { sslMode: 'prefer' })).toMatchObject({ ssl: false, sslMode: 'prefer' });
+    });
+
+    test('maps the legacy ssl checkbox onto a mode', () => {
+        expect(normalizeSslSettings({ ssl: true })).toMatchObject({ ssl: true, sslMode: 'require' });
+        expect(normalizeSslSettings({ ssl: false })).toMatchObject({ ssl: false, sslMode: 'disable' });
+    });
+});
+
+describe('Connection appearance', () => {
+    test('normalizes folder, color and environment from form input', () => {
+        expect(normalizeConnectionAppearance({ group: '  Clients ', color: 'green', environment: 'prod' }))
+            .toEqual({ group: 'Clients', color: 'green', environment: 'prod' });
+        expect(normalizeConnectionAppearance({ group: '   ', color: 'teal', environment: 'qa' }))
+            .toEqual({ group: undefined, color: undefined, environment: undefined });
+    });
+
+    test('prefixes titles with the environment badge', () => {
+        expect(withEnvironmentBadge('public.orders', 'prod')).toBe('[PROD] public.orders');
+        expect(withEnvironmentBadge('public.orders', undefined)).toBe('public.orders');
+    });
+});
+
+describe('SSH tunnel settings', () => {
+    test('builds the tunnel from wizard fields', () => {
+        expect(normalizeSshTunnel({ sshEnabled: true, sshHost: ' bastion ', sshPort: '2222', sshUsername: 'deploy', sshAuthMethod: 'privateKey', sshPrivateKeyPath: ' ~/.ssh/id_ed25519 ' }))
+            .toEqual({ host: 'bastion', port: 2222, username: 'deploy', authMethod: 'privateKey', privateKeyPath: '~/.ssh/id_ed25519' });
+        expect(normalizeSshTunnel({ sshEnabled: true, sshHost: 'bastion', sshPort: 'abc', sshUsername: 'deploy', sshAuthMethod: 'agent', sshPrivateKeyPath: '/ignored' }))
+            .toEqual({ host: 'bastion', port: 22, username: 'deploy', authMethod: 'agent', privateKeyPath: undefined });
+    });
+
+    test('drops the tunnel when disabled or without a host', () => {
+        expect(normalizeSshTunnel({ sshEnabled: false, sshHost: 'bastion' })).toBeUndefined();
+        expect(normalizeSshTunnel({ sshEnabled: true, sshHost: '  ' })).toBeUndefined();
+    });
+});
+
+describe('Read-only connections', () => {
+    test('explains which action is disabled', () => {
+        expect(readOnlyError({ name: 'prod', readOnly: true }, 'dropping tables'))
+            .toBe('Connection "prod" is read-only; dropping tables is disabled.');
+        expect(readOnlyError({ name: 'dev' }, 'dropping tables')).toBeUndefined();
+        expect(readOnlyError(undefined, 'dropping tables')).toBeUndefined();
+    });
+
+    test('names the connection in read-only transaction errors', () => {
+        const rejected = Object.assign(new Error('cannot execute INSERT in a read-only transaction'), { code: '25006' });
+        expect(describeQueryError(rejected, 'prod'))
+            .toBe('Connection "prod" is read-only: cannot execute INSERT in a read-only transaction');
+        expect(describeQueryError(new Error('syntax error at or near "SELEC"'), 'prod')).toBe('syntax error at or near "SELEC"');
+    });
 });
@@ -0,0 +1,106 @@
+import { jest } from '@jest/globals';
+import * as vscode from 'vscode';
+jest.mock('vscode');
+
+class FakeClient {
+    static instances: FakeClient[] = [];
+    constructor(public options: any) { FakeClient.instances.push(this); }
+    async connect() { return; }
+    async end() { return; }
+    on() {}
+    async query() { return { rows: [] }; }
+}
+
+describe('ConnectionManager workspace connections', () => {
+    let ConnectionManager: typeof import('../src/connectionManager').ConnectionManager;
+    const originalShowInputBox = vscode.window.showInputBox;
+
+    beforeAll(async () => {
+        await jest.unstable_mockModule('pg', () => ({ Client: FakeClient }));
+        ({ ConnectionManager } = await import('../src/connectionManager'));
+    });
+
+    const personal = { id: 'local', name: 'local', host: 'localhost', port: 5432, database: 'app', username: 'app' };
+    const shared = {
+        id: 'workspace:shop:Orders', name: 'Orders', host: 'db.internal', port: 5432, database: 'orders', username: '', workspaceFolder: 'shop'
+    };
+
+    let secrets: Record<string, string>;
+    let saved: any[];
+    let prompts: string[];
+    const makeManager = () => new ConnectionManager({
+        globalState: { get: () => saved, update: jest.fn(async (_key: string, value: any) => { saved = value; }) },
+        secrets: {
+            get: async (key: string) => secrets[key],
+            store: jest.fn(async (key: string, value: string) => { secrets[key] = value; }),
+            delete: jest.fn(async (key: string) => { delete secrets[key]; })
+        }
+    } as any);
+
+    const answer = (...values: Array<string | undefined>) => {
+        (vscode.window as any).showInputBox = async (options: any) => {
+            prompts.push(options.prompt);
+            return values.shift();
+        };
+    };
+
+    beforeEach(() => {
+        FakeClient.instances = [];
+        secrets = {};
+        saved = [personal];
+        prompts = [];
+    });
+
+    afterEach(() => {
+        (vscode.window as any).showInputBox = originalShowInputBox;
+    });
+
+    test('lists workspace connections after personal ones without saving them', async () => {
+        const mgr = makeManager();
+        await mgr.setWorkspaceConnections([shared]);
+        expect((await mgr.getConnections()).map(c => c.id)).toEqual(['local', 'workspace:shop:Orders']);
+
+        await mgr.saveNewConnection({ name: 'second', host: 'h', port: 5432, database: 'd', username: 'u' });
+        expect(saved.map(c => c.name)).toEqual(['local', 'second']);
+    });
+
+    test('asks for credentials on first connect and keeps them in secret storage', async () => {
+        const mgr = makeManager();
+        await mgr.setWorkspaceConnections([shared]);
+        answer('alice', 's3cret');
+
+        const client = await mgr.connect(shared.id);
+        expect((client as any).options).toMatchObject({ user: 'alice', password: 's3cret' });
+        expect(prompts).toEqual(['User for db.internal:5432/orders', expect.stringContaining('Password for alice@db.internal:5432/orders')]);
+        expect(secrets).toEqual({ [`postgres-password-${shared.id}`]: 's3cret', [`postgres-username-${shared.id}`]: 'alice' });
+        expect(saved).toEqual([personal]);
+
+        // A later session (e.g. after reloading the window) does not ask again
+        const next = makeManager();
+        await next.setWorkspaceConnections([shared]);
+        expect((await next.getConnections())[1].username).toBe('alice');
+        prompts = [];
+        await next.connect(shared.id);
+        expect(prompts).toEqual([]);
+    });
+
+    test('stays disconnected and stores nothing when the prompt is dismissed', async () => {
+        const mgr = makeManager();
+        await mgr.setWorkspaceConnections([shared]);
+        answer('alice', undefined);
+
+        expect(await mgr.connect(shared.id)).toBeNull();
+        expect(mgr.getConnectionStatus(shared.id)).toBe('disconnected');
+        expect(FakeClient.instances).toHaveLength(0);
+        expect(secrets).toEqual({});
+    });
+
+    test('asks only for the password when the connection names a user', async () => {
+        const mgr = makeManager();
+        answer('pw');
+
+        await mgr.connect('local');
+        expect(prompts).toEqual([expect.stringContaining('Password for app@localhost:5432/app')]);
+        expect(secrets['postgres-password-local']).toBe('pw');
+    });
+});
@@ -0,0 +1,79 @@
+import { buildLibpqSslEnv, buildSslAttempts, resolveSslMode } from '../src/connectionSsl';
+
+describe('Connection SSL Tests', () => {
+    const files: Record<string, string> = {
+        '/certs/root.crt': 'ROOT',
+        '/certs/client.crt': 'CERT',
+        '/certs/client.key': 'KEY'
+    };
+    const readFile = (path: string) => {
+        if (!(path in files)) throw new Error(`ENOENT: ${path}`);
+        return files[path];
+    };
+
+    test('falls back to the legacy ssl flag', () => {
+        expect(resolveSslMode({ ssl: true })).toBe('require');
+        expect(resolveSslMode({ ssl: false })).toBe('disable');
+        expect(resolveSslMode({})).toBe('disable');
+        expect(resolveSslMode({ ssl: true, sslMode: 'verify-full' })).toBe('verify-full');
+    });
+
+    test('disable connects without TLS', () => {
+        expect(buildSslAttempts({ sslMode: 'disable' }, 'db.local', undefined, readFile)).toEqual([false]);
+    });
+
+    test('allow tries plain first and prefer tries TLS first', () => {
+        const allow = buildSslAttempts({ sslMode: 'allow' }, 'db.local', undefined, readFile);
+        expect(allow).toHaveLength(2);
+        expect(allow[0]).toBe(false);
+        expect(allow[1]).toMatchObject({ rejectUnauthorized: false });
+
+        const prefer = buildSslAttempts({ sslMode: 'prefer' }, 'db.local', undefined, readFile);
+        expect(prefer[0]).toMatchObject({ rejectUnauthorized: false });
+        expect(prefer[1]).toBe(false);
+    });
+
+    test('require only verifies the chain when a CA is configured', () => {
+        const [plain] = buildSslAttempts({ sslMode: 'require' }, 'db.local', undefined, readFile);
+        expect(plain).toMatchObject({ rejectUnauthorized: false });
+
+        const [withCa] = buildSslAttempts({ sslMode: 'require', sslRootCertPath: '/certs/root.crt' }, 'db.local', undefined, readFile);
+        expect(withCa).toMatchObject({ rejectUnauthorized: true, ca: 'ROOT' });
+    });
+
+    test('verify-ca skips the host name check and verify-full enforces it', () => {
+        const [ca] = buildSslAttempts({ sslMode: 'verify-ca', sslRootCertPath: '/certs/root.crt' }, 'db.local', undefined, readFile);
+        expect(ca).toMatchObject({ rejectUnauthorized: true, ca: 'ROOT' });
+        expect(ca && ca.checkServerIdentity?.('other.host', {} as any)).toBeUndefined();
+
+        const [full] = buildSslAttempts({ sslMode: 'verify-full', sslRootCertPath: '/certs/root.crt' }, 'db.local', undefined, readFile);
+        expect(full).toMatchObject({ rejectUnauthorized: true, servername: 'db.local', ca: 'ROOT' });
+        expect(full && full.checkServerIdentity).toBeUndefined();
+    });
+
+    test('loads the client certificate, key and passphrase', () => {
+        const [tls] = buildSslAttempts(
+            { sslMode: 'require', sslCertPath: '/certs/client.crt', sslKeyPath: '/certs/client.key' },
+            'db.local',
+            'secret',
+            readFile
+        );
+        expect(tls).toMatchObject({ cert: 'CERT', key: 'KEY', passphrase: 'secret' });
+    });
+
+    test('rejects a certificate without its key', () => {
+        expect(() => buildSslAttempts({ sslMode: 'require', sslCertPath: '/certs/client.crt' }, 'db.local', undefined, readFile))
+            .toThrow('A client certificate needs both a certificate and a key file');
+    });
+
+    test('surfaces missing certificate files', () => {
+        expect(() => buildSslAttempts({ sslMode: 'verify-full', sslRootCertPath: '/certs/missing.crt' }, 'db.local', undefined, readFile))
+            .toThrow('ENOENT');
+    });
+
+    test('maps settings onto libpq environment variables', () => {
+        expect(buildLibpqSslEnv({ sslMode: 'verify-full', sslRootCertPath: '/certs/root.crt', sslCertPath: '/certs/client.crt', sslKeyPath: '/certs/client.key' }))
+            .toEqual({ PGSSLMODE: 'verify-full', PGSSLROOTCERT: '/certs/root.crt', PGSSLCERT: '/certs/client.crt', PGSSLKEY: '/certs/client.key' });
+        expect(buildLibpqSslEnv({ ssl: true })).toEqual({ PGSSLMODE: 'require' });
+    });
+});
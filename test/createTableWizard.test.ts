@@ -34,4 +34,29 @@ describe('CreateTableWizard normalization', () => {
     expect(normalized.constraints[0].name).toBe('idx1');
     expect(normalized.constraints[0].type).toBe('index');
   });
+
+  test('normalizePreviewPayload keeps partitioning only for known strategies', () => {
+    const wizard = new CreateTableWizard({} as any, {} as any, () => {});
+    const columns = [
+      { id: 'c1', name: 'created_at', type: 'date', nullable: false, defaultValue: null, comment: null, isPrimaryKey: true }
+    ];
+
+    const partitioned = (wizard as any).normalizePreviewPayload({
+      tableName: 'events',
+      columns,
+      partitioning: {
+        strategy: 'range',
+        columns: [' created_at ', ''],
+        partitions: [{ id: 'p1', name: ' events_2024 ', bound: " FROM ('2024-01-01') TO ('2025-01-01') " }]
+      }
+    });
+    expect(partitioned.partitioning).toEqual({
+      strategy: 'RANGE',
+      columns: ['created_at'],
+      partitions: [{ name: 'events_2024', bound: "FROM ('2024-01-01') TO ('2025-01-01')" }]
+    });
+
+    const plain = (wizard as any).normalizePreviewPayload({ tableName: 'events', columns, partitioning: { strategy: 'none' } });
+    expect(plain.partitioning).toBeNull();
+  });
 });
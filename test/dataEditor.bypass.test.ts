@@ -53,6 +53,7 @@ describe('DataEditor Validation Bypass', () => {
     jest.spyOn(connectionManager, 'getClient').mockResolvedValue(mockClient as Client);
     jest.spyOn(connectionManager, 'markBusy').mockImplementation(() => {});
     jest.spyOn(connectionManager, 'markIdle').mockImplementation(() => {});
+    jest.spyOn(connectionManager, 'getConnections').mockResolvedValue([]);
 
     const dataEditor = new DataEditor(mockContext, connectionManager);
 
@@ -131,6 +132,7 @@ describe('DataEditor Validation Bypass', () => {
     jest.spyOn(connectionManager, 'getClient').mockResolvedValue(mockClient as Client);
     jest.spyOn(connectionManager, 'markBusy').mockImplementation(() => {});
     jest.spyOn(connectionManager, 'markIdle').mockImplementation(() => {});
+    jest.spyOn(connectionManager, 'getConnections').mockResolvedValue([]);
 
     const dataEditor = new DataEditor(mockContext, connectionManager);
 
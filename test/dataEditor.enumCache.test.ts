@@ -0,0 +1,93 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { DataEditor } from '../src/dataEditor';
+
+class MockConnectionManager {
+    constructor(private client: any) {}
+
+    async getClient(_id: string) {
+        return this.client;
+    }
+
+    async getConnections() {
+        return [{ id: 'c1', name: 'test-conn', database: 'dev-db' }];
+    }
+
+    markBusy(_id: string) {
+        // no-op
+    }
+
+    markIdle(_id: string) {
+        // no-op
+    }
+}
+
+function createMockClient(labels: string[]) {
+    return {
+        query: jest.fn(async (sql: string) => {
+            if (/pg_relation_is_updatable/.test(sql)) {
+                return { rows: [{ relkind: 'r', updatable: 28 }] };
+            }
+            if (/SELECT a.attname/.test(sql)) {
+                return {
+                    rows: [{ column_name: 'mood', data_type: 'mood', is_nullable: true, typoid: 9001, typname: 'mood', typtype: 'e', typelem: 0 }]
+                };
+            }
+            if (/FROM pg_type WHERE oid = ANY/.test(sql)) {
+                return { rows: [{ oid: 9001, typname: 'mood', typtype: 'e', typelem: 0 }] };
+            }
+            if (/FROM pg_enum/.test(sql)) {
+                return { rows: labels.map(enumlabel => ({ enumtypid: 9001, enumlabel })) };
+            }
+            if (/SELECT \* FROM/.test(sql)) {
+                return { rows: [{ mood: 'happy' }], rowCount: 1 };
+            }
+            return { rows: [], rowCount: 0 };
+        })
+    };
+}
+
+const defaultState = () => ({ page: 0, sort: null, filters: {}, searchTerm: '', customWhereClause: '' });
+
+describe('DataEditor enum label cache', () => {
+    it('re-reads enum labels after the connection cache is invalidated', async () => {
+        const labels = ['sad', 'happy'];
+        const contextStub: any = {
+            subscriptions: [],
+            globalState: { get: jest.fn(() => ({})), update: jest.fn(async () => undefined) }
+        };
+        const editor = new DataEditor(contextStub, new MockConnectionManager(createMockClient(labels)) as any);
+
+        const first = await (editor as any).fetchTableState('c1', 'public', 'people', defaultState());
+        expect(first.columns[0].enumValues).toEqual(['sad', 'happy']);
+
+        labels.push('ecstatic');
+        const cached = await (editor as any).fetchTableState('c1', 'public', 'people', defaultState());
+        expect(cached.columns[0].enumValues).toEqual(['sad', 'happy']);
+
+        editor.invalidateSchemaCache('c1');
+        const refreshed = await (editor as any).fetchTableState('c1', 'public', 'people', defaultState());
+        expect(refreshed.columns[0].enumValues).toEqual(['sad', 'happy', 'ecstatic']);
+    });
+
+    it('sends open grids the new labels when their connection is reloaded', async () => {
+        const labels = ['sad', 'happy'];
+        const contextStub: any = {
+            subscriptions: [],
+            globalState: { get: jest.fn(() => ({})), update: jest.fn(async () => undefined) }
+        };
+        const editor = new DataEditor(contextStub, new MockConnectionManager(createMockClient(labels)) as any);
+        const posted: any[] = [];
+        const panel: any = { webview: { postMessage: jest.fn((message: any) => posted.push(message)) } };
+        (editor as any).panelTables.set(panel, { connectionId: 'c1', schemaName: 'public', tableName: 'people' });
+        (editor as any).initializedPanels.add(panel);
+        await (editor as any).fetchTableState('c1', 'public', 'people', defaultState());
+
+        labels.push('ecstatic');
+        editor.invalidateSchemaCache('c1');
+        await editor.reloadConnection('c1');
+
+        expect(posted).toHaveLength(1);
+        expect(posted[0].command).toBe('loadData');
+        expect(posted[0].payload.columns[0].enumValues).toEqual(['sad', 'happy', 'ecstatic']);
+    });
+});
@@ -0,0 +1,314 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { DataEditor } from '../src/dataEditor';
+import { SCROLL_CURSOR_IDLE_MS } from '../src/tableScrollCursor';
+
+class MockConnectionManager {
+    constructor(private client: any) {}
+
+    async getClient(_id: string) {
+        return this.client;
+    }
+
+    async getConnections() {
+        return [{ id: 'c1', name: 'test-conn', database: 'dev-db' }];
+    }
+
+    markBusy(_id: string) {
+        // no-op
+    }
+
+    markIdle(_id: string) {
+        // no-op
+    }
+}
+
+// A table of `total` rows keyed by id; answers the data query like PostgreSQL would
+function createMockClient(total: number, estimate = total) {
+    const dataQueries: Array<{ sql: string; values: unknown[] }> = [];
+    const client = {
+        dataQueries,
+        query: jest.fn(async (sql: string, values: unknown[] = []) => {
+            if (/SELECT a.attname\s+FROM pg_index/.test(sql) && /indisprimary/.test(sql)) {
+                return { rows: [{ attname: 'id' }] };
+            }
+            if (/SELECT a.attname AS column_name/.test(sql)) {
+                return {
+                    rows: [{ column_name: 'id', data_type: 'integer', is_nullable: false, typoid: 23, typname: 'int4', typtype: 'b', typelem: 0 }]
+                };
+            }
+            if (/^EXPLAIN/.test(sql)) {
+                return { rows: [{ 'QUERY PLAN': [{ Plan: { 'Node Type': 'Seq Scan', 'Plan Rows': estimate } }] }] };
+            }
+            if (/COUNT\(\*\)/.test(sql)) {
+                return { rows: [{ total }] };
+            }
+            if (/^SELECT \*/.test(sql)) {
+                dataQueries.push({ sql, values });
+                const offset = /OFFSET/.test(sql) ? Number(values[values.length - 1]) : 0;
+                const limit = Number(values[values.length - (offset > 0 ? 2 : 1)]);
+                const seek = /\("id"\) (>=|>|<) \(\$1\)/.exec(sql);
+                const key = Number(values[0]);
+                let ids = Array.from({ length: total }, (_, index) => index + 1).filter(id =>
+                    !seek || (seek[1] === '>' ? id > key : seek[1] === '>=' ? id >= key : id < key));
+                if (/ORDER BY "id" DESC/.test(sql)) {
+                    ids = ids.reverse();
+                }
+                ids = ids.slice(offset, offset + limit);
+                return { rows: ids.map(id => ({ id, __keyset_0: String(id) })), rowCount: ids.length };
+            }
+            return { rows: [], rowCount: 0 };
+        })
+    };
+    return client;
+}
+
+function createEditor(client: any): DataEditor {
+    const contextStub: any = {
+        subscriptions: [],
+        globalState: { get: jest.fn(() => ({})), update: jest.fn(async () => undefined) }
+    };
+    return new DataEditor(contextStub, new MockConnectionManager(client) as any);
+}
+
+describe('DataEditor pagination', () => {
+    it('pages through a table with a primary key by seeking past the previous page', async () => {
+        const client = createMockClient(250);
+        const editor = createEditor(client);
+        const state: any = { page: 0, sort: null, filters: {}, searchTerm: '', customWhereClause: '' };
+
+        const first = await (editor as any).fetchTableState('c1', 'public', 'events', state);
+        expect(first.keysetPagination).toBe(true);
+        expect(first.paginationSize).toBe(100);
+        expect(first.rows[0]).toEqual({ id: 1 });
+
+        state.page = 1;
+        const second = await (editor as any).fetchTableState('c1', 'public', 'events', state);
+        expect(client.dataQueries[1].sql).toContain('("id") > ($1)');
+        expect(client.dataQueries[1].sql).not.toContain('OFFSET');
+        expect(second.rows[0]).toEqual({ id: 101 });
+        expect(second.currentPage).toBe(1);
+        expect(second.hasNextPage).toBe(true);
+    });
+
+    it('jumps to the first and last page of a large table without counting its rows', async () => {
+        const client = createMockClient(1_000_000);
+        const editor = createEditor(client);
+        const state: any = { page: 0, sort: null, filters: {}, searchTerm: '', customWhereClause: '' };
+
+        const first = await (editor as any).fetchTableState('c1', 'public', 'events', state);
+        expect(first.totalRows).toBe(1_000_000);
+        expect(first.totalRowsEstimated).toBe(true);
+        expect(first.hasNextPage).toBe(true);
+        expect(first.rows).toHaveLength(100);
+
+        state.page = 9999;
+        const last = await (editor as any).fetchTableState('c1', 'public', 'events', state);
+        expect(client.dataQueries[1].sql).toContain('ORDER BY "id" DESC LIMIT $1');
+        expect(client.dataQueries[1].sql).not.toContain('OFFSET');
+        expect(last.rows[0]).toEqual({ id: 999_901 });
+        expect(last.rows[99]).toEqual({ id: 1_000_000 });
+        expect(last.hasNextPage).toBe(false);
+
+        const statements = client.query.mock.calls.map(call => String(call[0]));
+        expect(statements.some(sql => /COUNT\(\*\)/.test(sql))).toBe(false);
+    });
+
+    it('keeps the page boundaries of a counted table after jumping to the last page', async () => {
+        const client = createMockClient(250);
+        const editor = createEditor(client);
+        const state: any = { page: 2, sort: null, filters: {}, searchTerm: '', customWhereClause: '' };
+
+        const last = await (editor as any).fetchTableState('c1', 'public', 'events', state);
+        expect(last.rows.map((row: any) => row.id)).toEqual(Array.from({ length: 50 }, (_, index) => 201 + index));
+
+        state.page = 1;
+        const previous = await (editor as any).fetchTableState('c1', 'public', 'events', state);
+        expect(previous.rows[0]).toEqual({ id: 101 });
+        expect(previous.rows[99]).toEqual({ id: 200 });
+    });
+
+    it('shows the last page when the estimate promised more rows than there are', async () => {
+        const client = createMockClient(250, 500_000);
+        const editor = createEditor(client);
+        const state: any = { page: 40, sort: null, filters: {}, searchTerm: '', customWhereClause: '' };
+
+        const payload = await (editor as any).fetchTableState('c1', 'public', 'events', state);
+        expect(client.dataQueries[0].sql).toContain('OFFSET');
+        expect(client.dataQueries[1].sql).toContain('ORDER BY "id" DESC LIMIT $1');
+        expect(payload.rows[0]).toEqual({ id: 151 });
+        expect(payload.hasNextPage).toBe(false);
+    });
+
+    it('uses the panel page size and stays within the last page', async () => {
+        const client = createMockClient(30);
+        const editor = createEditor(client);
+        const state: any = { page: 7, sort: null, filters: {}, searchTerm: '', customWhereClause: '', pageSize: 25 };
+
+        const payload = await (editor as any).fetchTableState('c1', 'public', 'events', state);
+        expect(payload.paginationSize).toBe(25);
+        expect(payload.currentPage).toBe(1);
+        // The last page is read backwards: 30 rows leave 5 on page 2
+        expect(client.dataQueries[0].sql).toContain('ORDER BY "id" DESC');
+        expect(client.dataQueries[0].values).toEqual([5]);
+        expect(payload.rows[0]).toEqual({ id: 26 });
+        expect(payload.hasNextPage).toBe(false);
+    });
+
+    it('binds column filters as parameters cast to the column type', async () => {
+        const client = createMockClient(250);
+        const editor = createEditor(client);
+        const filters = [
+            { column: 'id', operator: 'greaterThan', values: ['200'] },
+            { column: 'id', operator: 'in', values: ['1', '2'] }
+        ];
+        const state: any = { page: 0, sort: null, filters, searchTerm: '', customWhereClause: '' };
+
+        await (editor as any).fetchTableState('c1', 'public', 'events', state);
+        expect(client.dataQueries[0].sql).toContain('WHERE "id" > CAST($1 AS integer) AND "id" IN (CAST($2 AS integer), CAST($3 AS integer))');
+        expect(client.dataQueries[0].values.slice(0, 3)).toEqual(['200', '1', '2']);
+    });
+});
+
+describe('DataEditor infinite scroll', () => {
+    function createScrollEditor(client: any, session: any) {
+        const manager: any = new MockConnectionManager(client);
+        manager.getSession = jest.fn(async () => session);
+        manager.releaseSession = jest.fn(async () => undefined);
+        const editor = createEditor(client);
+        (editor as any).connectionManager = manager;
+        const posted: any[] = [];
+        const panel: any = { webview: { postMessage: jest.fn((message: any) => posted.push(message)) } };
+        (editor as any).panelTables.set(panel, { connectionId: 'c1', schemaName: 'public', tableName: 'events' });
+        return { editor, manager, panel, posted };
+    }
+
+    function createSession(failOn?: RegExp) {
+        const statements: string[] = [];
+        return {
+            statements,
+            query: jest.fn(async (sql: string) => {
+                statements.push(sql);
+                if (failOn?.test(sql)) {
+                    throw new Error('terminating connection due to idle-in-transaction timeout');
+                }
+                const fetch = /^FETCH FORWARD (\d+)/.exec(sql);
+                if (fetch) {
+                    const moved = statements.filter(s => s.startsWith('MOVE')).pop()!;
+                    const from = Number(/ABSOLUTE (\d+)/.exec(moved)![1]);
+                    const ids = Array.from({ length: 30 }, (_, index) => index + 1).slice(from, from + Number(fetch[1]));
+                    return { rows: ids.map(id => ({ id })) };
+                }
+                return { rows: [] };
+            })
+        };
+    }
+
+    it('streams ranges from one cursor and declares a new one after a reload', async () => {
+        const session = createSession();
+        const { editor, manager, panel, posted } = createScrollEditor(createMockClient(30), session);
+        const state = (editor as any).getPanelState(panel);
+        state.sort = { column: 'id', direction: 'desc' };
+        (editor as any).initializedPanels.add(panel);
+        await (editor as any).loadTableData(panel, 'c1', 'public', 'events', 0);
+
+        await (editor as any).handleMessage({ command: 'loadRange', offset: 0, limit: 10, requestId: 1 }, panel, 'c1', 'public', 'events');
+        await (editor as any).handleMessage({ command: 'loadRange', offset: 25, limit: 10, requestId: 2 }, panel, 'c1', 'public', 'events');
+
+        expect(manager.getSession).toHaveBeenCalledWith('c1', 'dataEditor:c1:public.events', undefined);
+        expect(session.statements.filter(s => s.startsWith('DECLARE'))).toEqual([
+            'DECLARE data_editor_rows SCROLL CURSOR FOR SELECT * FROM "public"."events" ORDER BY "id" DESC'
+        ]);
+        const ranges = posted.filter(m => m.command === 'rangeData');
+        expect(ranges[0]).toMatchObject({ offset: 0, requestId: 1, totalRows: undefined });
+        expect(ranges[0].rows).toHaveLength(10);
+        // Only 5 rows are left after the 25th: the cursor reached the end
+        expect(ranges[1]).toMatchObject({ offset: 25, requestId: 2, totalRows: 30 });
+
+        await (editor as any).handleMessage({ command: 'refresh' }, panel, 'c1', 'public', 'events');
+        expect(manager.releaseSession).toHaveBeenCalledWith('c1', 'dataEditor:c1:public.events');
+        await (editor as any).handleMessage({ command: 'loadRange', offset: 0, limit: 10, requestId: 3 }, panel, 'c1', 'public', 'events');
+        expect(session.statements.filter(s => s.startsWith('DECLARE'))).toHaveLength(2);
+        await (editor as any).closeScrollCursor(panel);
+    });
+
+    it('opens the cursor again when the server ended its session', async () => {
+        const killed = createSession(/^MOVE ABSOLUTE 10 /);
+        const fresh = createSession();
+        const { editor, manager, panel, posted } = createScrollEditor(createMockClient(30), killed);
+        (editor as any).initializedPanels.add(panel);
+        await (editor as any).loadTableData(panel, 'c1', 'public', 'events', 0);
+
+        await (editor as any).handleMessage({ command: 'loadRange', offset: 0, limit: 10, requestId: 1 }, panel, 'c1', 'public', 'events');
+        // The dead session is still handed out until it is released
+        manager.releaseSession.mockImplementation(async () => {
+            manager.getSession.mockImplementation(async () => fresh);
+        });
+        await (editor as any).handleMessage({ command: 'loadRange', offset: 10, limit: 10, requestId: 2 }, panel, 'c1', 'public', 'events');
+
+        expect(manager.releaseSession).toHaveBeenCalledWith('c1', 'dataEditor:c1:public.events');
+        expect(fresh.statements.filter(s => s.startsWith('DECLARE'))).toHaveLength(1);
+        const range = posted.filter(m => m.command === 'rangeData').pop();
+        expect(range.error).toBeUndefined();
+        expect(range.snapshotChanged).toBe(true);
+        expect(range.rows.map((row: any) => row.id)).toEqual([11, 12, 13, 14, 15, 16, 17, 18, 19, 20]);
+        await (editor as any).closeScrollCursor(panel);
+    });
+
+    it('ends the cursor transaction once scrolling stops', async () => {
+        jest.useFakeTimers();
+        try {
+            const session = createSession();
+            const { editor, manager, panel, posted } = createScrollEditor(createMockClient(30), session);
+            (editor as any).initializedPanels.add(panel);
+            await (editor as any).loadTableData(panel, 'c1', 'public', 'events', 0);
+
+            await (editor as any).handleMessage({ command: 'loadRange', offset: 0, limit: 10, requestId: 1 }, panel, 'c1', 'public', 'events');
+            await jest.advanceTimersByTimeAsync(SCROLL_CURSOR_IDLE_MS - 1);
+            expect(manager.releaseSession).not.toHaveBeenCalled();
+            await jest.advanceTimersByTimeAsync(1);
+            expect(manager.releaseSession).toHaveBeenCalledWith('c1', 'dataEditor:c1:public.events');
+
+            await (editor as any).handleMessage({ command: 'loadRange', offset: 10, limit: 10, requestId: 2 }, panel, 'c1', 'public', 'events');
+            expect(session.statements.filter(s => s.startsWith('DECLARE'))).toHaveLength(2);
+            const ranges = posted.filter(m => m.command === 'rangeData');
+            expect(ranges[0].snapshotChanged).toBeUndefined();
+            expect(ranges[1].snapshotChanged).toBe(true);
+            expect(ranges[1].rows).toHaveLength(10);
+            await (editor as any).closeScrollCursor(panel);
+        } finally {
+            jest.useRealTimers();
+        }
+    });
+
+    it('does not read a page the grid would not show', async () => {
+        const client = createMockClient(30);
+        const { editor, panel } = createScrollEditor(client, createSession());
+        await (editor as any).handleMessage({ command: 'setInfiniteScroll', enabled: true }, panel, 'c1', 'public', 'events');
+        const state = (editor as any).getPanelState(panel);
+
+        const payload = await (editor as any).fetchTableState('c1', 'public', 'events', state);
+        expect(client.dataQueries).toHaveLength(0);
+        expect(payload.rows).toEqual([]);
+        expect(payload.totalRows).toBe(30);
+        expect(state.scrollQuery.text).toBe('SELECT * FROM "public"."events" ORDER BY "id" ASC');
+    });
+
+    it('explains that the pool is full when no session is left for the cursor', async () => {
+        const { editor, manager, panel, posted } = createScrollEditor(createMockClient(30), createSession());
+        (editor as any).initializedPanels.add(panel);
+        await (editor as any).loadTableData(panel, 'c1', 'public', 'events', 0);
+        manager.getSession.mockRejectedValue(new Error('All 5 sessions of this connection are in use'));
+        manager.getPoolUsage = jest.fn(() => ({ open: 5, max: 5 }));
+
+        await (editor as any).handleMessage({ command: 'loadRange', offset: 0, limit: 10, requestId: 1 }, panel, 'c1', 'public', 'events');
+        expect(posted.find(m => m.command === 'rangeData').error).toMatch(/Infinite scroll reads rows on a session of its own.*switch this table back to pages/);
+    });
+
+    it('reports a range error instead of rows when the table was never loaded', async () => {
+        const { editor, manager, panel, posted } = createScrollEditor(createMockClient(30), createSession());
+        await (editor as any).handleMessage({ command: 'loadRange', offset: 0, limit: 10, requestId: 7 }, panel, 'c1', 'public', 'events');
+        expect(manager.getSession).not.toHaveBeenCalled();
+        expect(posted[0]).toMatchObject({ command: 'rangeData', requestId: 7, rows: [] });
+        expect(posted[0].error).toMatch(/not loaded/);
+    });
+});
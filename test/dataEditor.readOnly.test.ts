@@ -0,0 +1,120 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { DataEditor } from '../src/dataEditor';
+
+class MockConnectionManager {
+    constructor(private client: any, private readOnly = false) {}
+
+    async getClient(_id: string) {
+        return this.client;
+    }
+
+    async getConnections() {
+        return [{ id: 'c1', name: 'test-conn', database: 'dev-db', readOnly: this.readOnly }];
+    }
+
+    markBusy(_id: string) {
+        // no-op
+    }
+
+    markIdle(_id: string) {
+        // no-op
+    }
+}
+
+function createMockClient(relkind: string, updatable: number) {
+    return {
+        query: jest.fn(async (sql: string) => {
+            if (/pg_relation_is_updatable/.test(sql)) {
+                return { rows: [{ relkind, updatable }] };
+            }
+            if (/SELECT a.attname/.test(sql)) {
+                return {
+                    rows: [{ column_name: 'id', data_type: 'integer', is_nullable: false, typoid: 23, typname: 'int4', typtype: 'b', typelem: 0 }]
+                };
+            }
+            if (/SELECT \* FROM/.test(sql)) {
+                return { rows: [{ id: 1 }], rowCount: 1 };
+            }
+            return { rows: [], rowCount: 0 };
+        })
+    };
+}
+
+function createEditor(client: any, connectionReadOnly = false): DataEditor {
+    const contextStub: any = {
+        subscriptions: [],
+        globalState: { get: jest.fn(() => ({})), update: jest.fn(async () => undefined) }
+    };
+    return new DataEditor(contextStub, new MockConnectionManager(client, connectionReadOnly) as any);
+}
+
+const defaultState = () => ({ page: 0, sort: null, filters: {}, searchTerm: '', customWhereClause: '' });
+
+describe('DataEditor read-only relations', () => {
+    it('treats plain tables as editable', async () => {
+        const editor = createEditor(createMockClient('r', 28));
+        const payload = await (editor as any).fetchTableState('c1', 'public', 'users', defaultState());
+
+        expect(payload.relationKind).toBe('table');
+        expect(payload.readOnly).toBe(false);
+    });
+
+    it('allows editing auto-updatable views', async () => {
+        const editor = createEditor(createMockClient('v', 28));
+        const payload = await (editor as any).fetchTableState('c1', 'public', 'active_users', defaultState());
+
+        expect(payload.relationKind).toBe('view');
+        expect(payload.readOnly).toBe(false);
+    });
+
+    it('opens non-updatable views and materialized views read-only', async () => {
+        const viewPayload = await (createEditor(createMockClient('v', 0)) as any)
+            .fetchTableState('c1', 'public', 'user_totals', defaultState());
+        expect(viewPayload.readOnly).toBe(true);
+
+        const matviewPayload = await (createEditor(createMockClient('m', 0)) as any)
+            .fetchTableState('c1', 'public', 'daily_totals', defaultState());
+        expect(matviewPayload.relationKind).toBe('materializedView');
+        expect(matviewPayload.readOnly).toBe(true);
+    });
+
+    it('rejects changes against read-only relations', async () => {
+        const client = createMockClient('m', 0);
+        const editor = createEditor(client);
+        await (editor as any).fetchTableState('c1', 'public', 'daily_totals', defaultState());
+
+        const panel: any = { webview: { postMessage: jest.fn() } };
+        await (editor as any).executeChanges(panel, 'c1', 'public', 'daily_totals', [{ type: 'delete', where: { id: 1 } }], true, true);
+
+        expect(panel.webview.postMessage).toHaveBeenCalledWith({
+            command: 'executionComplete',
+            success: false,
+            error: 'Materialized view public.daily_totals is read-only'
+        });
+        expect(client.query).not.toHaveBeenCalledWith('BEGIN');
+    });
+
+    it('marks every relation of a read-only connection as not editable', async () => {
+        const payload = await (createEditor(createMockClient('r', 28), true) as any)
+            .fetchTableState('c1', 'public', 'users', defaultState());
+
+        expect(payload.readOnly).toBe(false);
+        expect(payload.connectionReadOnly).toBe(true);
+    });
+
+    it('rejects changes on a read-only connection', async () => {
+        const client = createMockClient('r', 28);
+        const editor = createEditor(client, true);
+        await (editor as any).fetchTableState('c1', 'public', 'users', defaultState());
+
+        const panel: any = { webview: { postMessage: jest.fn() } };
+        await (editor as any).executeChanges(panel, 'c1', 'public', 'users', [{ type: 'delete', where: { id: 1 } }], true, true);
+
+        expect(panel.webview.postMessage).toHaveBeenCalledWith({
+            command: 'executionComplete',
+            success: false,
+            error: 'Connection "test-conn" is read-only; editing rows is disabled.'
+        });
+        expect(client.query).not.toHaveBeenCalledWith('BEGIN');
+    });
+});
@@ -0,0 +1,62 @@
+import { jest } from '@jest/globals';
+import { ExtensionManager } from '../src/extensionManager';
+
+describe('Extension Manager Tests', () => {
+    const createMockConnectionManager = () => ({
+        getClient: jest.fn(),
+        markBusy: jest.fn(),
+        markIdle: jest.fn()
+    });
+
+    let mockConnectionManager: any;
+    let extensionManager: ExtensionManager;
+
+    beforeEach(() => {
+        mockConnectionManager = createMockConnectionManager();
+        extensionManager = new ExtensionManager(mockConnectionManager);
+    });
+
+    it('should map installed and available extensions', async () => {
+        const mockClient = {
+            query: (jest.fn() as any).mockResolvedValueOnce({
+                rows: [
+                    { name: 'pg_trgm', installed_version: '1.5', default_version: '1.6', schema_name: 'public', comment: 'text similarity' },
+                    { name: 'postgis', installed_version: null, default_version: '3.4.2', schema_name: null, comment: 'PostGIS geometry' }
+                ]
+            })
+        };
+        (mockConnectionManager.getClient as any).mockResolvedValueOnce(mockClient as any);
+
+        const extensions = await extensionManager.getExtensions('conn-1');
+
+        expect(extensions).toEqual([
+            { name: 'pg_trgm', installedVersion: '1.5', defaultVersion: '1.6', schemaName: 'public', comment: 'text similarity' },
+            { name: 'postgis', installedVersion: null, defaultVersion: '3.4.2', schemaName: null, comment: 'PostGIS geometry' }
+        ]);
+        expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('pg_available_extensions'), [null]);
+    });
+
+    it('should roll back extension DDL that fails', async () => {
+        const query = (jest.fn() as any)
+            .mockResolvedValueOnce({})
+            .mockRejectedValueOnce(new Error('cannot drop extension pg_trgm because other objects depend on it'))
+            .mockResolvedValueOnce({});
+        (mockConnectionManager.getClient as any).mockResolvedValueOnce({ query } as any);
+
+        await expect(extensionManager.executeExtensionDdl('conn-1', 'DROP EXTENSION "pg_trgm";'))
+            .rejects.toThrow('other objects depend on it');
+
+        expect(query.mock.calls.map((call: any[]) => call[0])).toEqual([
+            'BEGIN',
+            'DROP EXTENSION "pg_trgm";',
+            'ROLLBACK'
+        ]);
+        expect(mockConnectionManager.markIdle).toHaveBeenCalledWith('conn-1');
+    });
+
+    it('should throw when no client is available', async () => {
+        (mockConnectionManager.getClient as any).mockResolvedValueOnce(null);
+
+        await expect(extensionManager.getSchemaNames('conn-1')).rejects.toThrow('Could not connect to database');
+    });
+});
@@ -0,0 +1,56 @@
+import { jest } from '@jest/globals';
+import { FunctionManager } from '../src/functionManager';
+
+describe('Function Manager Tests', () => {
+    const createMockConnectionManager = () => ({
+        getClient: jest.fn(),
+        markBusy: jest.fn(),
+        markIdle: jest.fn()
+    });
+
+    let mockConnectionManager: any;
+    let functionManager: FunctionManager;
+
+    beforeEach(() => {
+        mockConnectionManager = createMockConnectionManager();
+        functionManager = new FunctionManager(mockConnectionManager);
+    });
+
+    it('should return the pg_get_functiondef source', async () => {
+        const mockClient = {
+            query: (jest.fn() as any).mockResolvedValueOnce({ rows: [{ definition: 'CREATE OR REPLACE FUNCTION public.f() ...' }] })
+        };
+        (mockConnectionManager.getClient as any).mockResolvedValueOnce(mockClient as any);
+
+        const definition = await functionManager.getRoutineDefinition('conn-1', 16384);
+
+        expect(definition).toBe('CREATE OR REPLACE FUNCTION public.f() ...');
+        expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('pg_get_functiondef'), [16384]);
+    });
+
+    it('should roll back when the DDL fails', async () => {
+        const query = (jest.fn() as any).mockImplementation(async (sql: string) => {
+            if (sql.startsWith('CREATE')) {
+                throw new Error('syntax error at or near "BEGN"');
+            }
+            return { rows: [] };
+        });
+        (mockConnectionManager.getClient as any).mockResolvedValueOnce({ query } as any);
+
+        await expect(functionManager.executeRoutineDdl('conn-1', 'CREATE OR REPLACE FUNCTION broken()'))
+            .rejects.toThrow('syntax error');
+
+        expect(query.mock.calls.map((call: any[]) => call[0])).toEqual([
+            'BEGIN',
+            'CREATE OR REPLACE FUNCTION broken()',
+            'ROLLBACK'
+        ]);
+        expect(mockConnectionManager.markIdle).toHaveBeenCalledWith('conn-1');
+    });
+
+    it('should throw when no client is available', async () => {
+        (mockConnectionManager.getClient as any).mockResolvedValueOnce(null);
+
+        await expect(functionManager.getRoutineArguments('conn-1', 1)).rejects.toThrow('Could not connect to database');
+    });
+});
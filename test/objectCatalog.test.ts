@@ -0,0 +1,82 @@
+import { jest } from '@jest/globals';
+import { ObjectCatalog } from '../src/objectCatalog';
+
+describe('Object Catalog Tests', () => {
+    const rows = [
+        { schema_name: 'public', name: 'orders', relkind: 'r', oid: null, prokind: null, identity_arguments: null, result_type: null },
+        { schema_name: 'public', name: 'orders_id_seq', relkind: 'S', oid: null, prokind: null, identity_arguments: null, result_type: null },
+        { schema_name: 'reporting', name: 'daily_totals', relkind: 'm', oid: null, prokind: null, identity_arguments: null, result_type: null },
+        { schema_name: 'reporting', name: 'order_total', relkind: null, oid: '16501', prokind: 'f', identity_arguments: 'order_id integer', result_type: 'numeric' }
+    ];
+
+    let mockClient: any;
+    let mockConnectionManager: any;
+    let catalog: ObjectCatalog;
+
+    beforeEach(() => {
+        mockClient = { query: (jest.fn() as any).mockResolvedValue({ rows }) };
+        mockConnectionManager = {
+            getConnections: (jest.fn() as any).mockResolvedValue([
+                { id: 'conn-1', name: 'Local', database: 'shop' },
+                { id: 'conn-2', name: 'Staging', database: 'shop' }
+            ]),
+            getConnectionStatus: jest.fn((id: string) => id === 'conn-1' ? 'connected' : 'disconnected'),
+            getClient: (jest.fn() as any).mockResolvedValue(mockClient),
+            markBusy: jest.fn(),
+            markIdle: jest.fn()
+        };
+        catalog = new ObjectCatalog(mockConnectionManager);
+    });
+
+    it('should list objects of connected databases only', async () => {
+        const objects = await catalog.getObjects();
+
+        expect(objects.map(object => [object.connectionName, object.schemaName, object.name, object.kind])).toEqual([
+            ['Local', 'public', 'orders', 'table'],
+            ['Local', 'public', 'orders_id_seq', 'sequence'],
+            ['Local', 'reporting', 'daily_totals', 'materializedView'],
+            ['Local', 'reporting', 'order_total', 'function']
+        ]);
+        expect(objects[3].routine).toEqual({
+            oid: 16501,
+            schemaName: 'reporting',
+            name: 'order_total',
+            kind: 'function',
+            identityArguments: 'order_id integer',
+            resultType: 'numeric'
+        });
+        expect(mockConnectionManager.getClient).toHaveBeenCalledTimes(1);
+        expect(mockConnectionManager.getClient).toHaveBeenCalledWith('conn-1');
+    });
+
+
+    it('should record the parent table of partitions', async () => {
+        mockClient.query.mockResolvedValueOnce({
+            rows: [
+                { schema_name: 'public', name: 'events_2024', relkind: 'r', oid: null, prokind: null, identity_arguments: null, result_type: null, parent_schema: 'public', parent_name: 'events' }
+            ]
+        });
+
+        const [partition] = await catalog.getObjects();
+
+        expect(partition.kind).toBe('table');
+        expect(partition.partitionParent).toEqual({ schemaName: 'public', tableName: 'events' });
+    });
+
+    it('should reuse cached objects until invalidated', async () => {
+        await catalog.getObjects();
+        await catalog.getObjects();
+        expect(mockClient.query).toHaveBeenCalledTimes(1);
+
+        catalog.invalidate('conn-1');
+        await catalog.getObjects();
+        expect(mockClient.query).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip connections whose catalog fails to load', async () => {
+        mockClient.query.mockRejectedValueOnce(new Error('permission denied'));
+
+        await expect(catalog.getObjects()).resolves.toEqual([]);
+        expect(mockConnectionManager.markIdle).toHaveBeenCalledWith('conn-1');
+    });
+});
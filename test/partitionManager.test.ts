@@ -0,0 +1,57 @@
+import { jest } from '@jest/globals';
+import { PartitionManager } from '../src/partitionManager';
+
+describe('Partition Manager Tests', () => {
+    const createMockConnectionManager = () => ({
+        getClient: jest.fn(),
+        markBusy: jest.fn(),
+        markIdle: jest.fn()
+    });
+
+    let mockConnectionManager: any;
+    let partitionManager: PartitionManager;
+
+    beforeEach(() => {
+        mockConnectionManager = createMockConnectionManager();
+        partitionManager = new PartitionManager(mockConnectionManager);
+    });
+
+    it('should parse the strategy from the partition key definition', async () => {
+        const mockClient = {
+            query: (jest.fn() as any).mockResolvedValueOnce({ rows: [{ definition: 'RANGE (created_at)' }] })
+        };
+        (mockConnectionManager.getClient as any).mockResolvedValueOnce(mockClient as any);
+
+        const key = await partitionManager.getPartitionKey('conn-1', 'public', 'events');
+
+        expect(key).toEqual({ strategy: 'RANGE', definition: 'RANGE (created_at)' });
+        expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('pg_get_partkeydef'), ['public', 'events']);
+    });
+
+    it('should return null for tables that are not partitioned', async () => {
+        const mockClient = { query: (jest.fn() as any).mockResolvedValueOnce({ rows: [] }) };
+        (mockConnectionManager.getClient as any).mockResolvedValueOnce(mockClient as any);
+
+        await expect(partitionManager.getPartitionKey('conn-1', 'public', 'orders')).resolves.toBeNull();
+    });
+
+    it('should roll back partition DDL that fails', async () => {
+        const query = (jest.fn() as any)
+            .mockResolvedValueOnce({})
+            .mockRejectedValueOnce(new Error('partition constraint of relation "events_2024" is violated by some row'))
+            .mockResolvedValueOnce({});
+        (mockConnectionManager.getClient as any).mockResolvedValueOnce({ query } as any);
+
+        const sql = 'ALTER TABLE "public"."events" ATTACH PARTITION "public"."events_2024" FOR VALUES FROM (\'2024-01-01\') TO (\'2025-01-01\');';
+        await expect(partitionManager.executePartitionDdl('conn-1', sql)).rejects.toThrow('is violated by some row');
+
+        expect(query.mock.calls.map((call: any[]) => call[0])).toEqual(['BEGIN', sql, 'ROLLBACK']);
+        expect(mockConnectionManager.markIdle).toHaveBeenCalledWith('conn-1');
+    });
+
+    it('should throw when no client is available', async () => {
+        (mockConnectionManager.getClient as any).mockResolvedValueOnce(null);
+
+        await expect(partitionManager.getAttachCandidates('conn-1', 'public', 'events')).rejects.toThrow('Could not connect to database');
+    });
+});
@@ -0,0 +1,59 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { isTokenValid, parsePasswordCommandOutput, runPasswordCommand } from '../src/passwordCommand';
+
+describe('Password command', () => {
+    const now = Date.parse('2026-05-01T12:00:00Z');
+    const target = { host: 'db.internal', port: 5433, database: 'orders', username: 'alice' };
+    let dir: string;
+
+    beforeAll(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pg-password-command-'));
+    });
+
+    afterAll(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    // A node script standing in for a token CLI
+    const script = (name: string, source: string) => {
+        const file = path.join(dir, name);
+        fs.writeFileSync(file, source);
+        return `"${process.execPath}" "${file}"`;
+    };
+
+    test('treats plain output as the password for the default lifetime', () => {
+        expect(parsePasswordCommandOutput('s3cret\n', now)).toEqual({ value: 's3cret', expiresAt: now + 600_000 });
+        expect(parsePasswordCommandOutput('s3cret', now, 60).expiresAt).toBe(now + 60_000);
+    });
+
+    test('reads the token and expiry from JSON output', () => {
+        expect(parsePasswordCommandOutput('{"token":"t1","expiresAt":"2026-05-01T12:15:00Z"}', now))
+            .toEqual({ value: 't1', expiresAt: Date.parse('2026-05-01T12:15:00Z') });
+        expect(parsePasswordCommandOutput(`{"accessToken":"t2","expiresAt":${now / 1000 + 3600}}`, now).expiresAt).toBe(now + 3_600_000);
+        expect(parsePasswordCommandOutput('{"password":"t3","expiresIn":900}', now).expiresAt).toBe(now + 900_000);
+    });
+
+    test('rejects empty output and JSON without a token', () => {
+        expect(() => parsePasswordCommandOutput('  \n', now)).toThrow('printed nothing');
+        expect(() => parsePasswordCommandOutput('{"expiresIn":60}', now)).toThrow('no "password", "token" or "accessToken"');
+        expect(() => parsePasswordCommandOutput('{oops', now)).toThrow('invalid JSON');
+    });
+
+    test('refreshes tokens shortly before they expire', () => {
+        expect(isTokenValid(undefined, now)).toBe(false);
+        expect(isTokenValid({ value: 't', expiresAt: now + 60_000 }, now)).toBe(true);
+        expect(isTokenValid({ value: 't', expiresAt: now + 10_000 }, now)).toBe(false);
+    });
+
+    test('runs the command with the connection in PG* variables', async () => {
+        const command = script('env.js', 'const e = process.env; console.log([e.PGHOST, e.PGPORT, e.PGDATABASE, e.PGUSER].join(" "));');
+        expect((await runPasswordCommand(command, target)).trim()).toBe('db.internal 5433 orders alice');
+    });
+
+    test('reports stderr when the command fails', async () => {
+        const command = script('fail.js', 'console.error("token expired, run login first"); process.exit(3);');
+        await expect(runPasswordCommand(command, target)).rejects.toThrow('Password command failed: token expired, run login first');
+    });
+});
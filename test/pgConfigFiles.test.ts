@@ -0,0 +1,74 @@
+import {
+    PgConfigEnvironment,
+    findPgpassPassword,
+    parsePgServiceFile,
+    parsePgpass,
+    readPgEnvironment,
+    readPgServices,
+    resolveServiceConnection
+} from '../src/pgConfigFiles';
+
+describe('libpq Config Files Tests', () => {
+    const makeEnvironment = (files: Record<string, string>, env: NodeJS.ProcessEnv = {}): PgConfigEnvironment => ({
+        env,
+        platform: 'linux',
+        homedir: '/home/dev',
+        readFile: (filePath) => files[filePath]
+    });
+
+    test('parses pgpass lines with escapes and skips comments and malformed lines', () => {
+        const entries = parsePgpass([
+            '# local databases',
+            'localhost:5432:app:dev:s3cret',
+            'db\\:1.example.com:*:*:report:pa\\:ss\\\\word',
+            'missing:fields',
+            ''
+        ].join('\n'));
+        expect(entries).toEqual([
+            { host: 'localhost', port: '5432', database: 'app', username: 'dev', password: 's3cret' },
+            { host: 'db:1.example.com', port: '*', database: '*', username: 'report', password: 'pa:ss\\word' }
+        ]);
+    });
+
+    test('matches pgpass entries in file order with wildcards', () => {
+        const entries = parsePgpass('prod:5432:app:admin:first\n*:*:*:admin:fallback\n');
+        expect(findPgpassPassword(entries, { host: 'prod', port: 5432, database: 'app', username: 'admin' })).toBe('first');
+        expect(findPgpassPassword(entries, { host: 'staging', port: 6432, database: 'app', username: 'admin' })).toBe('fallback');
+        expect(findPgpassPassword(entries, { host: 'prod', port: 5432, database: 'app', username: 'other' })).toBeUndefined();
+    });
+
+    test('parses service file sections', () => {
+        const services = parsePgServiceFile('# comment\n[billing]\nhost=db.internal\n port = 6432 \ndbname=billing\n\n[empty]\n');
+        expect(services.get('billing')).toEqual({ host: 'db.internal', port: '6432', dbname: 'billing' });
+        expect(services.get('empty')).toEqual({});
+    });
+
+    test('prefers the user service file over the system one', () => {
+        const environment = makeEnvironment({
+            '/home/dev/.pg_service.conf': '[app]\nhost=user-host\n',
+            '/etc/postgresql-common/pg_service.conf': '[app]\nhost=system-host\n[shared]\nhost=shared-host\n'
+        }, { PGSYSCONFDIR: '/etc/postgresql-common' });
+        const services = readPgServices(environment);
+        expect(services.get('app')?.host).toBe('user-host');
+        expect(services.get('shared')?.host).toBe('shared-host');
+    });
+
+    test('reads PG* variables only when a connection variable is set', () => {
+        expect(readPgEnvironment({ PGPASSWORD: 'x' })).toBeUndefined();
+        expect(readPgEnvironment({ PGHOST: 'db', PGUSER: 'dev', PGSSLMODE: 'require' })).toEqual({ host: 'db', user: 'dev', sslmode: 'require' });
+    });
+
+    test('resolves a service connection from the current file contents', () => {
+        const environment = makeEnvironment({
+            '/home/dev/.pg_service.conf': '[billing]\nhost=db2.internal\nport=6432\ndbname=billing\nuser=billing_app\nsslmode=verify-full\n',
+            '/home/dev/.pgpass': 'db2.internal:6432:billing:billing_app:from-pgpass\n'
+        });
+        const saved = { id: 'c1', name: 'billing', host: 'db1.internal', port: 5432, database: 'billing', username: 'billing_app', service: 'billing' };
+
+        const { config, password } = resolveServiceConnection(saved, environment);
+        expect(config).toMatchObject({ id: 'c1', host: 'db2.internal', port: 6432, sslMode: 'verify-full', ssl: true });
+        expect(password).toBe('from-pgpass');
+
+        expect(() => resolveServiceConnection({ ...saved, service: 'gone' }, environment)).toThrow(/Service "gone" was not found/);
+    });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import * as vscode from 'vscode';
+import { readOnlyError } from '../src/connectionManager';
+import { CreateTableWizard } from '../src/createTableWizard';
+import { EnumEditor } from '../src/enumEditor';
+import { ExtensionEditor } from '../src/extensionEditor';
+import { PartitionEditor } from '../src/partitionEditor';
+import { SequenceEditor } from '../src/sequenceEditor';
+
+const connectionManager: any = {
+    getReadOnlyError: async (_id: string, action: string) => readOnlyError({ name: 'prod', readOnly: true }, action)
+};
+
+// Any call into a manager means the editor went on to read or change the database
+const untouchedManager = () => new Proxy({}, {
+    get: (_target, name) => () => {
+        throw new Error(`${String(name)} should not be called on a read-only connection`);
+    }
+}) as any;
+
+describe('mutating editors on a read-only connection', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('stop before prompting for or sending any DDL', async () => {
+        const showError = jest.spyOn(vscode.window, 'showErrorMessage');
+        const refresh = jest.fn();
+
+        await new SequenceEditor(untouchedManager(), connectionManager, refresh)
+            .setValue({ type: 'sequence', connectionId: 'c1', sequence: { schemaName: 'public', name: 'users_id_seq' } } as any);
+        await new EnumEditor(untouchedManager(), connectionManager, untouchedManager(), refresh)
+            .addValue({ type: 'type', connectionId: 'c1', userType: { kind: 'enum', schemaName: 'public', name: 'mood' } } as any);
+        await new ExtensionEditor(untouchedManager(), connectionManager, refresh)
+            .install({ type: 'extension', connectionId: 'c1', extension: { name: 'pgcrypto' } } as any);
+        await new PartitionEditor(untouchedManager(), connectionManager, refresh)
+            .createPartition({ type: 'table', connectionId: 'c1', schemaName: 'public', tableName: 'events' } as any);
+
+        expect(showError.mock.calls.map(call => call[0])).toEqual([
+            'Connection "prod" is read-only; changing sequences is disabled.',
+            'Connection "prod" is read-only; changing enum types is disabled.',
+            'Connection "prod" is read-only; changing extensions is disabled.',
+            'Connection "prod" is read-only; changing partitions is disabled.'
+        ]);
+        expect(refresh).not.toHaveBeenCalled();
+    });
+
+    it('does not open the Create Table wizard', async () => {
+        const showError = jest.spyOn(vscode.window, 'showErrorMessage');
+
+        // The vscode mock has no createWebviewPanel, so opening the panel would throw
+        await new CreateTableWizard({} as any, connectionManager, () => {})
+            .openWizard({ type: 'schema', connectionId: 'c1', schemaName: 'public' } as any);
+
+        expect(showError.mock.calls.map(call => call[0])).toEqual(['Connection "prod" is read-only; creating tables is disabled.']);
+    });
+});
@@ -0,0 +1,82 @@
+import {
+    RoutineInfo,
+    buildDropRoutineSql,
+    buildRoutineInvocationSql,
+    buildRoutineReplacement,
+    routineKindFromProkind
+} from '../src/routineSqlBuilder';
+
+const routine = (overrides: Partial<RoutineInfo> = {}): RoutineInfo => ({
+    oid: 16384,
+    schemaName: 'public',
+    name: 'add_points',
+    kind: 'function',
+    identityArguments: 'user_id integer, points integer',
+    resultType: 'integer',
+    ...overrides
+});
+
+const ORIGINAL = `CREATE OR REPLACE FUNCTION public.add_points(user_id integer, points integer)
+ RETURNS integer
+ LANGUAGE sql
+AS $function$ SELECT points $function$
+`;
+
+describe('routineSqlBuilder', () => {
+    test('routineKindFromProkind maps pg_proc.prokind', () => {
+        expect(routineKindFromProkind('f')).toBe('function');
+        expect(routineKindFromProkind('p')).toBe('procedure');
+        expect(routineKindFromProkind('a')).toBe('aggregate');
+        expect(routineKindFromProkind('w')).toBe('window');
+    });
+
+    test('buildDropRoutineSql uses the routine kind and identity arguments', () => {
+        expect(buildDropRoutineSql(routine())).toBe('DROP FUNCTION "public"."add_points"(user_id integer, points integer);');
+        expect(buildDropRoutineSql(routine({ kind: 'procedure', name: 'archive', identityArguments: '' }), true))
+            .toBe('DROP PROCEDURE "public"."archive"() CASCADE;');
+        expect(buildDropRoutineSql(routine({ kind: 'aggregate', name: 'my_sum', identityArguments: 'numeric' })))
+            .toBe('DROP AGGREGATE "public"."my_sum"(numeric);');
+    });
+
+    test('buildRoutineInvocationSql scripts functions as SELECT and skips OUT arguments', () => {
+        const sql = buildRoutineInvocationSql(routine(), [
+            { name: 'user_id', type: 'integer', mode: 'i' },
+            { name: 'points', type: 'integer', mode: 'i' },
+            { name: 'total', type: 'integer', mode: 'o' }
+        ]);
+        expect(sql).toBe('SELECT * FROM "public"."add_points"(\n    NULL::integer /* user_id */,\n    NULL::integer /* points */\n);');
+    });
+
+    test('buildRoutineInvocationSql scripts procedures as CALL including OUT placeholders', () => {
+        const sql = buildRoutineInvocationSql(routine({ kind: 'procedure', name: 'archive' }), [
+            { name: 'cutoff', type: 'date', mode: 'i' },
+            { name: 'archived', type: 'bigint', mode: 'o' }
+        ]);
+        expect(sql).toBe('CALL "public"."archive"(\n    NULL::date /* cutoff */,\n    NULL::bigint /* archived */\n);');
+        expect(buildRoutineInvocationSql(routine({ kind: 'procedure', name: 'vacuum_all' }), [])).toBe('CALL "public"."vacuum_all"();');
+    });
+
+    test('buildRoutineReplacement keeps CREATE OR REPLACE source as-is without warnings', () => {
+        const edited = ORIGINAL.replace('SELECT points', 'SELECT points * 2');
+        const result = buildRoutineReplacement(edited, ORIGINAL);
+        expect(result.sql).toBe(edited.trim());
+        expect(result.warnings).toEqual([]);
+    });
+
+    test('buildRoutineReplacement adds OR REPLACE and warns about new overloads', () => {
+        const edited = ORIGINAL
+            .replace('CREATE OR REPLACE FUNCTION', 'create function')
+            .replace('points integer)', 'points bigint)');
+        const result = buildRoutineReplacement(edited, ORIGINAL);
+        expect(result.sql.startsWith('CREATE OR REPLACE FUNCTION public.add_points(')).toBe(true);
+        expect(result.warnings).toEqual([
+            'The argument list changed, so this creates a new overload instead of replacing the original routine.'
+        ]);
+    });
+
+    test('buildRoutineReplacement rejects anything that is not a routine definition', () => {
+        expect(() => buildRoutineReplacement('   ', ORIGINAL)).toThrow('Routine source cannot be empty');
+        expect(() => buildRoutineReplacement('DROP TABLE users;', ORIGINAL))
+            .toThrow('Routine source must start with CREATE FUNCTION or CREATE PROCEDURE');
+    });
+});
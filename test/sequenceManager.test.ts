@@ -0,0 +1,87 @@
+import { jest } from '@jest/globals';
+import { SequenceManager } from '../src/sequenceManager';
+
+describe('Sequence Manager Tests', () => {
+    const createMockConnectionManager = () => ({
+        getClient: jest.fn(),
+        markBusy: jest.fn(),
+        markIdle: jest.fn()
+    });
+
+    let mockConnectionManager: any;
+    let sequenceManager: SequenceManager;
+
+    beforeEach(() => {
+        mockConnectionManager = createMockConnectionManager();
+        sequenceManager = new SequenceManager(mockConnectionManager);
+    });
+
+    describe('getSequences', () => {
+        it('should map sequence values and owning columns', async () => {
+            const mockClient = {
+                query: (jest.fn() as any).mockResolvedValueOnce({
+                    rows: [
+                        {
+                            sequencename: 'users_id_seq',
+                            data_type: 'integer',
+                            last_value: '118',
+                            start_value: '1',
+                            increment_by: '1',
+                            min_value: '1',
+                            max_value: '2147483647',
+                            cycle: false,
+                            owner_schema: 'public',
+                            owner_table: 'users',
+                            owner_column: 'id'
+                        },
+                        {
+                            sequencename: 'invoice_numbers',
+                            data_type: 'bigint',
+                            last_value: null,
+                            start_value: '1000',
+                            increment_by: '10',
+                            min_value: '1',
+                            max_value: '9223372036854775807',
+                            cycle: true,
+                            owner_schema: null,
+                            owner_table: null,
+                            owner_column: null
+                        }
+                    ]
+                })
+            };
+            (mockConnectionManager.getClient as any).mockResolvedValueOnce(mockClient as any);
+
+            const sequences = await sequenceManager.getSequences('conn-1', 'public');
+
+            expect(sequences).toHaveLength(2);
+            expect(sequences[0].lastValue).toBe('118');
+            expect(sequences[0].ownedBy).toEqual({ schemaName: 'public', tableName: 'users', columnName: 'id' });
+            expect(sequences[1].lastValue).toBeNull();
+            expect(sequences[1].maxValue).toBe('9223372036854775807');
+            expect(sequences[1].cycle).toBe(true);
+            expect(sequences[1].ownedBy).toBeNull();
+            expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('pg_sequences'), ['public', null]);
+        });
+
+        it('should throw when no client is available', async () => {
+            (mockConnectionManager.getClient as any).mockResolvedValueOnce(null);
+
+            await expect(sequenceManager.getSequences('conn-1', 'public')).rejects.toThrow('Could not connect to database');
+        });
+    });
+
+    describe('getOwningColumnRange', () => {
+        it('should query MAX and MIN of the quoted owning column', async () => {
+            const mockClient = {
+                query: (jest.fn() as any).mockResolvedValueOnce({ rows: [{ max_value: '250', min_value: '1' }] })
+            };
+            (mockConnectionManager.getClient as any).mockResolvedValueOnce(mockClient as any);
+
+            const range = await sequenceManager.getOwningColumnRange('conn-1', { schemaName: 'public', tableName: 'users', columnName: 'id' });
+
+            expect(range).toEqual({ max: '250', min: '1' });
+            expect(mockClient.query).toHaveBeenCalledWith('SELECT MAX("id")::text AS max_value, MIN("id")::text AS min_value FROM "public"."users"');
+        });
+    });
+});
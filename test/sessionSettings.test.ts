@@ -0,0 +1,63 @@
+import { buildStartupOptions, normalizeSessionSettings } from '../src/sessionSettings';
+import { buildSessionSettingRows } from '../src/connectionDetailsView';
+
+describe('Session settings', () => {
+    test('trims values and drops blank ones', () => {
+        expect(normalizeSessionSettings({ statementTimeout: ' 30s ', role: '', searchPath: 'sales, public', applicationName: '  ' }))
+            .toEqual({ statementTimeout: '30s', searchPath: 'sales, public' });
+        expect(normalizeSessionSettings({ lockTimeout: '', role: undefined })).toBeUndefined();
+    });
+
+    test('accepts milliseconds and PostgreSQL duration units', () => {
+        for (const value of ['0', '500', '250ms', '30s', '5min', '2 h', '1d']) {
+            expect(normalizeSessionSettings({ statementTimeout: value })).toEqual({ statementTimeout: value });
+        }
+    });
+
+    test('rejects timeouts that are not durations', () => {
+        expect(() => normalizeSessionSettings({ statementTimeout: 'forever' })).toThrow('Statement timeout must be');
+        expect(() => normalizeSessionSettings({ lockTimeout: '-1' })).toThrow('Lock timeout must be');
+        expect(() => normalizeSessionSettings({ idleInTransactionSessionTimeout: '5 minutes' })).toThrow('Idle in transaction timeout must be');
+    });
+
+    test('builds no startup options without settings', () => {
+        expect(buildStartupOptions(undefined)).toBeUndefined();
+        expect(buildStartupOptions({ applicationName: 'reports' })).toBeUndefined();
+    });
+
+    test('builds -c options and escapes spaces and backslashes', () => {
+        expect(buildStartupOptions({
+            statementTimeout: '30s',
+            lockTimeout: '5s',
+            idleInTransactionSessionTimeout: '10min',
+            role: 'reporting',
+            searchPath: '"$user", public',
+            applicationName: 'reports'
+        }, true)).toBe(
+            '-c default_transaction_read_only=on -c statement_timeout=30s -c lock_timeout=5s'
+            + ' -c idle_in_transaction_session_timeout=10min -c role=reporting -c search_path="$user",\\ public'
+        );
+        expect(buildStartupOptions({ role: 'odd\\name' })).toBe('-c role=odd\\\\name');
+    });
+
+    test('pairs configured and effective values for the details view', () => {
+        const rows = buildSessionSettingRows(
+            { sessionSettings: { statementTimeout: '30000' }, readOnly: true },
+            {
+                statement_timeout: '30s',
+                lock_timeout: '0',
+                idle_in_transaction_session_timeout: '0',
+                current_user: 'app',
+                search_path: '"$user", public',
+                application_name: 'PostgreSQL Data Editor',
+                default_transaction_read_only: 'on'
+            }
+        );
+        const byParameter = Object.fromEntries(rows.map(row => [row.parameter, row]));
+        expect(byParameter.statement_timeout).toMatchObject({ configured: '30000', effective: '30s' });
+        expect(byParameter.lock_timeout.configured).toBeUndefined();
+        expect(byParameter.role).toMatchObject({ configured: undefined, effective: 'app' });
+        expect(byParameter.application_name.configured).toBe('PostgreSQL Data Editor');
+        expect(byParameter.default_transaction_read_only).toMatchObject({ configured: 'on', effective: 'on' });
+    });
+});
@@ -16,6 +16,13 @@ class MockConnectionManager {
             }
         } as any;
     }
+    async getSession(id: string, _owner: string) {
+        return this.getClient(id);
+    }
+    setSessionSetup(_id?: string, _owner?: string, _statements?: string[]) {}
+    async releaseSession() {}
+    markBusy() {}
+    markIdle() {}
 }
 
 // Minimal mock of extension context
@@ -129,4 +136,68 @@ describe('SqlTerminal integration', () => {
         expect(queries).toContain('select 3');
         expect(queries).toContain('select 4');
     });
+
+    it('refuses to switch a read-only connection back to read-write', async () => {
+        class ReadOnlyConnectionManager extends MockConnectionManager {
+            async getConnections() {
+                return [{ id: 'c1', name: 'prod', host: 'localhost', port: 5432, database: 'db', username: 'user', readOnly: true }];
+            }
+        }
+        const readOnlyProvider = new SqlTerminalProvider(ctx as any, new ReadOnlyConnectionManager() as any, queryHistory as any);
+
+        const blocked = await readOnlyProvider.executeSqlSilent('c1', 'db', 'public', 'SET default_transaction_read_only = off', 'file:///q.sql');
+        expect(blocked.error).toBe('Connection "prod" is read-only; switching the session to read-write is disabled.');
+
+        const allowed = await readOnlyProvider.executeSqlSilent('c1', 'db', 'public', 'select 1', 'file:///q.sql');
+        expect(allowed.error).toBeUndefined();
+
+        const switches = [
+            '/* reopen */ SET SESSION default_transaction_read_only = off',
+            'select 1; set transaction_read_only to off',
+            'BEGIN ISOLATION LEVEL SERIALIZABLE, READ WRITE',
+            'start transaction read write',
+            'SET SESSION CHARACTERISTICS AS TRANSACTION READ WRITE',
+            "SELECT set_config('default_transaction_read_only', 'off', false)"
+        ];
+        for (const sql of switches) {
+            expect((await readOnlyProvider.executeSqlSilent('c1', 'db', 'public', sql, 'file:///q.sql')).error).toBeDefined();
+        }
+
+        const reads = [
+            "SELECT 'read write'",
+            '-- mind transaction_read_only\nselect 1',
+            "SELECT * FROM notes WHERE body = 'SET transaction_read_only = off; BEGIN READ WRITE'",
+            'SELECT $$; begin read write$$ AS text',
+            "SELECT E'it\\'s; start transaction read write'",
+            'SHOW transaction_read_only',
+            'BEGIN READ ONLY'
+        ];
+        for (const sql of reads) {
+            expect((await readOnlyProvider.executeSqlSilent('c1', 'db', 'public', sql, 'file:///q.sql')).error).toBeUndefined();
+        }
+    });
+
+    it('restores the search_path the user set, not the initial schema, after a reconnect', async () => {
+        const setups: string[][] = [];
+        class SearchPathConnectionManager extends MockConnectionManager {
+            async getSession() {
+                return {
+                    query: async (sql: string) => /current_setting/.test(sql)
+                        ? { command: 'SELECT', rows: [{ search_path: '"it\'s", public' }], rowCount: 1 }
+                        : { command: 'SET', rows: [], rowCount: null }
+                } as any;
+            }
+            setSessionSetup(_id: string, _owner: string, statements: string[]) {
+                setups.push(statements);
+            }
+        }
+        const searchPathProvider = new SqlTerminalProvider(ctx as any, new SearchPathConnectionManager() as any, queryHistory as any);
+        const writeEmitter = new vscode.EventEmitter<string>();
+
+        await (searchPathProvider as any).executeQuery(writeEmitter, 'c1', 'test', 'db', 'public', 'select 1;', 'terminal:1');
+        expect(setups).toEqual([]);
+
+        await (searchPathProvider as any).executeQuery(writeEmitter, 'c1', 'test', 'db', 'public', 'SET search_path TO "it\'s", public;', 'terminal:1');
+        expect(setups).toEqual([[`SELECT pg_catalog.set_config('search_path', '"it''s", public', false)`]]);
+    });
 });
@@ -0,0 +1,114 @@
+/**
+ * @jest-environment node
+ */
+
+import * as net from 'net';
+import * as os from 'os';
+import ssh2 from 'ssh2';
+import { buildSshAuth, openSshTunnel, SshTunnelConfig } from '../src/sshTunnel';
+
+const { Server, utils } = ssh2;
+
+describe('SSH Tunnel Tests', () => {
+    describe('buildSshAuth', () => {
+        const keyConfig: SshTunnelConfig = { host: 'bastion', port: 22, username: 'deploy', authMethod: 'privateKey', privateKeyPath: '~/.ssh/id_ed25519' };
+
+        test('reads the private key with ~ expanded and passes the passphrase', () => {
+            const read: string[] = [];
+            const auth = buildSshAuth(keyConfig, 'secret', (path) => { read.push(path); return 'KEY'; });
+            expect(read).toEqual([`${os.homedir()}/.ssh/id_ed25519`]);
+            expect(auth).toEqual({ privateKey: 'KEY', passphrase: 'secret' });
+        });
+
+        test('requires a key file for the privateKey method', () => {
+            expect(() => buildSshAuth({ ...keyConfig, privateKeyPath: undefined })).toThrow('SSH tunnel needs a private key file');
+        });
+
+        test('uses the agent socket from the environment', () => {
+            const agentConfig: SshTunnelConfig = { ...keyConfig, authMethod: 'agent' };
+            expect(buildSshAuth(agentConfig, undefined, undefined, { SSH_AUTH_SOCK: '/tmp/agent.sock' }, 'linux')).toEqual({ agent: '/tmp/agent.sock' });
+            expect(buildSshAuth(agentConfig, undefined, undefined, {}, 'win32')).toEqual({ agent: '\\\\.\\pipe\\openssh-ssh-agent' });
+            expect(() => buildSshAuth(agentConfig, undefined, undefined, {}, 'linux')).toThrow(/No SSH agent/);
+        });
+    });
+
+    describe('openSshTunnel against a local SSH server', () => {
+        const hostKey = utils.generateKeyPairSync('ed25519');
+        const clientKey = utils.generateKeyPairSync('ed25519', { passphrase: 'hunter2', cipher: 'aes256-ctr', rounds: 4 });
+        const strangerKey = utils.generateKeyPairSync('ed25519');
+        const allowed = utils.parseKey(clientKey.public);
+
+        let sshServer: ssh2.Server;
+        let echoServer: net.Server;
+        let sshPort: number;
+        let echoPort: number;
+
+        const listen = (server: net.Server | ssh2.Server) => new Promise<number>((resolve) => {
+            server.listen(0, '127.0.0.1', () => resolve((server.address() as net.AddressInfo).port));
+        });
+
+        const roundTrip = (port: number, message: string) => new Promise<string>((resolve, reject) => {
+            const socket = net.connect(port, '127.0.0.1', () => socket.write(message));
+            socket.once('data', (data) => { resolve(data.toString()); socket.end(); });
+            socket.once('error', reject);
+        });
+
+        beforeAll(async () => {
+            echoServer = net.createServer((socket) => socket.pipe(socket));
+            echoPort = await listen(echoServer);
+
+            sshServer = new Server({ hostKeys: [hostKey.private] }, (client) => {
+                client.on('authentication', (ctx) => {
+                    if (allowed instanceof Error || ctx.method !== 'publickey'
+                        || ctx.key.algo !== allowed.type || !ctx.key.data.equals(allowed.getPublicSSH())) {
+                        return ctx.reject(['publickey']);
+                    }
+                    if (ctx.signature && ctx.blob && allowed.verify(ctx.blob, ctx.signature, ctx.hashAlgo) !== true) {
+                        return ctx.reject(['publickey']);
+                    }
+                    ctx.accept();
+                });
+                client.on('ready', () => {
+                    client.on('tcpip', (accept, reject, info) => {
+                        const upstream = net.connect(info.destPort, info.destIP, () => {
+                            const channel = accept();
+                            channel.pipe(upstream).pipe(channel);
+                        });
+                        upstream.on('error', () => reject());
+                    });
+                });
+                client.on('error', () => undefined);
+            });
+            sshPort = await listen(sshServer);
+        });
+
+        afterAll(async () => {
+            await new Promise<void>((resolve) => sshServer.close(() => resolve()));
+            await new Promise<void>((resolve) => echoServer.close(() => resolve()));
+        });
+
+        const settings = (): SshTunnelConfig => ({ host: '127.0.0.1', port: sshPort, username: 'deploy', authMethod: 'privateKey', privateKeyPath: '/keys/id_ed25519' });
+
+        test('forwards traffic to the target through the bastion', async () => {
+            const tunnel = await openSshTunnel(settings(), { host: '127.0.0.1', port: echoPort }, 'hunter2', () => clientKey.private);
+            try {
+                expect(tunnel.localHost).toBe('127.0.0.1');
+                expect(tunnel.localPort).not.toBe(echoPort);
+                await expect(roundTrip(tunnel.localPort, 'ping')).resolves.toBe('ping');
+            } finally {
+                await tunnel.close();
+            }
+        });
+
+        test('stops listening once closed', async () => {
+            const tunnel = await openSshTunnel(settings(), { host: '127.0.0.1', port: echoPort }, 'hunter2', () => clientKey.private);
+            await tunnel.close();
+            await expect(roundTrip(tunnel.localPort, 'ping')).rejects.toThrow(/ECONNREFUSED/);
+        });
+
+        test('rejects when the bastion refuses the key', async () => {
+            await expect(openSshTunnel(settings(), { host: '127.0.0.1', port: echoPort }, undefined, () => strangerKey.private))
+                .rejects.toThrow(/authentication methods failed/);
+        });
+    });
+});
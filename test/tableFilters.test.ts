@@ -0,0 +1,108 @@
+import { buildFilterConditions, filterParameterType, filterTypeCategory, normalizeFilters, operatorsForColumn } from '../src/tableFilters';
+import { quoteLiteral } from '../src/tableSqlBuilder';
+import type { ColumnFilter, ColumnInfo } from '../src/types';
+
+const columns: ColumnInfo[] = [
+    { name: 'amount', type: 'numeric(10,2)', nullable: true },
+    { name: 'created_at', type: 'timestamp with time zone', nullable: false },
+    { name: 'code', type: 'character varying(3)', nullable: true },
+    { name: 'status', type: 'order_status', nullable: false, enumValues: ['new', 'paid', 'shipped'] },
+    { name: 'active', type: 'boolean', nullable: true },
+    { name: 'tags', type: 'text[]', nullable: true }
+];
+
+// Collects values the way buildWhereClause does, returning $n placeholders
+function build(filters: ColumnFilter[]) {
+    const values: string[] = [];
+    const conditions = buildFilterConditions(filters, columns, value => {
+        values.push(value);
+        return `$${values.length}`;
+    });
+    return { conditions, values };
+}
+
+describe('filterTypeCategory', () => {
+    test('groups column types by the operators they offer', () => {
+        expect(columns.map(filterTypeCategory)).toEqual(['number', 'temporal', 'text', 'enum', 'boolean', 'other']);
+        expect(operatorsForColumn(columns[4])).toEqual(['isTrue', 'isFalse', 'isNull', 'isNotNull']);
+        expect(operatorsForColumn(columns[1])).not.toContain('contains');
+    });
+});
+
+describe('buildFilterConditions', () => {
+    test('compares in the column type, without its modifier', () => {
+        const { conditions, values } = build([
+            { column: 'amount', operator: 'greaterThan', values: ['100'] },
+            { column: 'created_at', operator: 'between', values: ['2024-01-01', '2024-02-01'] },
+            { column: 'code', operator: 'equals', values: ['ABCD'] }
+        ]);
+        expect(conditions).toEqual([
+            '"amount" > CAST($1 AS numeric)',
+            '"created_at" BETWEEN CAST($2 AS timestamp with time zone) AND CAST($3 AS timestamp with time zone)',
+            '"code" = CAST($4 AS character varying)'
+        ]);
+        expect(values).toEqual(['100', '2024-01-01', '2024-02-01', 'ABCD']);
+    });
+
+    test('lists, NULL and boolean tests', () => {
+        const { conditions, values } = build([
+            { column: 'status', operator: 'in', values: ['new', '', 'paid'] },
+            { column: 'amount', operator: 'isNull', values: [] },
+            { column: 'active', operator: 'isFalse', values: [] }
+        ]);
+        expect(conditions).toEqual([
+            '"status" IN (CAST($1 AS order_status), CAST($2 AS order_status))',
+            '"amount" IS NULL',
+            '"active" = FALSE'
+        ]);
+        expect(values).toEqual(['new', 'paid']);
+    });
+
+    test('matches text case-insensitively with LIKE wildcards escaped', () => {
+        const { conditions, values } = build([
+            { column: 'code', operator: 'contains', values: ['50%_off'] },
+            { column: 'tags', operator: 'contains', values: ['x'] }
+        ]);
+        expect(conditions).toEqual(['CAST("code" AS TEXT) ILIKE $1', 'CAST("tags" AS TEXT) ILIKE $2']);
+        expect(values).toEqual(['%50\\%\\_off%', '%x%']);
+    });
+
+    test('skips unknown columns, operators the type does not offer and missing values', () => {
+        const { conditions, values } = build([
+            { column: 'missing', operator: 'equals', values: ['1'] },
+            { column: 'active', operator: 'greaterThan', values: ['1'] },
+            { column: 'amount', operator: 'between', values: ['1'] },
+            { column: 'amount', operator: 'equals', values: ['  '] }
+        ]);
+        expect(conditions).toEqual([]);
+        expect(values).toEqual([]);
+    });
+
+    test('inlines quoted literals when given quoteLiteral', () => {
+        expect(buildFilterConditions([{ column: 'code', operator: 'notEquals', values: ["O'Neil"] }], columns, quoteLiteral))
+            .toEqual([`"code" <> CAST('O''Neil' AS character varying)`]);
+    });
+});
+
+describe('normalizeFilters', () => {
+    test('drops malformed entries and non-string values', () => {
+        expect(normalizeFilters({ amount: '100' })).toEqual([]);
+        expect(normalizeFilters([
+            { column: 'amount', operator: 'lessThan', values: ['5', 6] },
+            { column: 'amount', operator: 'DROP TABLE', values: ['5'] },
+            null,
+            { column: 'active', operator: 'isTrue' }
+        ])).toEqual([
+            { column: 'amount', operator: 'lessThan', values: ['5'] },
+            { column: 'active', operator: 'isTrue', values: [] }
+        ]);
+    });
+});
+
+describe('filterParameterType', () => {
+    test('treats a bare character as bpchar', () => {
+        expect(filterParameterType('character')).toBe('bpchar');
+        expect(filterParameterType('character(5)')).toBe('bpchar');
+        expect(filterParameterType('time(3) without time zone')).toBe('time without time zone');
+    });
+});
@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+import {
+    DEFAULT_PAGE_SIZE,
+    MAX_PAGE_SIZE,
+    PageQueryInput,
+    buildPageQuery,
+    clampPageSize,
+    getPageSize,
+    readPageRows,
+    readRowEstimate,
+    rebaseCursor,
+    seekOrder
+} from '../src/tablePagination';
+import type { ColumnInfo } from '../src/types';
+
+const columns: ColumnInfo[] = [
+    { name: 'id', type: 'integer', nullable: false },
+    { name: 'created_at', type: 'timestamp without time zone', nullable: false },
+    { name: 'note', type: 'text', nullable: true }
+];
+
+const baseInput = (overrides: Partial<PageQueryInput> = {}): PageQueryInput => ({
+    table: '"public"."events"',
+    whereClause: '',
+    values: [],
+    sort: null,
+    order: { columns: ['id'], descending: false },
+    page: 0,
+    pageSize: 100,
+    totalRows: 1050,
+    ...overrides
+});
+
+describe('seekOrder', () => {
+    test('orders by the primary key when nothing is sorted', () => {
+        expect(seekOrder(columns, ['id'], null)).toEqual({ columns: ['id'], descending: false });
+    });
+
+    test('breaks ties of a NOT NULL sort column with the primary key', () => {
+        expect(seekOrder(columns, ['id'], { column: 'created_at', direction: 'desc' }))
+            .toEqual({ columns: ['created_at', 'id'], descending: true });
+        expect(seekOrder(columns, ['id'], { column: 'id', direction: 'asc' }))
+            .toEqual({ columns: ['id'], descending: false });
+    });
+
+    test('falls back to OFFSET without a primary key or with a nullable sort column', () => {
+        expect(seekOrder(columns, [], null)).toBeNull();
+        expect(seekOrder(columns, ['id'], { column: 'note', direction: 'asc' })).toBeNull();
+    });
+});
+
+describe('buildPageQuery', () => {
+    test('keeps LIMIT/OFFSET paging when there is no seek order', () => {
+        const query = buildPageQuery(baseInput({
+            order: null,
+            whereClause: 'WHERE CAST("note" AS TEXT) ILIKE $1',
+            values: ['%a%'],
+            sort: { column: 'note', direction: 'desc' },
+            page: 3
+        }));
+        expect(query.text).toBe('SELECT * FROM "public"."events" WHERE CAST("note" AS TEXT) ILIKE $1 ORDER BY "note" DESC LIMIT $2 OFFSET $3');
+        expect(query.values).toEqual(['%a%', 100, 300]);
+        expect(query.seek).toBe(false);
+    });
+
+    test('reads the first page in key order', () => {
+        const query = buildPageQuery(baseInput());
+        expect(query.text).toBe('SELECT *, "id"::text AS "__keyset_0" FROM "public"."events" ORDER BY "id" ASC LIMIT $1');
+        // One row more than the page tells whether a next page exists
+        expect(query.values).toEqual([101]);
+
+        const full = readPageRows(query, Array.from({ length: 101 }, (_, index) => ({ id: index + 1, __keyset_0: String(index + 1) })), 0, 1);
+        expect(full.rows).toHaveLength(100);
+        expect(full.hasNextPage).toBe(true);
+        expect(full.cursor).toMatchObject({ first: ['1'], last: ['100'] });
+        expect(readPageRows(query, [{ id: 1, __keyset_0: '1' }], 0, 1).hasNextPage).toBe(false);
+    });
+
+    test('seeks past the last row of the page on screen', () => {
+        const input = baseInput({ whereClause: 'WHERE "id" > $1', values: [5] });
+        const first = buildPageQuery(input);
+        const { cursor } = readPageRows(first, [{ id: 6, __keyset_0: '6' }, { id: 9, __keyset_0: '9' }], 0, 1);
+
+        const next = buildPageQuery({ ...input, page: 1, cursor });
+        expect(next.text).toBe('SELECT *, "id"::text AS "__keyset_0" FROM "public"."events" WHERE "id" > $1 AND ("id") > ($2) ORDER BY "id" ASC LIMIT $3');
+        expect(next.values).toEqual([5, '9', 101]);
+        expect(next.seek).toBe(true);
+
+        const again = buildPageQuery({ ...input, page: 0, cursor });
+        expect(again.text).not.toContain('("id") >');
+    });
+
+    test('reads the previous page backwards and restores display order', () => {
+        const input = baseInput({
+            order: { columns: ['created_at', 'id'], descending: true },
+            sort: { column: 'created_at', direction: 'desc' },
+            page: 4,
+            cursor: undefined
+        });
+        const cursor = { scope: buildPageQuery(input).scope!, page: 5, first: ['2024-05-01 10:00:00.123456', '42'], last: ['2024-04-30 09:00:00', '17'] };
+
+        const previous = buildPageQuery({ ...input, cursor });
+        expect(previous.text).toBe(
+            'SELECT *, "created_at"::text AS "__keyset_0", "id"::text AS "__keyset_1" FROM "public"."events"'
+            + ' WHERE ("created_at", "id") > ($1, $2) ORDER BY "created_at" ASC, "id" ASC LIMIT $3'
+        );
+        expect(previous.values).toEqual(['2024-05-01 10:00:00.123456', '42', 100]);
+        expect(previous.reversed).toBe(true);
+
+        const rows = readPageRows(previous, [
+            { id: 43, __keyset_0: '2024-05-01 11:00:00', __keyset_1: '43' },
+            { id: 44, __keyset_0: '2024-05-02 08:00:00', __keyset_1: '44' }
+        ], 4, 2);
+        expect(rows.rows).toEqual([{ id: 44 }, { id: 43 }]);
+        expect(rows.hasNextPage).toBe(true);
+        expect(rows.cursor).toMatchObject({ page: 4, first: ['2024-05-02 08:00:00', '44'], last: ['2024-05-01 11:00:00', '43'] });
+    });
+
+    test('reloads the page on screen from its first row', () => {
+        const input = baseInput({ page: 2 });
+        const cursor = { scope: buildPageQuery(input).scope!, page: 2, first: ['201'], last: ['300'] };
+        expect(buildPageQuery({ ...input, cursor }).text).toContain('WHERE ("id") >= ($1)');
+    });
+
+    test('reads the last page from the end without an OFFSET', () => {
+        const query = buildPageQuery(baseInput({ page: 10 }));
+        expect(query.text).toBe('SELECT *, "id"::text AS "__keyset_0" FROM "public"."events" ORDER BY "id" DESC LIMIT $1');
+        // 1050 counted rows: the last page holds the remaining 50
+        expect(query.values).toEqual([50]);
+        expect(query.reversed).toBe(true);
+        expect(query.hasNextPage).toBe(false);
+    });
+
+    test('reads a full last page when the total is estimated', () => {
+        const query = buildPageQuery(baseInput({ page: 12, totalRowsEstimated: true }));
+        expect(query.text).toBe('SELECT *, "id"::text AS "__keyset_0" FROM "public"."events" ORDER BY "id" DESC LIMIT $1');
+        // The estimate may be off, so the page holds the last 100 rows
+        expect(query.values).toEqual([100]);
+        expect(query.hasNextPage).toBe(false);
+    });
+
+    test('uses OFFSET in key order for pages away from the one on screen', () => {
+        const query = buildPageQuery(baseInput({ page: 6 }));
+        expect(query.text).toBe('SELECT *, "id"::text AS "__keyset_0" FROM "public"."events" ORDER BY "id" ASC LIMIT $1 OFFSET $2');
+        expect(query.values).toEqual([101, 600]);
+        expect(query.seek).toBe(false);
+    });
+
+    test('ignores keys read with other filters or another page size', () => {
+        const input = baseInput({ page: 1 });
+        const cursor = { scope: buildPageQuery(input).scope!, page: 0, first: ['1'], last: ['100'] };
+
+        expect(buildPageQuery({ ...input, cursor }).seek).toBe(true);
+        expect(buildPageQuery({ ...input, cursor, whereClause: 'WHERE "id" < $1', values: [10] }).seek).toBe(false);
+        expect(buildPageQuery({ ...input, cursor, pageSize: 50 }).seek).toBe(false);
+    });
+
+    test('keeps seeking from the first row on screen after the page size changes', () => {
+        const input = baseInput({ page: 2 });
+        const cursor = { scope: buildPageQuery(input).scope!, page: 2, first: ['201'], last: ['300'] };
+
+        const query = buildPageQuery({ ...input, page: 8, pageSize: 25, cursor: rebaseCursor(cursor, 25, 8) });
+        expect(query.text).toContain('WHERE ("id") >= ($1)');
+        expect(query.values).toEqual(['201', 26]);
+    });
+});
+
+describe('readRowEstimate', () => {
+    test('reads the planned rows of EXPLAIN (FORMAT JSON)', () => {
+        expect(readRowEstimate([{ 'QUERY PLAN': [{ Plan: { 'Node Type': 'Seq Scan', 'Plan Rows': 48213077 } }] }])).toBe(48213077);
+        expect(readRowEstimate([])).toBeUndefined();
+        expect(readRowEstimate([{ 'QUERY PLAN': 'not json' }])).toBeUndefined();
+    });
+});
+
+describe('page size', () => {
+    const originalGetConfiguration = vscode.workspace.getConfiguration;
+    afterEach(() => {
+        (vscode.workspace as any).getConfiguration = originalGetConfiguration;
+    });
+
+    test('honors postgresDataEditor.paginationSize', () => {
+        expect(getPageSize()).toBe(DEFAULT_PAGE_SIZE);
+        (vscode.workspace as any).getConfiguration = () => ({
+            get: (key: string, defaultValue: unknown) => key === 'paginationSize' ? 250 : defaultValue
+        });
+        expect(getPageSize()).toBe(250);
+    });
+
+    test('rejects sizes below one and caps large ones', () => {
+        expect(clampPageSize(0)).toBeUndefined();
+        expect(clampPageSize('abc')).toBeUndefined();
+        expect(clampPageSize(42.7)).toBe(42);
+        expect(clampPageSize(1e9)).toBe(MAX_PAGE_SIZE);
+    });
+});
@@ -0,0 +1,91 @@
+import { jest } from '@jest/globals';
+import { MAX_RANGE_SIZE, TableScrollCursor, buildScrollQuery, clampRangeSize, scrollQueryScope } from '../src/tableScrollCursor';
+
+function createClient(failOn?: RegExp) {
+    const statements: Array<{ sql: string; values?: unknown[] }> = [];
+    const client: any = {
+        statements,
+        query: jest.fn(async (sql: string, values?: unknown[]) => {
+            statements.push({ sql, values });
+            if (failOn && failOn.test(sql)) {
+                throw new Error('syntax error');
+            }
+            if (/^FETCH/.test(sql)) {
+                return { rows: [{ id: 11 }, { id: 12 }] };
+            }
+            return { rows: [] };
+        })
+    };
+    return client;
+}
+
+describe('buildScrollQuery', () => {
+    test('orders by the seek order so rows line up with the pages', () => {
+        const query = buildScrollQuery({
+            table: '"public"."events"',
+            whereClause: 'WHERE CAST("note" AS TEXT) ILIKE $1',
+            values: ['%a%'],
+            sort: { column: 'created_at', direction: 'desc' },
+            order: { columns: ['created_at', 'id'], descending: true }
+        });
+        expect(query.text).toBe('SELECT * FROM "public"."events" WHERE CAST("note" AS TEXT) ILIKE $1 ORDER BY "created_at" DESC, "id" DESC');
+        expect(query.values).toEqual(['%a%']);
+    });
+
+    test('falls back to the sort column, or no order at all', () => {
+        const base = { table: '"public"."events"', whereClause: '', values: [], order: null };
+        expect(buildScrollQuery({ ...base, sort: { column: 'note', direction: 'asc' } }).text)
+            .toBe('SELECT * FROM "public"."events" ORDER BY "note" ASC');
+        expect(buildScrollQuery({ ...base, sort: null }).text).toBe('SELECT * FROM "public"."events"');
+    });
+});
+
+describe('TableScrollCursor', () => {
+    const query = { text: 'SELECT * FROM "public"."events" WHERE "id" > $1', values: [10] };
+
+    test('declares a scroll cursor in a read-only snapshot', async () => {
+        const client = createClient();
+        const cursor = await TableScrollCursor.open(client, query);
+        expect(client.statements.map((s: any) => s.sql)).toEqual([
+            'BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY',
+            'DECLARE data_editor_rows SCROLL CURSOR FOR SELECT * FROM "public"."events" WHERE "id" > $1'
+        ]);
+        expect(client.statements[1].values).toEqual([10]);
+        expect(cursor.scope).toBe(scrollQueryScope(query));
+    });
+
+    test('moves to the row before the range and fetches forward', async () => {
+        const client = createClient();
+        const cursor = await TableScrollCursor.open(client, query);
+        const rows = await cursor.fetch(10, 2);
+        expect(rows).toEqual([{ id: 11 }, { id: 12 }]);
+        expect(client.statements.slice(2).map((s: any) => s.sql)).toEqual([
+            'MOVE ABSOLUTE 10 IN data_editor_rows',
+            'FETCH FORWARD 2 FROM data_editor_rows'
+        ]);
+    });
+
+    test('rolls back when the cursor cannot be declared', async () => {
+        const client = createClient(/^DECLARE/);
+        await expect(TableScrollCursor.open(client, query)).rejects.toThrow('syntax error');
+        expect(client.statements[client.statements.length - 1].sql).toBe('ROLLBACK');
+    });
+
+    test('still rejects with the DECLARE error when the rollback fails too', async () => {
+        const client = createClient(/^(DECLARE|ROLLBACK)/);
+        await expect(TableScrollCursor.open(client, query)).rejects.toThrow('syntax error');
+    });
+
+    test('closing does not throw when the session is gone', async () => {
+        const client = createClient();
+        const cursor = await TableScrollCursor.open(client, query);
+        client.query.mockRejectedValueOnce(new Error('Connection terminated unexpectedly'));
+        await expect(cursor.close()).resolves.toBeUndefined();
+    });
+
+    test('caps the rows of one range', () => {
+        expect(clampRangeSize(0)).toBeUndefined();
+        expect(clampRangeSize(250.5)).toBe(250);
+        expect(clampRangeSize(1e6)).toBe(MAX_RANGE_SIZE);
+    });
+});
@@ -0,0 +1,60 @@
+import { jest } from '@jest/globals';
+import { TableShortcuts } from '../src/tableShortcuts';
+
+describe('Table Shortcuts Tests', () => {
+    const orders = { connectionId: 'conn-1', databaseName: 'shop', schemaName: 'public', tableName: 'orders', kind: 'table' as const };
+
+    let store: Map<string, unknown>;
+    let shortcuts: TableShortcuts;
+
+    beforeEach(() => {
+        store = new Map();
+        const context: any = {
+            globalState: {
+                get: (key: string, fallback: unknown) => store.has(key) ? store.get(key) : fallback,
+                update: async (key: string, value: unknown) => { store.set(key, value); }
+            }
+        };
+        shortcuts = new TableShortcuts(context);
+    });
+
+    it('should keep recents unique, most recent first and capped at ten', async () => {
+        for (let i = 0; i < 12; i++) {
+            await shortcuts.recordOpened({ ...orders, tableName: `t${i}` });
+        }
+        await shortcuts.recordOpened({ ...orders, tableName: 't5' });
+
+        const names = shortcuts.getRecents().map(entry => entry.tableName);
+        expect(names).toHaveLength(10);
+        expect(names[0]).toBe('t5');
+        expect(names.filter(name => name === 't5')).toHaveLength(1);
+        expect(names).not.toContain('t0');
+    });
+
+    it('should pin favorites by connection id and notify listeners', async () => {
+        const listener = jest.fn();
+        shortcuts.onDidChange(listener);
+
+        await shortcuts.addFavorite(orders);
+        await shortcuts.addFavorite(orders);
+
+        expect(shortcuts.getFavorites()).toHaveLength(1);
+        expect(shortcuts.isFavorite({ connectionId: 'conn-1', schemaName: 'public', tableName: 'orders' })).toBe(true);
+        expect(shortcuts.isFavorite({ connectionId: 'conn-2', schemaName: 'public', tableName: 'orders' })).toBe(false);
+        expect(listener).toHaveBeenCalledWith('favorites');
+
+        await shortcuts.removeFavorite(orders);
+        expect(shortcuts.getFavorites()).toEqual([]);
+    });
+
+    it('should forget the favorites and recents of a deleted connection', async () => {
+        await shortcuts.addFavorite(orders);
+        await shortcuts.recordOpened(orders);
+        await shortcuts.recordOpened({ ...orders, connectionId: 'conn-2' });
+
+        await shortcuts.removeConnection('conn-1');
+
+        expect(shortcuts.getFavorites()).toEqual([]);
+        expect(shortcuts.getRecents().map(entry => entry.connectionId)).toEqual(['conn-2']);
+    });
+});
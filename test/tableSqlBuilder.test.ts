@@ -1,4 +1,23 @@
-import { buildAlterTableSql, buildCreateTableSql, buildDropTableSql, quoteIdentifier } from '../src/tableSqlBuilder';
+import {
+    buildAddEnumValueSql,
+    buildAlterTableSql,
+    buildAttachPartitionSql,
+    buildCreateExtensionSql,
+    buildCreatePartitionSql,
+    buildCreateTableSql,
+    buildCreateTableStatements,
+    buildDetachPartitionSql,
+    buildDropExtensionSql,
+    buildDropTableSql,
+    buildRefreshMaterializedViewSql,
+    buildRenameEnumValueSql,
+    buildRestartSequenceSql,
+    buildResyncSequenceSql,
+    buildSetSequenceValueSql,
+    buildSetTriggerEnabledSql,
+    buildUpdateExtensionSql,
+    quoteIdentifier
+} from '../src/tableSqlBuilder';
 
 describe('tableSqlBuilder', () => {
     test('quoteIdentifier escapes double quotes', () => {
@@ -28,4 +47,105 @@ describe('tableSqlBuilder', () => {
         expect(buildDropTableSql('public', 'logs')).toBe('DROP TABLE "public"."logs";');
         expect(buildDropTableSql('public', 'logs', true)).toBe('DROP TABLE "public"."logs" CASCADE;');
     });
+
+    test('buildCreateTableStatements adds PARTITION BY and initial partitions', () => {
+        const columns = [
+            { name: 'id', type: 'bigint', nullable: false, defaultValue: null, comment: null, isPrimaryKey: true },
+            { name: 'created_at', type: 'date', nullable: false, defaultValue: 'CURRENT_DATE', comment: null, isPrimaryKey: true }
+        ];
+        const result = buildCreateTableStatements('public', 'events', columns, [], {
+            strategy: 'RANGE',
+            columns: ['created_at'],
+            partitions: [
+                { name: 'events_2024', bound: "FROM ('2024-01-01') TO ('2025-01-01')" },
+                { name: 'events_default', bound: 'default' }
+            ]
+        });
+        expect(result.statements).toEqual([
+            'CREATE TABLE "public"."events" ("id" bigint NOT NULL, "created_at" date NOT NULL DEFAULT CURRENT_DATE, PRIMARY KEY ("id", "created_at")) PARTITION BY RANGE ("created_at");',
+            `CREATE TABLE "public"."events_2024" PARTITION OF "public"."events" FOR VALUES FROM ('2024-01-01') TO ('2025-01-01');`,
+            'CREATE TABLE "public"."events_default" PARTITION OF "public"."events" DEFAULT;'
+        ]);
+    });
+
+    test('buildCreateTableStatements rejects partition keys outside the primary key', () => {
+        const columns = [
+            { name: 'id', type: 'bigint', nullable: false, defaultValue: null, comment: null, isPrimaryKey: true },
+            { name: 'region', type: 'text', nullable: false, defaultValue: null, comment: null, isPrimaryKey: false }
+        ];
+        expect(() => buildCreateTableStatements('public', 'customers', columns, [], { strategy: 'LIST', columns: ['region'], partitions: [] }))
+            .toThrow('The primary key must include the partition key column(s): region');
+        expect(() => buildCreateTableStatements('public', 'customers', columns, [], {
+            strategy: 'HASH',
+            columns: ['id'],
+            partitions: [{ name: 'customers_default', bound: 'DEFAULT' }]
+        })).toThrow('Hash partitioned tables cannot have a DEFAULT partition');
+    });
+
+    test('partition builders attach, create and detach partitions', () => {
+        expect(buildCreatePartitionSql('public', 'customers', 'customers_p0', 'FOR VALUES WITH (MODULUS 4, REMAINDER 0);'))
+            .toBe('CREATE TABLE "public"."customers_p0" PARTITION OF "public"."customers" FOR VALUES WITH (MODULUS 4, REMAINDER 0);');
+        expect(buildAttachPartitionSql('public', 'events', 'archive', 'events_2023', "FROM ('2023-01-01') TO ('2024-01-01')"))
+            .toBe(`ALTER TABLE "public"."events" ATTACH PARTITION "archive"."events_2023" FOR VALUES FROM ('2023-01-01') TO ('2024-01-01');`);
+        expect(buildDetachPartitionSql('public', 'events', 'public', 'events_2024'))
+            .toBe('ALTER TABLE "public"."events" DETACH PARTITION "public"."events_2024";');
+        expect(() => buildCreatePartitionSql('public', 'events', 'events_x', '  ')).toThrow('Partition bound is required');
+    });
+
+    test('buildSetTriggerEnabledSql toggles a quoted trigger', () => {
+        expect(buildSetTriggerEnabledSql('public', 'orders', 'audit_orders', false)).toBe('ALTER TABLE "public"."orders" DISABLE TRIGGER "audit_orders";');
+        expect(buildSetTriggerEnabledSql('public', 'orders', 'Audit "Orders"', true)).toBe('ALTER TABLE "public"."orders" ENABLE TRIGGER "Audit ""Orders""";');
+    });
+
+    test('buildAddEnumValueSql appends or positions a quoted label', () => {
+        expect(buildAddEnumValueSql('public', 'mood', 'ecstatic')).toBe(`ALTER TYPE "public"."mood" ADD VALUE 'ecstatic';`);
+        expect(buildAddEnumValueSql('public', 'mood', "it's fine", { placement: 'BEFORE', neighbor: 'happy' }))
+            .toBe(`ALTER TYPE "public"."mood" ADD VALUE 'it''s fine' BEFORE 'happy';`);
+        expect(buildAddEnumValueSql('public', 'mood', 'meh', { placement: 'AFTER', neighbor: 'sad' }))
+            .toBe(`ALTER TYPE "public"."mood" ADD VALUE 'meh' AFTER 'sad';`);
+    });
+
+    test('buildRenameEnumValueSql renames a label', () => {
+        expect(buildRenameEnumValueSql('public', 'mood', 'sad', 'blue')).toBe(`ALTER TYPE "public"."mood" RENAME VALUE 'sad' TO 'blue';`);
+    });
+
+    test('buildCreateExtensionSql adds schema, version and cascade clauses', () => {
+        expect(buildCreateExtensionSql('pg_trgm')).toBe('CREATE EXTENSION "pg_trgm";');
+        expect(buildCreateExtensionSql('uuid-ossp', { schema: 'extensions', version: '1.1', cascade: true }))
+            .toBe(`CREATE EXTENSION "uuid-ossp" SCHEMA "extensions" VERSION '1.1' CASCADE;`);
+    });
+
+    test('buildUpdateExtensionSql updates to an optional version', () => {
+        expect(buildUpdateExtensionSql('postgis')).toBe('ALTER EXTENSION "postgis" UPDATE;');
+        expect(buildUpdateExtensionSql('postgis', '3.4.2')).toBe(`ALTER EXTENSION "postgis" UPDATE TO '3.4.2';`);
+    });
+
+    test('buildDropExtensionSql adds cascade when requested', () => {
+        expect(buildDropExtensionSql('pg_trgm')).toBe('DROP EXTENSION "pg_trgm";');
+        expect(buildDropExtensionSql('postgis', true)).toBe('DROP EXTENSION "postgis" CASCADE;');
+    });
+
+    test('buildRefreshMaterializedViewSql adds CONCURRENTLY when requested', () => {
+        expect(buildRefreshMaterializedViewSql('reporting', 'daily_totals')).toBe('REFRESH MATERIALIZED VIEW "reporting"."daily_totals";');
+        expect(buildRefreshMaterializedViewSql('reporting', 'daily_totals', true)).toBe('REFRESH MATERIALIZED VIEW CONCURRENTLY "reporting"."daily_totals";');
+    });
+
+    test('buildSetSequenceValueSql quotes the sequence inside the regclass literal', () => {
+        expect(buildSetSequenceValueSql('public', 'users_id_seq', '42')).toBe(`SELECT setval('"public"."users_id_seq"', 42, true);`);
+        expect(buildSetSequenceValueSql('app', "o'brien_seq", '1', false)).toBe(`SELECT setval('"app"."o''brien_seq"', 1, false);`);
+        expect(() => buildSetSequenceValueSql('public', 'users_id_seq', '1; DROP TABLE users')).toThrow('Sequence value must be an integer');
+    });
+
+    test('buildRestartSequenceSql restarts with an optional value', () => {
+        expect(buildRestartSequenceSql('public', 'users_id_seq')).toBe('ALTER SEQUENCE "public"."users_id_seq" RESTART;');
+        expect(buildRestartSequenceSql('public', 'users_id_seq', '1000')).toBe('ALTER SEQUENCE "public"."users_id_seq" RESTART WITH 1000;');
+    });
+
+    test('buildResyncSequenceSql moves past the owning column values', () => {
+        const owner = { schemaName: 'public', tableName: 'users', columnName: 'id' };
+        expect(buildResyncSequenceSql('public', 'users_id_seq', owner, { increment: '1', minValue: '1', maxValue: '2147483647' }))
+            .toBe(`SELECT setval('"public"."users_id_seq"', COALESCE(MAX("id") + 1, 1), false) FROM "public"."users";`);
+        expect(buildResyncSequenceSql('public', 'countdown_seq', owner, { increment: '-1', minValue: '-100', maxValue: '-1' }))
+            .toBe(`SELECT setval('"public"."countdown_seq"', COALESCE(MIN("id") - 1, -1), false) FROM "public"."users";`);
+    });
 });
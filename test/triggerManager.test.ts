@@ -0,0 +1,51 @@
+import { jest } from '@jest/globals';
+import { TriggerManager } from '../src/triggerManager';
+
+describe('Trigger Manager Tests', () => {
+    const createMockConnectionManager = () => ({
+        getClient: jest.fn(),
+        markBusy: jest.fn(),
+        markIdle: jest.fn()
+    });
+
+    let mockConnectionManager: any;
+    let triggerManager: TriggerManager;
+
+    beforeEach(() => {
+        mockConnectionManager = createMockConnectionManager();
+        triggerManager = new TriggerManager(mockConnectionManager);
+    });
+
+    describe('setTriggerEnabled', () => {
+        it('should disable the trigger and mark the connection busy while running', async () => {
+            const mockClient = {
+                query: (jest.fn() as any).mockResolvedValueOnce({ rows: [] })
+            };
+            (mockConnectionManager.getClient as any).mockResolvedValueOnce(mockClient as any);
+
+            await triggerManager.setTriggerEnabled('conn-1', 'public', 'orders', 'audit_orders', false);
+
+            expect(mockClient.query).toHaveBeenCalledWith('ALTER TABLE "public"."orders" DISABLE TRIGGER "audit_orders";');
+            expect(mockConnectionManager.markBusy).toHaveBeenCalledWith('conn-1');
+            expect(mockConnectionManager.markIdle).toHaveBeenCalledWith('conn-1');
+        });
+
+        it('should mark the connection idle and rethrow when the statement fails', async () => {
+            const mockClient = {
+                query: (jest.fn() as any).mockRejectedValueOnce(new Error('must be owner of table orders'))
+            };
+            (mockConnectionManager.getClient as any).mockResolvedValueOnce(mockClient as any);
+
+            await expect(triggerManager.setTriggerEnabled('conn-1', 'public', 'orders', 'audit_orders', true))
+                .rejects.toThrow('must be owner of table orders');
+            expect(mockConnectionManager.markIdle).toHaveBeenCalledWith('conn-1');
+        });
+
+        it('should throw when no client is available', async () => {
+            (mockConnectionManager.getClient as any).mockResolvedValueOnce(null);
+
+            await expect(triggerManager.setTriggerEnabled('conn-1', 'public', 'orders', 'audit_orders', true))
+                .rejects.toThrow('Could not connect to database');
+        });
+    });
+});
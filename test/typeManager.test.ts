@@ -0,0 +1,64 @@
+import { jest } from '@jest/globals';
+import { TypeManager } from '../src/typeManager';
+
+describe('Type Manager Tests', () => {
+    const createMockConnectionManager = () => ({
+        getClient: jest.fn(),
+        markBusy: jest.fn(),
+        markIdle: jest.fn()
+    });
+
+    let mockConnectionManager: any;
+    let typeManager: TypeManager;
+
+    beforeEach(() => {
+        mockConnectionManager = createMockConnectionManager();
+        typeManager = new TypeManager(mockConnectionManager);
+    });
+
+    describe('getTypes', () => {
+        it('should map enums, composites, domains and ranges', async () => {
+            const mockClient = {
+                query: (jest.fn() as any).mockResolvedValueOnce({
+                    rows: [
+                        { typname: 'address', typtype: 'c', typnotnull: false, base_type: null, enum_values: [], attributes: ['street text', 'zip character varying(10)'] },
+                        { typname: 'email', typtype: 'd', typnotnull: true, base_type: 'text', enum_values: [], attributes: [] },
+                        { typname: 'mood', typtype: 'e', typnotnull: false, base_type: null, enum_values: ['sad', 'ok', 'happy'], attributes: [] },
+                        { typname: 'price_range', typtype: 'r', typnotnull: false, base_type: 'numeric', enum_values: [], attributes: [] }
+                    ]
+                })
+            };
+            (mockConnectionManager.getClient as any).mockResolvedValueOnce(mockClient as any);
+
+            const types = await typeManager.getTypes('conn-1', 'public');
+
+            expect(types.map(type => type.kind)).toEqual(['composite', 'domain', 'enum', 'range']);
+            expect(types[0].attributes).toEqual(['street text', 'zip character varying(10)']);
+            expect(types[1]).toMatchObject({ baseType: 'text', notNull: true });
+            expect(types[2].enumValues).toEqual(['sad', 'ok', 'happy']);
+            expect(types[3].baseType).toBe('numeric');
+            expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('pg_type'), ['public', null]);
+        });
+
+        it('should throw when no client is available', async () => {
+            (mockConnectionManager.getClient as any).mockResolvedValueOnce(null);
+
+            await expect(typeManager.getTypes('conn-1', 'public')).rejects.toThrow('Could not connect to database');
+        });
+    });
+
+    describe('executeTypeSql', () => {
+        it('should run the statement outside a transaction block', async () => {
+            const mockClient = {
+                query: (jest.fn() as any).mockResolvedValueOnce({ rows: [] })
+            };
+            (mockConnectionManager.getClient as any).mockResolvedValueOnce(mockClient as any);
+
+            await typeManager.executeTypeSql('conn-1', `ALTER TYPE "public"."mood" ADD VALUE 'ecstatic';`);
+
+            expect(mockClient.query).toHaveBeenCalledTimes(1);
+            expect(mockClient.query).toHaveBeenCalledWith(`ALTER TYPE "public"."mood" ADD VALUE 'ecstatic';`);
+            expect(mockConnectionManager.markIdle).toHaveBeenCalledWith('conn-1');
+        });
+    });
+});
@@ -0,0 +1,81 @@
+import { jest } from '@jest/globals';
+import { ViewManager } from '../src/viewManager';
+
+describe('View Manager Tests', () => {
+    const createMockConnectionManager = () => ({
+        getClient: jest.fn(),
+        markBusy: jest.fn(),
+        markIdle: jest.fn()
+    });
+
+    const createMockContext = () => {
+        const store = new Map<string, unknown>();
+        return {
+            globalState: {
+                get: (key: string) => store.get(key),
+                update: async (key: string, value: unknown) => {
+                    store.set(key, value);
+                }
+            }
+        };
+    };
+
+    let mockConnectionManager: any;
+    let viewManager: ViewManager;
+
+    beforeEach(() => {
+        mockConnectionManager = createMockConnectionManager();
+        viewManager = new ViewManager(createMockContext() as any, mockConnectionManager);
+    });
+
+    describe('refreshMaterializedView', () => {
+        it('should run a concurrent refresh and record the refresh time', async () => {
+            const mockClient = {
+                query: (jest.fn() as any).mockResolvedValue({ rows: [] })
+            };
+            (mockConnectionManager.getClient as any).mockResolvedValue(mockClient as any);
+
+            expect(viewManager.getLastRefreshed('conn-1', 'reporting', 'daily_totals')).toBeUndefined();
+
+            await viewManager.refreshMaterializedView('conn-1', 'reporting', 'daily_totals', true);
+
+            expect(mockClient.query).toHaveBeenCalledWith('REFRESH MATERIALIZED VIEW CONCURRENTLY "reporting"."daily_totals";');
+            expect(viewManager.getLastRefreshed('conn-1', 'reporting', 'daily_totals')).toBeInstanceOf(Date);
+            expect(mockConnectionManager.markIdle).toHaveBeenCalledWith('conn-1');
+        });
+
+        it('should not record a refresh time when the refresh fails', async () => {
+            const mockClient = {
+                query: (jest.fn() as any).mockRejectedValue(new Error('cannot refresh materialized view concurrently'))
+            };
+            (mockConnectionManager.getClient as any).mockResolvedValue(mockClient as any);
+
+            await expect(
+                viewManager.refreshMaterializedView('conn-1', 'reporting', 'daily_totals', true)
+            ).rejects.toThrow('cannot refresh materialized view concurrently');
+            expect(viewManager.getLastRefreshed('conn-1', 'reporting', 'daily_totals')).toBeUndefined();
+        });
+
+        it('should throw when no client is available', async () => {
+            (mockConnectionManager.getClient as any).mockResolvedValue(null);
+
+            await expect(
+                viewManager.refreshMaterializedView('conn-1', 'reporting', 'daily_totals')
+            ).rejects.toThrow('Could not connect to database');
+        });
+    });
+
+    describe('canRefreshConcurrently', () => {
+        it('should require a populated view with a unique index', async () => {
+            const mockClient = {
+                query: (jest.fn() as any)
+                    .mockResolvedValueOnce({ rows: [{ ispopulated: true, has_unique_index: true }] })
+                    .mockResolvedValueOnce({ rows: [{ ispopulated: true, has_unique_index: false }] })
+            };
+            (mockConnectionManager.getClient as any).mockResolvedValue(mockClient as any);
+
+            await expect(viewManager.canRefreshConcurrently('conn-1', 'reporting', 'daily_totals')).resolves.toBe(true);
+            await expect(viewManager.canRefreshConcurrently('conn-1', 'reporting', 'daily_totals')).resolves.toBe(false);
+        });
+    });
+});
@@ -0,0 +1,70 @@
+import { render, fireEvent } from '@testing-library/svelte';
+import { fn } from 'jest-mock';
+import App from '../webview/src/App.svelte';
+
+const initState = {
+  schemaName: 'public',
+  tableName: 'orders',
+  columns: [
+    { name: 'id', type: 'bigint', nullable: false },
+    { name: 'amount', type: 'numeric(10,2)', nullable: true },
+    { name: 'status', type: 'order_status', nullable: false, enumValues: ['new', 'paid', 'shipped'] }
+  ],
+  primaryKey: ['id'],
+  rows: [{ id: 1, amount: '120.00', status: 'paid' }],
+  currentPage: 0,
+  totalRows: 1,
+  paginationSize: 100,
+  batchMode: true,
+  sort: null,
+  filters: [],
+  searchTerm: ''
+};
+
+// The toolbar has its own Apply and Clear buttons
+function popoverButton(container: HTMLElement, name: string): HTMLButtonElement {
+  const buttons = Array.from(container.querySelectorAll<HTMLButtonElement>('.filter-popover button'));
+  return buttons.find((button) => button.textContent?.trim() === name)!;
+}
+
+function filterMessages(postMessage: ReturnType<typeof fn>): any[] {
+  return postMessage.mock.calls.map((call) => call[0] as any).filter((message) => message.command === 'applyFilters');
+}
+
+test('column filter popover offers operators for the column type and posts typed filters', async () => {
+  const postMessage = fn();
+  const vscode = { postMessage, getState: () => undefined, setState: () => undefined } as any;
+  const { container, getByLabelText, getByText, queryByRole } = render(App, { initialState: initState, vscode });
+
+  await fireEvent.click(getByLabelText('Filter amount'));
+  const operator = getByLabelText('Operator') as HTMLSelectElement;
+  const offered = Array.from(operator.options).map((option) => option.value);
+  expect(offered).toContain('greaterThan');
+  expect(offered).not.toContain('contains');
+
+  await fireEvent.change(operator, { target: { value: 'greaterThan' } });
+  await fireEvent.input(getByLabelText('Value'), { target: { value: '100' } });
+  await fireEvent.click(popoverButton(container, 'Apply'));
+
+  expect(filterMessages(postMessage)).toEqual([
+    { command: 'applyFilters', filters: [{ column: 'amount', operator: 'greaterThan', values: ['100'] }] }
+  ]);
+  expect(queryByRole('dialog')).toBeNull();
+  expect(getByText('> 100')).toBeTruthy();
+
+  // Enum columns pick their values from the labels
+  await fireEvent.click(getByLabelText('Filter status'));
+  await fireEvent.change(getByLabelText('Operator'), { target: { value: 'in' } });
+  await fireEvent.click(getByLabelText('new'));
+  await fireEvent.click(getByLabelText('shipped'));
+  await fireEvent.click(popoverButton(container, 'Apply'));
+
+  expect(filterMessages(postMessage)[1].filters).toEqual([
+    { column: 'amount', operator: 'greaterThan', values: ['100'] },
+    { column: 'status', operator: 'in', values: ['new', 'shipped'] }
+  ]);
+
+  await fireEvent.click(getByLabelText('Filter on amount: > 100'));
+  await fireEvent.click(popoverButton(container, 'Clear'));
+  expect(filterMessages(postMessage)[2].filters).toEqual([{ column: 'status', operator: 'in', values: ['new', 'shipped'] }]);
+});
@@ -0,0 +1,79 @@
+import { render, fireEvent } from '@testing-library/svelte';
+import { tick } from 'svelte';
+import { fn } from 'jest-mock';
+import App from '../webview/src/App.svelte';
+
+const initState = {
+  schemaName: 'public',
+  tableName: 'people',
+  columns: [
+    { name: 'id', type: 'bigint', nullable: false },
+    { name: 'name', type: 'text', nullable: true }
+  ],
+  primaryKey: ['id'],
+  rows: [],
+  currentPage: 0,
+  totalRows: 3,
+  paginationSize: 100,
+  batchMode: true,
+  sort: null,
+  filters: {},
+  searchTerm: ''
+};
+
+function send(data: unknown): void {
+  window.dispatchEvent(new MessageEvent('message', { data }));
+}
+
+function rangeRequests(postMessage: ReturnType<typeof fn>): any[] {
+  return postMessage.mock.calls.map((call) => call[0] as any).filter((message) => message.command === 'loadRange');
+}
+
+test('infinite scroll requests ranges and keeps edits when rows are read again', async () => {
+  const postMessage = fn();
+  const vscode = { postMessage, getState: () => ({ infiniteScroll: true }), setState: () => undefined } as any;
+  const { findByDisplayValue, queryByDisplayValue, getByLabelText, findByText } = render(App, { initialState: initState, vscode });
+
+  await tick();
+  expect(rangeRequests(postMessage)).toHaveLength(1);
+  expect(rangeRequests(postMessage)[0]).toEqual({ command: 'loadRange', offset: 0, limit: 200, requestId: 1 });
+
+  send({ command: 'rangeData', offset: 0, requestId: 1, totalRows: 3, rows: [{ id: 1, name: 'a' }, { id: 2, name: 'b' }, { id: 3, name: 'c' }] });
+  const input = await findByDisplayValue('b');
+  await fireEvent.input(input, { target: { value: 'bee' } });
+
+  // A reload (e.g. a new sort) drops the loaded rows and reads them again
+  send({ command: 'loadData', payload: { ...initState, sort: { column: 'id', direction: 'desc' } } });
+  await tick();
+  expect(rangeRequests(postMessage)).toHaveLength(2);
+  expect(rangeRequests(postMessage)[1].requestId).toBe(2);
+
+  // A late reply to the request sent before the reload is ignored
+  send({ command: 'rangeData', offset: 0, requestId: 1, totalRows: 3, rows: [{ id: 1, name: 'a' }, { id: 2, name: 'b' }, { id: 3, name: 'c' }] });
+  send({ command: 'rangeData', offset: 0, requestId: 2, totalRows: 3, rows: [{ id: 3, name: 'c' }, { id: 2, name: 'b' }, { id: 1, name: 'a' }] });
+  expect(await findByDisplayValue('bee')).toBeTruthy();
+  expect(queryByDisplayValue('b')).toBeNull();
+
+  // Pages would replace the edited row, so switching back waits for the edit
+  await fireEvent.click(getByLabelText('Infinite scroll'));
+  expect(await findByText(/pending changes before switching back to pages/)).toBeTruthy();
+  expect(postMessage).not.toHaveBeenCalledWith(expect.objectContaining({ command: 'loadPage' }));
+});
+
+test('infinite scroll reads the window again when the cursor moved to a new snapshot', async () => {
+  const postMessage = fn();
+  const vscode = { postMessage, getState: () => ({ infiniteScroll: true }), setState: () => undefined } as any;
+  const { findByDisplayValue, queryByDisplayValue } = render(App, { initialState: initState, vscode });
+
+  await tick();
+  expect(postMessage).toHaveBeenCalledWith({ command: 'setInfiniteScroll', enabled: true });
+  send({ command: 'rangeData', offset: 0, requestId: 1, totalRows: 3, rows: [{ id: 1, name: 'a' }, { id: 2, name: 'b' }, { id: 3, name: 'c' }] });
+  await fireEvent.input(await findByDisplayValue('b'), { target: { value: 'bee' } });
+
+  // Row 1 was deleted while the cursor was closed: the rows after it moved up
+  send({ command: 'rangeData', offset: 0, requestId: 1, totalRows: 2, snapshotChanged: true, rows: [{ id: 2, name: 'b' }, { id: 3, name: 'c' }] });
+  await tick();
+  expect(queryByDisplayValue('a')).toBeNull();
+  expect(await findByDisplayValue('bee')).toBeTruthy();
+  expect(await findByDisplayValue('c')).toBeTruthy();
+});
@@ -0,0 +1,91 @@
+import { jest } from '@jest/globals';
+jest.mock('vscode');
+
+import { mergeWorkspaceConnections, parseWorkspaceConnections, toWorkspaceConnectionEntry } from '../src/workspaceConnections';
+import type { ConnectionConfig } from '../src/connectionManager';
+
+describe('Workspace connections file', () => {
+    const file = JSON.stringify({
+        connections: [
+            {
+                name: 'Orders (staging)',
+                host: 'db.internal',
+                database: 'orders',
+                sslMode: 'verify-full',
+                ssh: { host: 'bastion.example.com', username: 'deploy' },
+                group: 'Staging',
+                environment: 'staging',
+                readOnly: true,
+                sessionSettings: { statementTimeout: '30s' }
+            },
+            { name: 'Reporting', service: 'reporting' }
+        ]
+    });
+
+    test('reads entries without passwords and derives stable ids', () => {
+        const { connections, errors } = parseWorkspaceConnections(file, 'shop');
+        expect(errors).toEqual([]);
+        expect(connections[0]).toMatchObject({
+            id: 'workspace:shop:Orders (staging)',
+            name: 'Orders (staging)',
+            host: 'db.internal',
+            port: 5432,
+            database: 'orders',
+            username: '',
+            ssl: true,
+            sslMode: 'verify-full',
+            ssh: { host: 'bastion.example.com', port: 22, username: 'deploy', authMethod: 'privateKey' },
+            group: 'Staging',
+            environment: 'staging',
+            readOnly: true,
+            sessionSettings: { statementTimeout: '30s' },
+            workspaceFolder: 'shop'
+        });
+        expect(connections[1]).toMatchObject({ id: 'workspace:shop:Reporting', service: 'reporting' });
+    });
+
+    test('skips invalid and duplicate entries and reports them', () => {
+        const { connections, errors } = parseWorkspaceConnections(JSON.stringify({
+            connections: [
+                { name: 'ok', host: 'h' },
+                { host: 'no-name' },
+                { name: 'bad port', host: 'h', port: 'x' },
+                { name: 'bad timeout', host: 'h', sessionSettings: { lockTimeout: 'soon' } },
+                { name: 'ok', host: 'other' }
+            ]
+        }), 'shop');
+        expect(connections.map(c => c.host)).toEqual(['h']);
+        expect(errors).toEqual([
+            '"name" is required',
+            '"bad port" has an invalid port',
+            expect.stringContaining('"bad timeout": Lock timeout must be'),
+            '"ok" is defined more than once'
+        ]);
+        expect(parseWorkspaceConnections('{', 'shop').errors[0]).toMatch(/^Invalid JSON/);
+        expect(parseWorkspaceConnections('{}', 'shop').errors).toEqual(['Expected a "connections" array']);
+    });
+
+    test('exports connections without ids or unset fields', () => {
+        const config: ConnectionConfig = {
+            id: 'conn_1', name: 'Local', host: 'localhost', port: 5433, database: 'app', username: 'me', ssl: true
+        };
+        expect(toWorkspaceConnectionEntry(config)).toEqual({
+            name: 'Local', host: 'localhost', port: 5433, database: 'app', username: 'me', sslMode: 'require'
+        });
+    });
+
+    test('merges into an existing file by name and keeps other keys', () => {
+        const existing = JSON.stringify({ $comment: 'team list', connections: [{ name: 'Local', host: 'old' }, { name: 'Keep', host: 'k' }] });
+        const text = mergeWorkspaceConnections(existing, [
+            { id: 'a', name: 'Local', host: 'new', port: 5432, database: 'app', username: 'me' },
+            { id: 'b', name: 'Added', host: 'x', port: 5432, database: 'app', username: 'me' }
+        ]);
+        const data = JSON.parse(text);
+        expect(data.$comment).toBe('team list');
+        expect(data.connections.map((c: any) => `${c.name}@${c.host}`)).toEqual(['Local@new', 'Keep@k', 'Added@x']);
+
+        const roundTrip = parseWorkspaceConnections(text, 'shop');
+        expect(roundTrip.errors).toEqual([]);
+        expect(roundTrip.connections).toHaveLength(3);
+    });
+});
@@ -0,0 +1,84 @@
+import type { ColumnFilter, ColumnInfo, FilterOperator } from './types';
+
+export type FilterTypeCategory = 'number' | 'temporal' | 'boolean' | 'text' | 'enum' | 'other';
+
+// Kept in step with src/tableFilters.ts, which skips operators a column's type doesn't offer
+const OPERATORS_BY_CATEGORY: Record<FilterTypeCategory, FilterOperator[]> = {
+  number: ['equals', 'notEquals', 'lessThan', 'lessOrEqual', 'greaterThan', 'greaterOrEqual', 'between', 'in', 'isNull', 'isNotNull'],
+  temporal: ['equals', 'notEquals', 'lessThan', 'lessOrEqual', 'greaterThan', 'greaterOrEqual', 'between', 'isNull', 'isNotNull'],
+  boolean: ['isTrue', 'isFalse', 'isNull', 'isNotNull'],
+  text: ['contains', 'startsWith', 'equals', 'notEquals', 'in', 'isNull', 'isNotNull'],
+  enum: ['equals', 'notEquals', 'in', 'isNull', 'isNotNull'],
+  other: ['contains', 'isNull', 'isNotNull']
+};
+
+export const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  contains: 'contains',
+  startsWith: 'starts with',
+  equals: '=',
+  notEquals: '≠',
+  lessThan: '<',
+  lessOrEqual: '≤',
+  greaterThan: '>',
+  greaterOrEqual: '≥',
+  between: 'between',
+  in: 'in',
+  isNull: 'is NULL',
+  isNotNull: 'is not NULL',
+  isTrue: 'is true',
+  isFalse: 'is false'
+};
+
+export function filterTypeCategory(column: Pick<ColumnInfo, 'type' | 'enumValues'>): FilterTypeCategory {
+  const type = String(column.type).toLowerCase();
+  if (type.endsWith('[]')) return 'other';
+  if (column.enumValues && column.enumValues.length > 0) return 'enum';
+  if (type === 'boolean' || type === 'bool') return 'boolean';
+  if (/^(smallint|integer|bigint|int[248]?|numeric|decimal|real|double precision|float[48]?|money)\b/.test(type)) return 'number';
+  if (/^(date|time|timestamp|interval)\b/.test(type)) return 'temporal';
+  if (/^(text|character|char|varchar|bpchar|citext|name|uuid|inet|cidr|macaddr)\b/.test(type)) return 'text';
+  return 'other';
+}
+
+export function operatorsForColumn(column: Pick<ColumnInfo, 'type' | 'enumValues'>): FilterOperator[] {
+  return OPERATORS_BY_CATEGORY[filterTypeCategory(column)];
+}
+
+// How many values an operator takes; 'list' for one or more
+export function operandCount(operator: FilterOperator): 0 | 1 | 2 | 'list' {
+  switch (operator) {
+    case 'isNull':
+    case 'isNotNull':
+    case 'isTrue':
+    case 'isFalse':
+      return 0;
+    case 'between':
+      return 2;
+    case 'in':
+      return 'list';
+    default:
+      return 1;
+  }
+}
+
+export function isFilterComplete(filter: ColumnFilter): boolean {
+  const values = filter.values.map((value) => value.trim());
+  const count = operandCount(filter.operator);
+  if (count === 'list') return values.some((value) => value.length > 0);
+  return values.slice(0, count).filter((value) => value.length > 0).length === count;
+}
+
+export function describeFilter(filter: ColumnFilter): string {
+  const label = OPERATOR_LABELS[filter.operator];
+  const [first, second] = filter.values;
+  switch (operandCount(filter.operator)) {
+    case 0:
+      return label;
+    case 2:
+      return `${label} ${first} and ${second}`;
+    case 'list':
+      return `${label} (${filter.values.filter((value) => value.trim()).join(', ')})`;
+    default:
+      return `${label} ${first}`;
+  }
+}
@@ -35,12 +35,25 @@ export interface TableStatePayload {
   rows: Record<string, unknown>[];
   currentPage: number;
   totalRows: number;
+  // totalRows is the planner's estimate rather than a count
+  totalRowsEstimated?: boolean;
+  // Known when pages are located by key
+  hasNextPage?: boolean;
   paginationSize: number;
+  // Pages are located by their key columns instead of OFFSET
+  keysetPagination?: boolean;
   batchMode: boolean;
   sort?: SortDescriptor | null;
-  filters?: Record<string, string>;
+  filters?: ColumnFilter[];
   searchTerm?: string;
   customWhereClause?: string;
+  // Views that are not auto-updatable and materialized views are read-only
+  relationKind?: 'table' | 'view' | 'materializedView';
+  readOnly?: boolean;
+  // The connection is read-only, so no relation can be edited
+  connectionReadOnly?: boolean;
+  // Environment label of the connection (dev/staging/prod), shown as a header badge
+  environment?: 'dev' | 'staging' | 'prod';
   // Optional preferences persisted by the extension (per table)
   tablePreferences?: {
     columnOrder?: string[];
@@ -53,7 +66,28 @@ export interface SortDescriptor {
   direction: 'asc' | 'desc';
 }
 
-export type FilterMap = Record<string, string>;
+export type FilterOperator =
+  | 'contains'
+  | 'startsWith'
+  | 'equals'
+  | 'notEquals'
+  | 'lessThan'
+  | 'lessOrEqual'
+  | 'greaterThan'
+  | 'greaterOrEqual'
+  | 'between'
+  | 'in'
+  | 'isNull'
+  | 'isNotNull'
+  | 'isTrue'
+  | 'isFalse';
+
+// Filter on one column; the extension casts the values to the column's type
+export interface ColumnFilter {
+  column: string;
+  operator: FilterOperator;
+  values: string[];
+}
 
 export interface GridChangeInsert {
   type: 'insert';
@@ -145,10 +179,26 @@ export interface CreateTableInitialState {
   constraints?: SchemaDesignerConstraint[];
 }
 
+export type PartitionStrategy = 'RANGE' | 'LIST' | 'HASH';
+
+export interface CreateTablePartitionDraft {
+  id: string;
+  name: string;
+  // FOR VALUES body, e.g. "FROM ('2024-01-01') TO ('2025-01-01')", or DEFAULT
+  bound: string;
+}
+
+export interface CreateTablePartitioningDraft {
+  strategy: PartitionStrategy;
+  columns: string[];
+  partitions: CreateTablePartitionDraft[];
+}
+
 export interface CreateTablePreviewPayload {
   tableName: string;
   columns: CreateTableColumnDraft[];
   constraints?: SchemaDesignerConstraint[];
+  partitioning?: CreateTablePartitioningDraft | null;
   useManualSql?: boolean;
   sql?: string;
 }